@@ -5,7 +5,7 @@ import path from "node:path";
 import { setCache } from "./src/framework/server/cache";
 import { generateRouteModulesFile } from "./src/framework/server/generate-route-modules";
 import { discoverPublicAssets } from "./src/framework/server/public";
-import { renderRouteToString } from "./src/framework/server/render";
+import { renderStaticPage } from "./src/framework/server/render";
 import { generateRouteTypes } from "./src/framework/shared/generate-route-types";
 import { getPageConfig, hasPageConfig } from "./src/framework/shared/page";
 import { discoverRoutes, type RouteInfo } from "./src/framework/shared/router";
@@ -803,43 +803,44 @@ const getParamSets = async (
   return generatedParams;
 };
 
-/**
- * Load page data if loader exists
- */
-const loadPageData = async (
-  routeInfo: RouteInfo,
-  PageComponent: unknown,
-  params: Record<string, string> = {}
-): Promise<unknown> => {
-  if (!(routeInfo.hasLoader && hasPageConfig(PageComponent))) {
-    return;
-  }
-
-  const config = getPageConfig(PageComponent);
-  if (!config.loader) {
-    return;
-  }
-
-  return await config.loader(params);
-};
-
 /**
  * Render a single page with given params
  */
 const renderSinglePage = async (
   routePath: string,
   routeInfo: RouteInfo,
-  params: Record<string, string>,
-  PageComponent: unknown
+  params: Record<string, string>
 ): Promise<void> => {
   const concretePath =
     routeInfo.isDynamic && Object.keys(params).length > 0
       ? buildConcretePath(routePath, params)
       : routePath;
 
-  const pageData = await loadPageData(routeInfo, PageComponent, params);
-  const html = await renderRouteToString(routeInfo, pageData, params);
+  const result = await renderStaticPage(routeInfo, params, concretePath);
 
+  // Initialize cache entry for ISR-enabled pages
+  if (routeInfo.revalidate) {
+    await setCache(concretePath, {
+      ...result,
+      generatedAt: Date.now(),
+      revalidate: routeInfo.revalidate,
+    });
+  }
+
+  // notFound() / redirect(): no HTML file, the server answers with the right status
+  // (from the ISR cache, or by rendering the page on request)
+  if (result.status !== 200) {
+    outputs.push({
+      File: concretePath,
+      Type: result.location
+        ? `redirect ${result.status} -> ${result.location}`
+        : `not found ${result.status}`,
+      Size: formatFileSize(result.html.length),
+    });
+    return;
+  }
+
+  const { html } = result;
   const htmlPath =
     concretePath === "/"
       ? path.join(outdir, "pages", "index.html")
@@ -853,15 +854,6 @@ const renderSinglePage = async (
     Type: "static page",
     Size: formatFileSize(html.length),
   });
-
-  // Initialize cache entry for ISR-enabled pages
-  if (routeInfo.revalidate) {
-    await setCache(concretePath, {
-      html,
-      generatedAt: Date.now(),
-      revalidate: routeInfo.revalidate,
-    });
-  }
 };
 
 /**
@@ -889,7 +881,7 @@ const processStaticRoute = async (
 
   let count = 0;
   for (const params of paramSets) {
-    await renderSinglePage(routePath, routeInfo, params, PageComponent);
+    await renderSinglePage(routePath, routeInfo, params);
     count += 1;
   }
 
@@ -3,7 +3,36 @@
  * Provides type-safe API calls from client components
  */
 
-import type { Route, RouterClient, RouterShape } from "~/framework/shared/api";
+import { createApiHooks } from "~/framework/client/query";
+import {
+  type ApiEventStream,
+  buildPathWithParams,
+  childLocation,
+  type Route,
+  type RouterClient,
+  type RouterLocation,
+  type RouterShape,
+  routeIdempotency,
+} from "~/framework/shared/api";
+import { toApiError } from "~/framework/shared/api-errors";
+import {
+  type BatchLinkOptions,
+  createBatchLink,
+} from "~/framework/shared/batch";
+import { connectChannel, isChannel } from "~/framework/shared/channel";
+import {
+  type ApiCallOptions,
+  type ApiRequest,
+  type ClientFetch,
+  type ClientFetchOptions,
+  createClientFetch,
+} from "~/framework/shared/client-fetch";
+import { hasBlobValues, toFormData } from "~/framework/shared/form-data";
+import { IDEMPOTENCY_KEY_HEADER } from "~/framework/shared/idempotency";
+import { isPaginated, withPages } from "~/framework/shared/pagination";
+import { encodeQuery } from "~/framework/shared/query-string";
+import { richSerializer, type Serializer } from "~/framework/shared/serializer";
+import { readEventValues } from "~/framework/shared/sse";
 import { api } from "./api";
 
 /**
@@ -42,35 +71,49 @@ const isMethodGrouped = (value: unknown): value is Record<string, Route> => {
   return true;
 };
 
+/**
+ * Matches `:param` segments in a path template
+ */
+const PATH_PARAM_REGEX = /:([A-Za-z0-9_]+)/g;
+
 /**
  * Handle params replacement in URL
+ * Each `:param` segment is replaced by name, so params sharing a prefix (`:id`, `:idx`) don't collide
  */
-const replaceParams = (url: string, params: Record<string, string>): string => {
-  let result = url;
-  for (const [k, v] of Object.entries(params)) {
-    result = result.replace(`:${k}`, v);
-  }
-  return result;
-};
+const replaceParams = (url: string, params: Record<string, string>): string =>
+  url.replace(PATH_PARAM_REGEX, (segment, name: string) => {
+    const value = params[name];
+    return value === undefined ? segment : encodeURIComponent(String(value));
+  });
 
 /**
- * Build query string from query object
+ * How the client sends requests: call pipeline and wire format
  */
-const buildQueryString = (query: Record<string, string>): string => {
-  const searchParams = new URLSearchParams();
-  for (const [k, v] of Object.entries(query)) {
-    searchParams.set(k, String(v));
-  }
-  return searchParams.toString();
-};
+interface ClientTransport {
+  /** Interceptors, timeouts and retries over plain fetch or a batching link */
+  fetch: ClientFetch;
+  serializer: Serializer;
+}
+
+/**
+ * Encode a request body: FormData when it contains File/Blob values, serialized otherwise
+ */
+const encodeBody = (
+  value: unknown,
+  serializer: Serializer
+): string | FormData =>
+  hasBlobValues(value)
+    ? toFormData(value as Record<string, unknown>)
+    : serializer.stringify(value);
 
 /**
  * Process input and build URL with params/query
  */
 const processInput = (
   url: string,
-  input: unknown
-): { finalUrl: string; body?: string } => {
+  input: unknown,
+  serializer: Serializer
+): { finalUrl: string; body?: string | FormData } => {
   let finalUrl = url;
 
   if (!input || typeof input !== "object") {
@@ -88,7 +131,7 @@ const processInput = (
   // Add query params
   const query = inputObj["query"];
   if (query && typeof query === "object") {
-    const queryStr = buildQueryString(query as Record<string, string>);
+    const queryStr = encodeQuery(query as Record<string, unknown>);
     if (queryStr) {
       finalUrl = `${finalUrl}?${queryStr}`;
     }
@@ -97,7 +140,7 @@ const processInput = (
   // Body (for POST/PUT/PATCH)
   const bodyValue = inputObj["body"];
   if (bodyValue !== undefined) {
-    return { finalUrl, body: JSON.stringify(bodyValue) };
+    return { finalUrl, body: encodeBody(bodyValue, serializer) };
   }
 
   // If there are params or query, extract body from remaining top-level fields
@@ -109,109 +152,211 @@ const processInput = (
       }
     }
     if (Object.keys(bodyFields).length > 0) {
-      return { finalUrl, body: JSON.stringify(bodyFields) };
+      return { finalUrl, body: encodeBody(bodyFields, serializer) };
     }
     return { finalUrl };
   }
 
   // Direct body input (shorthand for routes with only body)
-  return { finalUrl, body: JSON.stringify(input) };
+  return { finalUrl, body: encodeBody(input, serializer) };
 };
 
 /**
  * Handle fetch response
+ * Failures reject with an ApiError (status, code, typed data, validation issues)
  */
-const handleResponse = async (res: Response): Promise<unknown> => {
+const handleResponse = async (
+  res: Response,
+  serializer: Serializer
+): Promise<unknown> => {
   if (!res.ok) {
-    const error = await res.json().catch(() => ({
-      error: "Request failed",
-    }));
-    throw new Error(
-      (error as { error?: string }).error || `HTTP ${res.status}`
-    );
+    throw await toApiError(res);
   }
 
+  // Servers without the negotiated format answer with plain JSON
+  if (res.headers.get("content-type")?.includes(serializer.contentType)) {
+    return serializer.parse(await res.text());
+  }
   return res.json();
 };
 
+/**
+ * Build the request for an encoded body
+ * FormData sets its own multipart Content-Type (with boundary)
+ */
+const buildRequest = (
+  { url, method, accept }: { url: string; method: string; accept: string },
+  body: string | FormData | undefined,
+  serializer: Serializer
+): ApiRequest => {
+  const request: ApiRequest = {
+    url,
+    method,
+    headers: new Headers({ Accept: accept }),
+  };
+  if (body) {
+    if (typeof body === "string") {
+      request.headers.set("Content-Type", serializer.contentType);
+    }
+    request.body = body;
+  }
+  return request;
+};
+
 /**
  * Create fetch function for a route
+ * Calls of `idempotent` routes carry an Idempotency-Key, kept across retries
  */
 const createRouteHandler =
-  (url: string, method: string): ((input?: unknown) => Promise<unknown>) =>
-  async (input?: unknown) => {
-    const { finalUrl, body } = processInput(url, input);
+  (
+    url: string,
+    method: string,
+    transport: ClientTransport,
+    idempotent = false
+  ): ((input?: unknown, options?: ApiCallOptions) => Promise<unknown>) =>
+  async (input, options) => {
+    const { serializer } = transport;
+    const { finalUrl, body } = processInput(url, input, serializer);
+    const request = buildRequest(
+      { url: finalUrl, method, accept: serializer.contentType },
+      body,
+      serializer
+    );
+    if (idempotent) {
+      request.headers.set(
+        IDEMPOTENCY_KEY_HEADER,
+        options?.idempotencyKey ?? crypto.randomUUID()
+      );
+    }
+    const res = await transport.fetch(request, options);
+    return handleResponse(res, serializer);
+  };
 
-    const fetchOptions: RequestInit = {
-      method,
-    };
+/**
+ * Create event stream function for a streaming route
+ * The request starts when iteration starts; `abort()`, the call's `signal` or leaving
+ * the loop closes it. Streams are never retried or timed out
+ */
+const createStreamHandler =
+  (
+    url: string,
+    method: string,
+    transport: ClientTransport
+  ): ((input?: unknown, options?: ApiCallOptions) => ApiEventStream<unknown>) =>
+  (input, options) => {
+    const controller = new AbortController();
+    const { finalUrl, body } = processInput(url, input, transport.serializer);
+    const signal = options?.signal
+      ? AbortSignal.any([controller.signal, options.signal])
+      : controller.signal;
+
+    const iterate = async function* (): AsyncGenerator<unknown> {
+      const request = buildRequest(
+        {
+          url: finalUrl,
+          method,
+          accept: `text/event-stream, ${transport.serializer.contentType}`,
+        },
+        body,
+        transport.serializer
+      );
 
-    if (body) {
-      fetchOptions.headers = { "Content-Type": "application/json" };
-      fetchOptions.body = body;
-    }
+      try {
+        const res = await transport.fetch(request, {
+          ...options,
+          signal,
+          timeout: 0,
+          retry: false,
+        });
+        if (!res.ok) {
+          throw await toApiError(res);
+        }
+        yield* readEventValues(res, transport.serializer);
+      } catch (error) {
+        // Aborting is a normal way to stop listening - end quietly
+        if (signal.aborted) {
+          return;
+        }
+        throw error;
+      } finally {
+        controller.abort();
+      }
+    };
 
-    const res = await fetch(finalUrl, fetchOptions);
-    return handleResponse(res);
+    return {
+      [Symbol.asyncIterator]: iterate,
+      abort: () => controller.abort(),
+    };
   };
 
 /**
- * Extract param names from route config (simplified version)
+ * Create client function matching the route kind (JSON or event stream)
+ * Paginated routes also get `.pages(input)`
  */
-const extractParamNames = (route: Route): string[] => {
-  const config = route.config;
-  if (!config.params) {
-    return [];
-  }
-  // Try to extract param names from Zod schema
-  const def = (config.params as { _def?: { shape?: Record<string, unknown> } })
-    ._def;
-  if (def?.shape) {
-    return Object.keys(def.shape);
+const createClientFn = (
+  route: Route,
+  url: string,
+  method: string,
+  transport: ClientTransport
+): ((input?: unknown, options?: ApiCallOptions) => unknown) => {
+  if (route.kind === "stream") {
+    return createStreamHandler(url, method, transport);
   }
-  return [];
+  const call = createRouteHandler(
+    url,
+    method,
+    transport,
+    routeIdempotency(route) !== undefined
+  );
+  return isPaginated(route) ? withPages(call) : call;
 };
 
 /**
- * Build path with params (same logic as createAPI)
+ * Create connect function for a channel
+ * Each call opens its own auto-reconnecting connection
  */
-const buildPathWithParams = (
-  basePath: string,
-  currentPath: string,
-  route: Route
-): string => {
-  const fullPath = `${basePath}${currentPath}`;
-  const paramNames = extractParamNames(route);
-  if (paramNames.length === 1) {
-    const segments = fullPath.split("/");
-    segments[segments.length - 1] = `:${paramNames[0]}`;
-    return segments.join("/");
-  }
-  return fullPath;
-};
+const createChannelHandler =
+  (url: string, serializer: Serializer) =>
+  (options?: { query?: Record<string, unknown> }) => {
+    const queryStr = options?.query ? encodeQuery(options.query) : "";
+    return connectChannel(queryStr ? `${url}?${queryStr}` : url, serializer);
+  };
 
 /**
  * Build path map from routes structure (same logic as createAPI's flattenRoutes)
- * Maps nested key paths (e.g., "/products/update") to actual URL paths (e.g., "/api/products/:id")
+ * Maps nested key paths (e.g., "/products/update") to actual URL paths (e.g., "/api/products/:id"),
+ * following mounted subtrees (e.g., "/v2/products/list" → "/api/v2/products/list")
  */
 const buildPathMap = (
   routes: RouterShape,
-  basePath = "/api",
-  pathPrefix = ""
+  basePath: string
 ): Map<string, string> => {
   const pathMap = new Map<string, string>();
 
-  const flattenRoutes = (obj: RouterShape, prefix: string): void => {
+  const flattenRoutes = (
+    obj: RouterShape,
+    prefix: string,
+    location: RouterLocation
+  ): void => {
     for (const [key, value] of Object.entries(obj)) {
       if (!value) {
         continue;
       }
 
       const currentPath = `${prefix}/${key}`;
+      const { urlPath, mountPath } = childLocation(location, key, value);
 
-      if (isRoute(value)) {
+      if (isChannel(value)) {
+        // Channels are served at their URL path, without templates
+        pathMap.set(currentPath, `${basePath}${urlPath}`);
+      } else if (isRoute(value)) {
         // Single route
-        const finalPath = buildPathWithParams(basePath, currentPath, value);
+        const finalPath = buildPathWithParams(
+          basePath,
+          urlPath,
+          value.config,
+          mountPath
+        );
         pathMap.set(currentPath, finalPath);
       } else if (isMethodGrouped(value)) {
         // Method-grouped routes share the same path
@@ -219,33 +364,60 @@ const buildPathMap = (
           if (isRoute(routeValue)) {
             const finalPath = buildPathWithParams(
               basePath,
-              currentPath,
-              routeValue
+              urlPath,
+              routeValue.config,
+              mountPath
             );
             pathMap.set(`${currentPath}:${methodKey}`, finalPath);
           }
         }
-      } else if (value && typeof value === "object") {
+      } else if (typeof value === "object") {
         // Nested router shape - recurse
-        flattenRoutes(value as RouterShape, currentPath);
+        flattenRoutes(value as RouterShape, currentPath, {
+          urlPath,
+          mountPath,
+        });
       }
     }
   };
 
-  flattenRoutes(routes, pathPrefix);
+  flattenRoutes(routes, "", { urlPath: "", mountPath: "" });
   return pathMap;
 };
 
+/**
+ * Create method-specific handlers for method-grouped routes (GET, PUT, etc.)
+ */
+const createMethodHandlers = (
+  routes: Record<string, Route>,
+  currentPath: string,
+  resolveUrl: (key: string) => string,
+  transport: ClientTransport
+): Record<string, (input?: unknown) => unknown> => {
+  const methodHandlers: Record<string, (input?: unknown) => unknown> = {};
+  for (const [methodKey, routeValue] of Object.entries(routes)) {
+    const url = resolveUrl(`${currentPath}:${methodKey}`);
+    methodHandlers[methodKey] = createClientFn(
+      routeValue,
+      url,
+      methodKey,
+      transport
+    );
+  }
+  return methodHandlers;
+};
+
 /**
  * Build client proxy from API routes using correct paths from route structure
+ * `resolveUrl` maps a key path to its URL (see buildPathMap)
  */
 const buildClientProxy = <T extends RouterShape>(
   routes: T,
-  basePath = "/api",
+  transport: ClientTransport,
+  resolveUrl: (key: string) => string,
   pathPrefix = ""
 ): unknown => {
   const proxy: Record<string, unknown> = {};
-  const pathMap = buildPathMap(routes, basePath, pathPrefix);
 
   for (const [key, value] of Object.entries(routes)) {
     if (!value) {
@@ -254,29 +426,33 @@ const buildClientProxy = <T extends RouterShape>(
 
     const currentPath = `${pathPrefix}/${key}`;
 
-    if (isRoute(value)) {
+    if (isChannel(value)) {
+      proxy[key] = createChannelHandler(
+        resolveUrl(currentPath),
+        transport.serializer
+      );
+    } else if (isRoute(value)) {
       // Single route - use path from map
       const method = value.config.method;
-      const url = pathMap.get(currentPath) || `${basePath}${currentPath}`;
-      proxy[key] = createRouteHandler(url, method);
+      proxy[key] = createClientFn(
+        value,
+        resolveUrl(currentPath),
+        method,
+        transport
+      );
     } else if (isMethodGrouped(value)) {
-      // Method-grouped routes (GET, PUT, etc.) - create method-specific handlers
-      const methodHandlers: Record<
-        string,
-        (input?: unknown) => Promise<unknown>
-      > = {};
-      for (const [methodKey] of Object.entries(value)) {
-        const url =
-          pathMap.get(`${currentPath}:${methodKey}`) ||
-          `${basePath}${currentPath}`;
-        methodHandlers[methodKey] = createRouteHandler(url, methodKey);
-      }
-      proxy[key] = methodHandlers;
+      proxy[key] = createMethodHandlers(
+        value,
+        currentPath,
+        resolveUrl,
+        transport
+      );
     } else if (value && typeof value === "object") {
       // Recursively build nested proxies
       proxy[key] = buildClientProxy(
         value as RouterShape,
-        basePath,
+        transport,
+        resolveUrl,
         currentPath
       );
     }
@@ -286,21 +462,66 @@ const buildClientProxy = <T extends RouterShape>(
 };
 
 /**
- * Typed API client for use in client components
- * Usage: import { apiClient } from "~/api-client"
+ * API client options
+ * Request/response `interceptors`, a per-attempt `timeout` and a `retry` policy for
+ * idempotent methods apply to every call; calls can override them (and pass a `signal`)
+ * in their second argument
  */
-let apiClient: RouterClient<typeof api.routes>;
+export interface ApiClientOptions extends ClientFetchOptions {
+  /**
+   * Coalesce calls made in the same tick into one request to the batch endpoint
+   * (requires `batch` in createAPI options)
+   */
+  batch?: boolean | BatchLinkOptions;
+  /**
+   * Wire format negotiated with the server (default: richSerializer, so Date, BigInt,
+   * Map, Set and undefined arrive as the types the response schema infers)
+   */
+  serializer?: Serializer;
+}
 
-try {
+/**
+ * Create a typed API client
+ * Usage: const batchedClient = createApiClient({ batch: true, retry: { attempts: 2 } })
+ */
+export const createApiClient = (
+  options: ApiClientOptions = {}
+): RouterClient<typeof api.routes> => {
   // Access api.routes - build paths using same logic as createAPI
   const routes = api.routes;
   if (!routes) {
     console.error("[api-client] api.routes is undefined");
     throw new Error("api.routes is undefined");
   }
-  apiClient = buildClientProxy(routes, "/api") as RouterClient<
+  const transport: ClientTransport = {
+    fetch: createClientFetch(
+      options.batch
+        ? createBatchLink(options.batch === true ? {} : options.batch)
+        : (url, init) => fetch(url, init),
+      options
+    ),
+    serializer: options.serializer ?? richSerializer,
+  };
+  const pathMap = buildPathMap(routes, api.basePath);
+  const resolveUrl = (key: string): string =>
+    pathMap.get(key) || `${api.basePath}${key.split(":")[0]}`;
+  return buildClientProxy(routes, transport, resolveUrl) as RouterClient<
     typeof api.routes
   >;
+};
+
+/**
+ * Typed API client for use in client components
+ * On the server (SSR, loaders, prerendering) relative fetches can't work, so calls
+ * go through the in-process caller instead; use `api.createCaller(request)` directly
+ * when middleware needs the incoming request's headers
+ * Usage: import { apiClient } from "~/api-client"
+ */
+let apiClient: RouterClient<typeof api.routes>;
+
+try {
+  apiClient =
+    typeof window === "undefined" ? api.createCaller() : createApiClient();
 } catch (error) {
   console.error("[api-client] Failed to build client proxy:", error);
   // Create a fallback empty proxy to prevent crashes
@@ -308,3 +529,9 @@ try {
 }
 
 export { apiClient };
+
+/**
+ * React data hooks for the typed API client (cached queries and mutations)
+ * Usage: const { data } = apiHooks.products.list.useQuery()
+ */
+export const apiHooks = createApiHooks(api.routes, apiClient);
@@ -0,0 +1,82 @@
+/**
+ * Live analytics channel example
+ */
+
+import { z } from "zod";
+import { channel } from "~/framework/shared/channel";
+
+/**
+ * In-memory stats (reset on server restart)
+ */
+const stats = {
+  pageViews: 0,
+  activeVisitors: 0,
+  topPaths: new Map<string, number>(),
+};
+
+/**
+ * Most distinct paths counted at once, so arbitrary client-reported paths can't grow the map without bound
+ */
+const MAX_TRACKED_PATHS = 100;
+
+/**
+ * Count a view of `path`, evicting the least-viewed path when a new one arrives at the cap
+ */
+const countPath = (path: string): void => {
+  const views = stats.topPaths.get(path);
+  if (views === undefined && stats.topPaths.size >= MAX_TRACKED_PATHS) {
+    let leastViewed: [string, number] | undefined;
+    for (const entry of stats.topPaths) {
+      if (!leastViewed || entry[1] < leastViewed[1]) {
+        leastViewed = entry;
+      }
+    }
+    if (leastViewed) {
+      stats.topPaths.delete(leastViewed[0]);
+    }
+  }
+  stats.topPaths.set(path, (views ?? 0) + 1);
+};
+
+/**
+ * Stats snapshot sent to subscribers
+ */
+const snapshot = () => ({
+  type: "stats" as const,
+  pageViews: stats.pageViews,
+  activeVisitors: stats.activeVisitors,
+  topPaths: [...stats.topPaths]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 5)
+    .map(([path, views]) => ({ path, views })),
+});
+
+/**
+ * Live analytics: clients report page views, every subscriber receives the updated stats
+ */
+export const live = channel({
+  client: z.object({
+    type: z.literal("track"),
+    path: z.string().startsWith("/").max(512),
+  }),
+  server: z.object({
+    type: z.literal("stats"),
+    pageViews: z.number(),
+    activeVisitors: z.number(),
+    topPaths: z.array(z.object({ path: z.string(), views: z.number() })),
+  }),
+  open() {
+    stats.activeVisitors += 1;
+    // Server-wide publish also reaches the socket that just joined
+    live.publish(snapshot());
+  },
+  message(_socket, message) {
+    stats.pageViews += 1;
+    countPath(message.path);
+    live.publish(snapshot());
+  },
+  close() {
+    stats.activeVisitors -= 1;
+    live.publish(snapshot());
+  },
+});
@@ -2,33 +2,70 @@
  * Compose all API routes
  */
 
-import { createAPI } from "~/framework/shared/api";
+import { createAPI, mount } from "~/framework/shared/api";
+import { FRAMEWORK_RESPONSE_HEADERS } from "~/framework/shared/cors";
+import { live } from "./analytics";
 import { hello, helloPut } from "./hello";
 // biome-ignore lint/performance/noNamespaceImport: its ok here
 import * as products from "./products";
-import { revalidate } from "./revalidate";
+import { revalidate, revalidateStream } from "./revalidate";
 // biome-ignore lint/performance/noNamespaceImport: its ok here
 import * as users from "./users";
+// biome-ignore lint/performance/noNamespaceImport: its ok here
+import * as productsV2 from "./v2/products";
 
 /**
  * Main API instance
  * Routes are composed into nested structure
  * Routes with the same path but different methods are automatically grouped
+ * OpenAPI document is served at /api/openapi.json
+ * Batched calls (createApiClient({ batch: true })) are served at /api/batch
+ * Channels are served over WebSockets (see server `websocket` handler)
+ * Version 2 routes are mounted at /api/v2; the unversioned routes stay for existing clients
  */
-export const api = createAPI({
-  hello: {
-    GET: hello,
-    PUT: helloPut,
-  },
-  users: {
-    list: users.list,
-    byId: users.byId, // → /api/users/:id
-    create: users.create,
-  },
-  products: {
-    list: products.list, // → /api/products
-    byId: products.byId, // → /api/products/:id
-    update: products.update, // → /api/products/:id (PUT)
+export const api = createAPI(
+  {
+    hello: {
+      GET: hello,
+      PUT: helloPut,
+    },
+    users: {
+      list: users.list,
+      byId: users.byId, // → /api/users/:id
+      create: users.create,
+      avatar: users.avatar, // → /api/users/:id/avatar (multipart/form-data)
+    },
+    products: {
+      list: products.list, // → /api/products
+      byId: products.byId, // → /api/products/:id
+      update: products.update, // → /api/products/:id (PUT)
+    },
+    revalidate, // → /api/revalidate
+    revalidateStream, // → /api/revalidate/stream (Server-Sent Events)
+    analytics: {
+      live, // → /api/analytics/live (WebSocket channel)
+    },
+    v2: mount("/v2", {
+      products: {
+        list: productsV2.list, // → /api/v2/products/list
+        byId: productsV2.byId, // → /api/v2/products/:id
+      },
+    }),
   },
-  revalidate, // → /api/revalidate
-});
+  {
+    batch: { path: "/batch" },
+    cors: {
+      origin: "*",
+      maxAge: 600,
+      exposedHeaders: [...FRAMEWORK_RESPONSE_HEADERS],
+    },
+    openapi: {
+      path: "/openapi.json",
+      info: {
+        title: "Bun React API",
+        version: "0.1.0",
+        description: "Typed API routes for the Bun + React example app",
+      },
+    },
+  }
+);
@@ -0,0 +1,38 @@
+/**
+ * Shared API middleware
+ */
+
+import { defineApiMiddleware, withMiddleware } from "~/framework/shared/api";
+import { RouteError } from "~/framework/shared/api-errors";
+import { rateLimit } from "~/framework/shared/rate-limit";
+
+/**
+ * Require `Authorization: Bearer <REVALIDATE_SECRET>` when the secret is configured
+ * Without REVALIDATE_SECRET (local development) every request is allowed
+ */
+export const requireRevalidateSecret = defineApiMiddleware(({ request }) => {
+  const secret = process.env["REVALIDATE_SECRET"];
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new RouteError(401, "UNAUTHORIZED", {
+      message: "Unauthorized",
+    }).toResponse();
+  }
+  return;
+});
+
+/**
+ * Revalidation renders pages, so cap it per client IP (shared by all revalidate routes)
+ */
+const revalidateRateLimit = rateLimit({
+  name: "revalidate",
+  windowMs: 60_000,
+  max: 20,
+});
+
+/**
+ * Route builder for endpoints guarded by the revalidation secret
+ * The rate limit runs first, so guessing the secret is throttled too
+ */
+export const revalidateProtected = withMiddleware(
+  revalidateRateLimit
+).withMiddleware(requireRevalidateSecret);
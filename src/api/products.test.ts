@@ -0,0 +1,43 @@
+import { expect, test } from "bun:test";
+import { api } from "~/api";
+import { assertContracts } from "~/framework/shared/contracts";
+
+test("byId returns the product with rich types", async () => {
+  const client = api.testClient();
+  const product = await client.products.byId({ params: { id: "1" } });
+  expect(product).toMatchObject({ id: "1" });
+  expect(product?.updatedAt).toBeInstanceOf(Date);
+});
+
+test("v2 byId rejects unknown products with 404", async () => {
+  const client = api.testClient();
+  await expect(
+    client.v2.products.byId({ params: { id: "missing" } })
+  ).rejects.toMatchObject({ status: 404 });
+});
+
+test("HEAD answers from GET", async () => {
+  const res = await api.testFetch(
+    new Request("http://localhost/api/products/list", { method: "HEAD" })
+  );
+  expect(res.status).toBe(200);
+  expect(res.headers.get("etag")).toBeTruthy();
+});
+
+test("update invalidates the memoized list", async () => {
+  const client = api.testClient();
+  await client.products.list();
+  await client.products.update({
+    params: { id: "2" },
+    body: { price: 249.99 },
+  });
+  const products = await client.products.list();
+  expect(products.find((product) => product.id === "2")?.price).toBe(249.99);
+});
+
+test("API contracts", async () => {
+  await assertContracts(api, {
+    runs: 10,
+    skip: ["hello.PUT", "users.create", "products.update", "revalidate"],
+  });
+});
@@ -4,6 +4,7 @@
 
 import { z } from "zod";
 import { route } from "~/framework/shared/api";
+import { invalidateCacheTags } from "~/framework/shared/route-cache";
 import {
   getAllProductsAdmin,
   getProductById,
@@ -13,6 +14,8 @@ import {
 
 export const list = route({
   method: "GET",
+  // Loaded on every admin page visit - memoized until a product changes
+  cache: { ttl: 60, scope: () => "public", tags: ["products"] },
   response: z.array(
     z.object({
       id: z.string(),
@@ -20,7 +23,7 @@ export const list = route({
       description: z.string(),
       price: z.number(),
       status: z.enum(["draft", "live"]),
-      updatedAt: z.number(),
+      updatedAt: z.date(),
     })
   ),
   handler: async () => await getAllProductsAdmin(),
@@ -29,6 +32,13 @@ export const list = route({
 export const byId = route({
   method: "GET",
   params: z.object({ id: z.string() }),
+  // Superseded by v2 (404 instead of null)
+  deprecated: { sunset: new Date("2027-06-30"), link: "/api/openapi.json" },
+  cache: {
+    ttl: 60,
+    scope: () => "public",
+    tags: ({ params }) => [`product:${params.id}`],
+  },
   response: z
     .object({
       id: z.string(),
@@ -36,7 +46,7 @@ export const byId = route({
       description: z.string(),
       price: z.number(),
       status: z.enum(["draft", "live"]),
-      updatedAt: z.number(),
+      updatedAt: z.date(),
     })
     .nullable(),
   handler: async ({ params }) => await getProductById(params.id),
@@ -58,12 +68,15 @@ export const update = route({
       description: z.string(),
       price: z.number(),
       status: z.enum(["draft", "live"]),
-      updatedAt: z.number(),
+      updatedAt: z.date(),
     })
     .nullable(),
-  handler: async ({ params, body }) =>
-    await updateProduct(
+  handler: async ({ params, body }) => {
+    const updated = await updateProduct(
       params.id,
       body as Partial<Omit<Product, "id" | "updatedAt">>
-    ),
+    );
+    invalidateCacheTags("products", `product:${params.id}`);
+    return updated;
+  },
 });
@@ -5,9 +5,12 @@
 
 import { z } from "zod";
 import { revalidatePath } from "~/framework/server/revalidate";
-import { route } from "~/framework/shared/api";
+import { revalidateProtected } from "./middleware";
 
-export const revalidate = route({
+/**
+ * Protected by REVALIDATE_SECRET when configured (see ./middleware)
+ */
+export const revalidate = revalidateProtected.route({
   method: "POST",
   body: z.object({
     path: z.string(),
@@ -17,8 +20,6 @@ export const revalidate = route({
     path: z.string(),
   }),
   handler: async ({ body }) => {
-    // in production add authorization check
-
     const success = await revalidatePath(body.path);
     return {
       revalidated: success,
@@ -26,3 +27,40 @@ export const revalidate = route({
     };
   },
 });
+
+/**
+ * Revalidate several paths, streaming progress as Server-Sent Events
+ * Stops early if the client disconnects
+ */
+export const revalidateStream = revalidateProtected.streamRoute({
+  method: "POST",
+  path: "/revalidate/stream",
+  body: z.object({
+    paths: z.array(z.string()).min(1),
+  }),
+  event: z.object({
+    path: z.string(),
+    status: z.enum(["revalidating", "revalidated", "failed"]),
+    completed: z.number(),
+    total: z.number(),
+  }),
+  async *handler({ body, request }) {
+    const total = body.paths.length;
+    let completed = 0;
+
+    for (const path of body.paths) {
+      if (request.signal.aborted) {
+        return;
+      }
+      yield { path, status: "revalidating" as const, completed, total };
+      const success = await revalidatePath(path);
+      completed += 1;
+      yield {
+        path,
+        status: success ? ("revalidated" as const) : ("failed" as const),
+        completed,
+        total,
+      };
+    }
+  },
+});
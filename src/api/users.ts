@@ -2,8 +2,23 @@
  * Users API routes example
  */
 
+import { dirname, join, resolve } from "node:path";
 import { z } from "zod";
 import { route } from "~/framework/shared/api";
+import { RouteError } from "~/framework/shared/api-errors";
+import { MB, saveUpload } from "~/framework/shared/form-data";
+import { paginateArray, paginatedRoute } from "~/framework/shared/pagination";
+
+/**
+ * Directory uploaded avatars are written to
+ * Resolved per upload: this module is also bundled for the client, where `process.cwd` doesn't exist
+ */
+const avatarDir = (): string => join(process.cwd(), "uploads", "avatars");
+
+/**
+ * User ids allowed in file names (letters, digits, "_" and "-": no path separators or dots)
+ */
+const USER_ID_PATTERN = /^[\w-]+$/;
 
 /**
  * User schema
@@ -15,26 +30,19 @@ const userSchema = z.object({
 });
 
 /**
- * List users with query params
+ * List users, one page at a time (?limit=10&cursor=...)
  */
-export const list = route({
-  method: "GET",
-  query: z.object({
-    limit: z.coerce.number().optional(),
-    offset: z.coerce.number().optional(),
-  }),
-  response: z.array(userSchema),
-  handler: ({ query }) => {
+export const list = paginatedRoute({
+  item: userSchema,
+  defaultLimit: 10,
+  handler: ({ page }) => {
     // In real app, fetch from database
     const users = [
       { id: "1", name: "John Doe", email: "john@example.com" },
       { id: "2", name: "Jane Smith", email: "jane@example.com" },
     ];
 
-    const limit = query?.limit ?? 10;
-    const offset = query?.offset ?? 0;
-
-    return users.slice(offset, offset + limit);
+    return paginateArray(users, page);
   },
 });
 
@@ -60,6 +68,10 @@ export const byId = route({
  */
 export const create = route({
   method: "POST",
+  // Public signup endpoint - 5 per minute per client IP
+  rateLimit: { windowMs: 60_000, max: 5 },
+  // Double-submitted signups replay the first response instead of creating two users
+  idempotency: true,
   body: z.object({
     name: z.string().min(1),
     email: z.string().email(),
@@ -74,3 +86,44 @@ export const create = route({
     };
   },
 });
+
+/**
+ * Upload avatar (multipart/form-data with a typed file field)
+ */
+export const avatar = route({
+  method: "POST",
+  path: "/users/:id/avatar",
+  params: z.object({ id: z.string().regex(USER_ID_PATTERN) }),
+  bodyType: "form-data",
+  // The 2 MB file plus multipart framing; rejected before the body is buffered
+  maxBodySize: 3 * MB,
+  body: z.object({
+    avatar: z
+      .file()
+      .max(2 * MB)
+      .mime(["image/png", "image/jpeg", "image/webp"]),
+  }),
+  response: z.object({
+    id: z.string(),
+    fileName: z.string(),
+    type: z.string(),
+    size: z.number(),
+  }),
+  handler: async ({ params, body }) => {
+    const extension = body.avatar.type.split("/")[1];
+    const directory = avatarDir();
+    const destination = resolve(directory, `${params.id}.${extension}`);
+    if (dirname(destination) !== directory) {
+      throw new RouteError(400, "BAD_REQUEST", {
+        message: "Invalid user id",
+      });
+    }
+    const size = await saveUpload(body.avatar, destination);
+    return {
+      id: params.id,
+      fileName: body.avatar.name,
+      type: body.avatar.type,
+      size,
+    };
+  },
+});
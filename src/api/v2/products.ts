@@ -0,0 +1,73 @@
+/**
+ * Product API endpoints, version 2
+ * Mounted at /api/v2 alongside the original routes (see src/api/index.ts)
+ * - `list` filters by status and price range and is cursor-paginated (`{ items, nextCursor }`)
+ * - `byId` answers 404 NOT_FOUND instead of `null`
+ */
+
+import { z } from "zod";
+import { route } from "~/framework/shared/api";
+import { paginateArray, paginatedRoute } from "~/framework/shared/pagination";
+import { getAllProductsAdmin, getProductById } from "~/lib/products";
+
+/**
+ * Product schema
+ */
+const productSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  price: z.number(),
+  status: z.enum(["draft", "live"]),
+  updatedAt: z.date(),
+});
+
+/**
+ * List products, e.g. ?status=draft&status=live&price[min]=50&price[max]=200&limit=10
+ */
+export const list = paginatedRoute({
+  item: productSchema,
+  query: z.object({
+    status: z.array(z.enum(["draft", "live"])).optional(),
+    price: z
+      .object({
+        min: z.coerce.number().optional(),
+        max: z.coerce.number().optional(),
+      })
+      .optional(),
+  }),
+  cache: { ttl: 60, scope: () => "public", tags: ["products"] },
+  handler: async ({ query, page }) => {
+    const { status, price } = query ?? {};
+    const items = (await getAllProductsAdmin()).filter(
+      (product) =>
+        (!status || status.includes(product.status)) &&
+        product.price >= (price?.min ?? 0) &&
+        product.price <= (price?.max ?? Number.POSITIVE_INFINITY)
+    );
+    return paginateArray(items, page);
+  },
+});
+
+export const byId = route({
+  method: "GET",
+  // Relative to the mount: → /api/v2/products/:id
+  path: "/products/:id",
+  params: z.object({ id: z.string() }),
+  errors: {
+    NOT_FOUND: { status: 404, data: z.object({ id: z.string() }) },
+  },
+  cache: {
+    ttl: 60,
+    scope: () => "public",
+    tags: ({ params }) => [`product:${params.id}`],
+  },
+  response: productSchema,
+  handler: async ({ params, error }) => {
+    const product = await getProductById(params.id);
+    if (!product) {
+      throw error("NOT_FOUND", { id: params.id });
+    }
+    return product;
+  },
+});
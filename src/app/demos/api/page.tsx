@@ -25,6 +25,9 @@ import { Textarea } from "@/components/ui/textarea";
 import { api } from "~/api";
 import { apiClient } from "~/api-client";
 import type { RouteMetadata } from "~/framework/shared/api";
+import { isApiError } from "~/framework/shared/api-errors";
+import { isChannel } from "~/framework/shared/channel";
+import type { ApiCallOptions } from "~/framework/shared/client-fetch";
 import { clientComponent } from "~/framework/shared/rsc";
 
 /**
@@ -90,7 +93,8 @@ const processRouteEntry = (
     return;
   }
 
-  if (typeof value !== "object" || value === null) {
+  // Channels (WebSockets) have no request/response call to demo here
+  if (typeof value !== "object" || value === null || isChannel(value)) {
     return;
   }
 
@@ -150,7 +154,7 @@ const buildRouteCallMap = (
 const getNestedValue = (
   obj: unknown,
   path: string[]
-): ((input?: unknown) => Promise<unknown>) | undefined => {
+): ((input?: unknown, options?: ApiCallOptions) => unknown) | undefined => {
   let current: unknown = obj;
   for (const key of path) {
     if (current && typeof current === "object") {
@@ -165,7 +169,7 @@ const getNestedValue = (
     }
   }
   return typeof current === "function"
-    ? (current as (input?: unknown) => Promise<unknown>)
+    ? (current as (input?: unknown, options?: ApiCallOptions) => unknown)
     : undefined;
 };
 
@@ -175,6 +179,8 @@ const APITester = clientComponent(() => {
   const [paramsInput, setParamsInput] = useState<string>("{}");
   const [queryInput, setQueryInput] = useState<string>("{}");
   const [bodyInput, setBodyInput] = useState<string>("{}");
+  // Idempotency-Key of the last submission, reused while the inputs stay the same
+  const submissionRef = useRef<{ input: string; key: string } | null>(null);
 
   const routeCallMap = buildRouteCallMap(api.routes);
   const routes = Array.from(routeCallMap.entries()).map(([path, data]) => ({
@@ -225,6 +231,18 @@ const APITester = clientComponent(() => {
     return input;
   };
 
+  /**
+   * Idempotency-Key for a submission: resubmitting the same input reuses the key,
+   * so double-submits replay the first response instead of writing twice
+   */
+  const submissionKey = (input: unknown): string => {
+    const serialized = JSON.stringify([selectedRoute, input]);
+    if (submissionRef.current?.input !== serialized) {
+      submissionRef.current = { input: serialized, key: crypto.randomUUID() };
+    }
+    return submissionRef.current.key;
+  };
+
   /**
    * Execute API call
    */
@@ -241,11 +259,24 @@ const APITester = clientComponent(() => {
     }
 
     const input = buildInput();
-    const result = await clientCall(
-      Object.keys(input).length > 0 ? input : undefined
+    const result = clientCall(
+      Object.keys(input).length > 0 ? input : undefined,
+      selectedRouteData.metadata.idempotent
+        ? { idempotencyKey: submissionKey(input) }
+        : undefined
     );
 
-    setResponse(JSON.stringify(result, null, 2));
+    // Streaming routes: show events as they arrive
+    if (selectedRouteData.metadata.stream) {
+      const events: unknown[] = [];
+      for await (const event of result as AsyncIterable<unknown>) {
+        events.push(event);
+        setResponse(JSON.stringify(events, null, 2));
+      }
+      return;
+    }
+
+    setResponse(JSON.stringify(await result, null, 2));
   };
 
   const testEndpoint = async (e: FormEvent<HTMLFormElement>) => {
@@ -254,6 +285,17 @@ const APITester = clientComponent(() => {
     try {
       await executeCall();
     } catch (error) {
+      if (isApiError(error)) {
+        const { status, code, message, data, source, issues } = error;
+        setResponse(
+          JSON.stringify(
+            { status, code, error: message, data, source, issues },
+            null,
+            2
+          )
+        );
+        return;
+      }
       setResponse(String(error));
     }
   };
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiClient } from "~/api-client";
+import type { ChannelStatus } from "~/framework/shared/channel";
+import { clientComponent } from "~/framework/shared/rsc";
+
+/**
+ * Stats pushed by the analytics channel
+ */
+interface LiveStats {
+  pageViews: number;
+  activeVisitors: number;
+  topPaths: Array<{ path: string; views: number }>;
+}
+
+/**
+ * Live analytics card fed by the `analytics.live` WebSocket channel
+ */
+const LiveStatsImpl = () => {
+  const [stats, setStats] = useState<LiveStats | null>(null);
+  const [status, setStatus] = useState<ChannelStatus>("connecting");
+
+  useEffect(() => {
+    const connection = apiClient.analytics.live();
+    const offStatus = connection.onStatus(setStatus);
+    const offMessage = connection.onMessage((message) => setStats(message));
+    // Queued until the socket opens
+    connection.send({ type: "track", path: window.location.pathname });
+
+    return () => {
+      offStatus();
+      offMessage();
+      connection.close();
+    };
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Live Activity</CardTitle>
+        <CardDescription>
+          Streamed over a typed WebSocket channel ({status})
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {stats ? (
+          <div className="space-y-4">
+            <div className="flex gap-8">
+              <div>
+                <p className="font-bold text-3xl">{stats.activeVisitors}</p>
+                <p className="text-muted-foreground text-sm">Online now</p>
+              </div>
+              <div>
+                <p className="font-bold text-3xl">{stats.pageViews}</p>
+                <p className="text-muted-foreground text-sm">
+                  Views since server start
+                </p>
+              </div>
+            </div>
+            <ul className="space-y-1 text-sm">
+              {stats.topPaths.map(({ path, views }) => (
+                <li className="flex justify-between" key={path}>
+                  <span className="font-mono">{path}</span>
+                  <span className="text-muted-foreground">{views}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-sm">Connecting…</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export const LiveStats = clientComponent(LiveStatsImpl);
@@ -5,6 +5,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { LiveStats } from "@/app/demos/client-nav/analytics/live-stats";
 
 export default function ClientNavAnalyticsPage() {
   return (
@@ -58,6 +59,8 @@ export default function ClientNavAnalyticsPage() {
         </Card>
       </div>
 
+      <LiveStats />
+
       <Card>
         <CardHeader>
           <CardTitle>Traffic Sources</CardTitle>
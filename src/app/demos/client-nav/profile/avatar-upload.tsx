@@ -0,0 +1,80 @@
+import { type ChangeEvent, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { apiClient } from "~/api-client";
+import { isApiError } from "~/framework/shared/api-errors";
+import { clientComponent } from "~/framework/shared/rsc";
+
+/**
+ * Avatar card uploading the picked image as multipart/form-data
+ */
+const AvatarUploadImpl = () => {
+  const [preview, setPreview] = useState<string | null>(null);
+  const [message, setMessage] = useState("Click to upload a new avatar");
+
+  const handleChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setMessage("Uploading…");
+    try {
+      // File values are sent as FormData automatically
+      const result = await apiClient.users.avatar({
+        params: { id: "1" },
+        body: { avatar: file },
+      });
+      setPreview(URL.createObjectURL(file));
+      setMessage(
+        `Saved ${result.fileName} (${Math.round(result.size / 1024)} KB)`
+      );
+    } catch (error) {
+      const issue = isApiError(error)
+        ? error.fieldErrors()["avatar"]?.[0]
+        : null;
+      setMessage(issue ?? "Upload failed");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Avatar</CardTitle>
+        <CardDescription>Your profile picture</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <label className="flex cursor-pointer items-center justify-center">
+          {preview ? (
+            <img
+              alt="Avatar preview"
+              className="h-32 w-32 rounded-full object-cover"
+              height={128}
+              src={preview}
+              width={128}
+            />
+          ) : (
+            <div className="flex h-32 w-32 items-center justify-center rounded-full bg-muted font-bold text-4xl text-muted-foreground">
+              JD
+            </div>
+          )}
+          <input
+            accept="image/png,image/jpeg,image/webp"
+            className="sr-only"
+            onChange={handleChange}
+            type="file"
+          />
+        </label>
+        <p className="mt-4 text-center text-muted-foreground text-sm">
+          {message}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const AvatarUpload = clientComponent(AvatarUploadImpl);
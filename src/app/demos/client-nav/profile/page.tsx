@@ -5,6 +5,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { AvatarUpload } from "@/app/demos/client-nav/profile/avatar-upload";
 
 export default function ClientNavProfilePage() {
   return (
@@ -44,22 +45,7 @@ export default function ClientNavProfilePage() {
           </CardContent>
         </Card>
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Avatar</CardTitle>
-            <CardDescription>Your profile picture</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex items-center justify-center">
-              <div className="flex h-32 w-32 items-center justify-center rounded-full bg-muted font-bold text-4xl text-muted-foreground">
-                JD
-              </div>
-            </div>
-            <p className="mt-4 text-center text-muted-foreground text-sm">
-              Click to upload a new avatar
-            </p>
-          </CardContent>
-        </Card>
+        <AvatarUpload />
       </div>
 
       <Card>
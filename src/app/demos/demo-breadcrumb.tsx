@@ -14,6 +14,7 @@ import { clientComponent } from "~/framework/shared/rsc";
 const DEMOS = [
   { path: "/demos/api", label: "API" },
   { path: "/demos/client-nav", label: "Client Navigation" },
+  { path: "/demos/errors", label: "Errors" },
   { path: "/demos/isr", label: "ISR" },
   { path: "/demos/ssr", label: "SSR" },
   { path: "/demos/static", label: "Static" },
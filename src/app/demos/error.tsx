@@ -0,0 +1,33 @@
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import type { ErrorComponentProps } from "~/framework/shared/error-boundary";
+import { clientComponent } from "~/framework/shared/rsc";
+
+/**
+ * Error boundary of the demo pages
+ * Rendered inside the demos layout, in place of the page that failed
+ */
+export default clientComponent(({ error, reset }: ErrorComponentProps) => (
+  <Card className="border-destructive">
+    <CardHeader>
+      <CardTitle>Something went wrong</CardTitle>
+      <CardDescription>{error.message}</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      {error.digest ? (
+        <p className="text-muted-foreground text-sm">
+          Error digest: <code>{error.digest}</code>
+        </p>
+      ) : null}
+      <Button onClick={reset} type="button">
+        Try again
+      </Button>
+    </CardContent>
+  </Card>
+));
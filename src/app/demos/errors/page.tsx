@@ -0,0 +1,85 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { definePage } from "~/framework/shared/page";
+import { ThrowButton } from "./throw-button";
+
+/**
+ * Failure requested with ?fail=loader or ?fail=render
+ */
+interface ErrorsDemoData {
+  fail: string | null;
+}
+
+/**
+ * Error Boundaries Demo Page
+ * Failures render src/app/demos/error.tsx inside the demos layout
+ */
+const ErrorsDemoPage = ({ data }: { data: ErrorsDemoData }) => {
+  if (data.fail === "render") {
+    throw new Error("ErrorsDemoPage failed while rendering on the server");
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="mb-4 font-bold text-4xl">Error Boundaries</h1>
+        <p className="text-lg text-muted-foreground">
+          Errors render the nearest <code>error.tsx</code> inside the layouts
+          above it, with a 500 status when they happen on the server.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Server Errors</CardTitle>
+          <CardDescription>
+            Thrown by the loader or while rendering the page
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p>
+            <a className="underline" href="/demos/errors?fail=loader">
+              Fail in the loader
+            </a>
+          </p>
+          <p>
+            <a className="underline" href="/demos/errors?fail=render">
+              Fail while rendering
+            </a>
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Client Errors</CardTitle>
+          <CardDescription>
+            Caught by the same boundary after hydration; &quot;Try again&quot;
+            renders the page again
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ThrowButton />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default definePage({
+  type: "dynamic",
+  metadata: { title: "Error Boundaries" },
+  loader: (_params, { searchParams }): ErrorsDemoData => {
+    const fail = searchParams.get("fail");
+    if (fail === "loader") {
+      throw new Error("Loader of /demos/errors failed to load its data");
+    }
+    return { fail };
+  },
+  component: ErrorsDemoPage,
+});
@@ -0,0 +1,22 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { clientComponent } from "~/framework/shared/rsc";
+
+/**
+ * Button that throws while rendering once clicked, to trigger the error boundary on the client
+ */
+export const ThrowButton = clientComponent(() => {
+  const [shouldThrow, setShouldThrow] = useState(false);
+  if (shouldThrow) {
+    throw new Error("ThrowButton failed while rendering on the client");
+  }
+  return (
+    <Button
+      onClick={() => setShouldThrow(true)}
+      type="button"
+      variant="destructive"
+    >
+      Throw on the client
+    </Button>
+  );
+});
@@ -6,8 +6,9 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { api } from "~/api";
+import { notFound } from "~/framework/shared/navigation";
 import { definePage } from "~/framework/shared/page";
-import { getAllProductIds, getProductById } from "~/lib/products";
 
 /**
  * ISR Demo - Product detail page
@@ -17,23 +18,31 @@ export default definePage({
   type: "static",
   revalidate: 3600, // Revalidate every hour
   generateParams: async () => {
-    const ids = await getAllProductIds();
-    return ids.map((id) => ({ id }));
+    // In-process API call - works at build time, with no server running
+    const products = await api.createCaller().products.list();
+    return products
+      .filter((product) => product.status === "live")
+      .map((product) => ({ id: product.id }));
   },
   loader: async (params) => {
-    if (!params?.id) {
-      throw new Error("Product ID is required");
-    }
-    const product = await getProductById(params.id);
+    const product = await api
+      .createCaller()
+      .products.byId({ params: { id: params.id } });
     if (!product) {
-      throw new Error(`Product ${params.id} not found`);
+      notFound();
     }
     return { product };
   },
+  generateMetadata: (params, data) => ({
+    title: data.product.name,
+    description: data.product.description,
+    canonical: `/demos/isr/${params.id}`,
+  }),
+  // Missing products never get here: the loader calls notFound()
   component: ({
     data,
   }: {
-    data?: {
+    data: {
       product: {
         id: string;
         name: string;
@@ -41,25 +50,9 @@ export default definePage({
         price: number;
         status: string;
       };
-    } | null;
+    };
   }) => {
-    const product = data?.product;
-
-    if (!product) {
-      return (
-        <Card>
-          <CardContent className="py-8 text-center">
-            <p className="text-muted-foreground">Product not found</p>
-            <Link
-              className="mt-4 text-primary hover:underline"
-              href="/demos/isr"
-            >
-              ← Back to Products
-            </Link>
-          </CardContent>
-        </Card>
-      );
-    }
+    const { product } = data;
 
     return (
       <div className="space-y-8">
@@ -1,4 +1,5 @@
-import { useCallback, useEffect, useState } from "react";
+import { useState } from "react";
+import { CursorPagination } from "@/components/cursor-pagination";
 import { Link } from "@/components/link";
 import {
   AlertDialog,
@@ -27,16 +28,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { apiClient } from "~/api-client";
+import { apiClient, apiHooks } from "~/api-client";
 import { clientComponent } from "~/framework/shared/rsc";
 import type { Product } from "~/lib/products";
 
+/**
+ * Products per page of the admin list
+ */
+const PAGE_SIZE = 3;
+
 /**
  * ISR Demo - Admin page to manage products and trigger ISR revalidation
  */
 const AdminProductsPage = clientComponent(() => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
   const [revalidating, setRevalidating] = useState<string | null>(null);
   const [editing, setEditing] = useState<Product | null>(null);
   const [formData, setFormData] = useState({
@@ -51,44 +55,14 @@ const AdminProductsPage = clientComponent(() => {
     description: "",
   });
 
-  const loadProducts = useCallback(async () => {
-    try {
-      setLoading(true);
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, 5000);
-
-      const response = await fetch("/api/products/list", {
-        signal: controller.signal,
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const productsData = (await response.json()) as Product[];
-      if (Array.isArray(productsData)) {
-        setProducts(productsData);
-      } else {
-        setProducts([]);
-      }
-    } catch (error) {
-      console.error("[Admin] Failed to load products:", error);
-      setProducts([]);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    loadProducts();
-  }, [loadProducts]);
+  const productsQuery = apiHooks.v2.products.list.usePages({
+    query: { limit: PAGE_SIZE },
+  });
+  const products = productsQuery.data?.items ?? [];
+  // Invalidating the list refetches it after a save, so no local copy to patch
+  const updateProduct = apiHooks.products.update.useMutation({
+    invalidates: [apiHooks.v2.products.list],
+  });
 
   const handleEdit = (product: Product) => {
     setEditing(product);
@@ -106,27 +80,17 @@ const AdminProductsPage = clientComponent(() => {
     }
 
     try {
-      const updated = (await (
-        apiClient.products.update as (input: {
-          params: { id: string };
-          name?: string;
-          description?: string;
-          price?: number;
-          status?: "draft" | "live";
-        }) => Promise<Product | null>
-      )({
+      const updated = await updateProduct.mutateAsync({
         params: { id: editing.id },
-        name: formData.name,
-        description: formData.description,
-        price: Number.parseFloat(formData.price),
-        status: formData.status,
-      })) as Product | null;
+        body: {
+          name: formData.name,
+          description: formData.description,
+          price: Number.parseFloat(formData.price),
+          status: formData.status,
+        },
+      });
 
       if (updated) {
-        const updatedProducts = products.map((p) =>
-          p.id === editing.id ? updated : p
-        );
-        setProducts(updatedProducts);
         setEditing(null);
 
         await handleRevalidate(`/demos/isr/${editing.id}`);
@@ -171,7 +135,7 @@ const AdminProductsPage = clientComponent(() => {
     }
   };
 
-  if (loading) {
+  if (productsQuery.status === "pending") {
     return (
       <div className="space-y-8">
         <p className="text-muted-foreground">Loading products...</p>
@@ -350,6 +314,8 @@ const AdminProductsPage = clientComponent(() => {
         ))}
       </div>
 
+      <CursorPagination pages={productsQuery} />
+
       <div className="flex gap-2">
         <Button
           disabled={revalidating === "/demos/isr"}
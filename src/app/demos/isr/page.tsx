@@ -16,6 +16,7 @@ import { getAllProducts, type Product } from "~/lib/products";
 export default definePage({
   type: "static",
   revalidate: 3600, // Revalidate every hour
+  metadata: { title: "Incremental Static Regeneration" },
   loader: async () => {
     const products = await getAllProducts();
     return { products };
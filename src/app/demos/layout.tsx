@@ -19,5 +19,6 @@ const DemosLayoutComponent = ({ children }: { children: React.ReactNode }) => (
 );
 
 export default defineLayout({
+  metadata: { title: { default: "Demos", template: "%s | Demos" } },
   component: DemosLayoutComponent,
 });
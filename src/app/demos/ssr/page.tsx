@@ -5,12 +5,22 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { definePage } from "~/framework/shared/page";
+
+/**
+ * Request details read by the loader
+ */
+interface RequestDetails {
+  name: string | null;
+  language: string | null;
+  cookieCount: number;
+}
 
 /**
  * SSR Demo Page
  * This page demonstrates server-side rendering - the timestamp is rendered on the server
  */
-export default function SSRDemoPage() {
+const SSRDemoPage = ({ data }: { data: RequestDetails }) => {
   const serverTimestamp = new Date().toISOString();
 
   return (
@@ -45,6 +55,29 @@ export default function SSRDemoPage() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Request-Aware Loader</CardTitle>
+          <CardDescription>
+            Dynamic pages read the request in their loader
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p>
+            <span className="font-semibold">?name=</span>{" "}
+            <code>{data.name ?? "(not set)"}</code>
+          </p>
+          <p>
+            <span className="font-semibold">Accept-Language:</span>{" "}
+            <code>{data.language ?? "(not sent)"}</code>
+          </p>
+          <p>
+            <span className="font-semibold">Cookies sent:</span>{" "}
+            <code>{data.cookieCount}</code>
+          </p>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>How SSR Works</CardTitle>
@@ -85,4 +118,14 @@ export default function SSRDemoPage() {
       </Card>
     </div>
   );
-}
+};
+
+export default definePage({
+  type: "dynamic",
+  loader: (_params, { searchParams, headers, cookies }): RequestDetails => ({
+    name: searchParams.get("name"),
+    language: headers.get("accept-language")?.split(",")[0] ?? null,
+    cookieCount: cookies.size,
+  }),
+  component: SSRDemoPage,
+});
@@ -134,6 +134,10 @@ const StaticDemoPage = ({
 
 export default definePage({
   type: "static",
+  metadata: {
+    title: "Static Generation",
+    description: "A page pre-rendered to HTML at build time",
+  },
   loader: async () => {
     // Simulate fetching data at build time
     const buildTime = await new Date().toISOString();
@@ -0,0 +1,22 @@
+import { Button } from "@/components/ui/button";
+import type { ErrorComponentProps } from "~/framework/shared/error-boundary";
+import { clientComponent } from "~/framework/shared/rsc";
+
+/**
+ * Global error page
+ * Rendered in place of the root layout when no error.tsx can render an error
+ */
+export default clientComponent(({ error, reset }: ErrorComponentProps) => (
+  <div className="container mx-auto space-y-4 p-8 text-center">
+    <h1 className="font-bold text-4xl">Something went wrong</h1>
+    <p className="text-lg text-muted-foreground">{error.message}</p>
+    {error.digest ? (
+      <p className="text-muted-foreground text-sm">
+        Error digest: <code>{error.digest}</code>
+      </p>
+    ) : null}
+    <Button onClick={reset} type="button">
+      Try again
+    </Button>
+  </div>
+));
@@ -1,9 +1,13 @@
-import { type Metadata, RootShell } from "~/framework/shared/root-shell";
+import type { RouteErrorData } from "~/framework/shared/error-boundary";
+import type { Metadata } from "~/framework/shared/metadata";
+import { RootShell } from "~/framework/shared/root-shell";
 import "../index.css";
 
 export const metadata: Metadata = {
-  title: "Bun + React",
+  title: { default: "Bun + React", template: "%s | Bun + React" },
   description: "A full-stack application built with Bun and React",
+  openGraph: { siteName: "Bun + React" },
+  twitter: { card: "summary" },
 };
 
 interface LayoutProps {
@@ -13,6 +17,10 @@ interface LayoutProps {
   hasClientComponents?: boolean;
   /** Page data from loader (for hydration) */
   pageData?: unknown;
+  /** Metadata resolved from this layout, nested layouts and the page */
+  metadata?: Metadata;
+  /** Server error rendered by an error boundary (for hydration) */
+  routeError?: RouteErrorData;
 }
 
 export default function RootLayout({
@@ -20,13 +28,16 @@ export default function RootLayout({
   routePath,
   hasClientComponents = true,
   pageData,
+  metadata: routeMetadata,
+  routeError,
 }: LayoutProps) {
   const shellProps = {
-    metadata,
+    metadata: routeMetadata ?? metadata,
     hasClientComponents,
     children,
     ...(routePath !== undefined && { routePath }),
     ...(pageData !== undefined && { pageData }),
+    ...(routeError !== undefined && { routeError }),
   };
 
   return <RootShell {...shellProps} />;
@@ -252,6 +252,13 @@ const demoFeatures = [
     href: "/demos/client-nav",
     icon: "🚀",
   },
+  {
+    title: "Error Boundaries",
+    description:
+      "Per-segment error.tsx boundaries on server and client, with a global fallback and reset.",
+    href: "/demos/errors",
+    icon: "🛟",
+  },
   {
     title: "Typesafe API Routes",
     description:
@@ -0,0 +1,72 @@
+import type { MouseEvent } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { cn } from "@/lib/utils";
+import type { PagesResult } from "~/framework/client/query";
+import { clientComponent } from "~/framework/shared/rsc";
+
+interface CursorPaginationProps {
+  /** Result of a paginated route's `usePages()` */
+  pages: Pick<
+    PagesResult<unknown>,
+    "pageIndex" | "hasPrevious" | "hasNext" | "previous" | "next"
+  >;
+  className?: string;
+}
+
+/**
+ * Class of a control that can't be used right now
+ */
+const disabledClass = (disabled: boolean): string | undefined =>
+  disabled ? "pointer-events-none opacity-50" : undefined;
+
+/**
+ * Previous / next controls for a cursor-paginated list
+ * Cursors only move one page at a time, so the current page number sits between them
+ * Usage:
+ *   const users = apiHooks.users.list.usePages({ query: { limit: 10 } });
+ *   <CursorPagination pages={users} />
+ */
+export const CursorPagination = clientComponent(
+  ({ pages, className }: CursorPaginationProps) => {
+    const handle =
+      (move: () => void) => (event: MouseEvent<HTMLAnchorElement>) => {
+        event.preventDefault();
+        move();
+      };
+
+    return (
+      <Pagination className={className}>
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              aria-disabled={!pages.hasPrevious}
+              className={cn(disabledClass(!pages.hasPrevious))}
+              href="#"
+              onClick={handle(pages.previous)}
+            />
+          </PaginationItem>
+          <PaginationItem>
+            <PaginationLink href="#" isActive onClick={handle(() => null)}>
+              {pages.pageIndex + 1}
+            </PaginationLink>
+          </PaginationItem>
+          <PaginationItem>
+            <PaginationNext
+              aria-disabled={!pages.hasNext}
+              className={cn(disabledClass(!pages.hasNext))}
+              href="#"
+              onClick={handle(pages.next)}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    );
+  }
+);
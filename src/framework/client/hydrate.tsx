@@ -7,9 +7,15 @@
  * - Client components: Full hydration with React
  */
 
-import { type RouteConfig, routes } from "virtual:routes";
+import { globalError, type RouteConfig, routes } from "virtual:routes";
 import { type ReactNode, StrictMode } from "react";
 import { hydrateRoot } from "react-dom/client";
+import {
+  buildSegmentTree,
+  ErrorBoundary,
+  type RouteErrorData,
+  withRouteError,
+} from "~/framework/shared/error-boundary";
 import {
   ClientNavigationProvider,
   RouteParamsProvider,
@@ -156,21 +162,24 @@ const matchClientRoute = (
 };
 
 /**
- * Get route data embedded in the page
+ * Route data embedded in the page
  */
-const getRouteData = (): {
+interface EmbeddedRouteData {
   routePath: string;
   hasClientComponents: boolean;
   pageData?: unknown;
-} => {
+  /** Server error rendered by an error boundary */
+  routeError?: RouteErrorData;
+}
+
+/**
+ * Get route data embedded in the page
+ */
+const getRouteData = (): EmbeddedRouteData => {
   const script = document.getElementById("__ROUTE_DATA__");
   if (script?.textContent) {
     try {
-      return JSON.parse(script.textContent) as {
-        routePath: string;
-        hasClientComponents: boolean;
-        pageData?: unknown;
-      };
+      return JSON.parse(script.textContent) as EmbeddedRouteData;
     } catch {
       // Ignore parse errors
     }
@@ -211,7 +220,8 @@ const hydrate = () => {
     return;
   }
 
-  const { routePath, hasClientComponents, pageData } = getRouteData();
+  const routeData = getRouteData();
+  const { routePath, hasClientComponents } = routeData;
   const matchResult = matchClientRoute(routePath, routes);
 
   if (!matchResult) {
@@ -221,7 +231,7 @@ const hydrate = () => {
     const homeRoute = routes["/"];
     if (homeRoute) {
       logWarn("Falling back to home page");
-      hydrateRoute(homeRoute, {}, root, pageData);
+      hydrateRoute(homeRoute, {}, root, routeData);
       return;
     }
     return;
@@ -237,7 +247,48 @@ const hydrate = () => {
     return;
   }
 
-  hydrateRoute(matchResult.route, matchResult.params, root, pageData);
+  hydrateRoute(matchResult.route, matchResult.params, root, routeData);
+};
+
+/**
+ * Lazy layouts of a route, outermost first
+ */
+type RouteLayouts = NonNullable<RouteConfig["parentLayouts"]>;
+
+/**
+ * Wrap children in the layout at `index` (see buildSegmentTree)
+ */
+const layoutWrapper =
+  (layouts: RouteLayouts) =>
+  (children: ReactNode, index: number): ReactNode => {
+    const Layout = layouts[index];
+    return Layout ? <Layout>{children}</Layout> : children;
+  };
+
+/**
+ * Content of a page rendered by an error boundary on the server: the boundary,
+ * starting with the server error, inside the layouts above it
+ */
+const errorContent = (
+  route: RouteConfig,
+  layouts: RouteLayouts,
+  routeError: RouteErrorData
+): ReactNode => {
+  if (routeError.boundary === "global") {
+    return globalError ? (
+      <ErrorBoundary fallback={globalError} initialError={routeError} />
+    ) : null;
+  }
+  const errorBoundaries = withRouteError(
+    route.errorBoundaries ?? [],
+    routeError
+  );
+  return buildSegmentTree(
+    null,
+    errorBoundaries.at(-1)?.layoutDepth ?? 0,
+    layoutWrapper(layouts),
+    errorBoundaries
+  );
 };
 
 /**
@@ -256,7 +307,7 @@ const hydrateRoute = (
   route: RouteConfig,
   params: Record<string, string>,
   root: HTMLElement,
-  pageData?: unknown
+  { pageData, routeError }: EmbeddedRouteData
 ) => {
   const PageComponent = route.component;
   const LayoutComponent = route.layout;
@@ -266,7 +317,7 @@ const hydrateRoute = (
     log("[RSC] Server component page - hydrating for client boundaries");
   }
 
-  // Build component tree with layouts
+  // Build component tree with layouts and error boundaries
   // Apply layouts from outermost to innermost (parentLayouts -> layout -> page)
   // Note: Root layout (app/layout.tsx) is excluded from routes by the plugin
   // since it wraps RootShell which renders <html> - already in the DOM
@@ -278,22 +329,27 @@ const hydrateRoute = (
   if (pageData !== undefined) {
     pageProps["data"] = pageData;
   }
-  let pageContent: ReactNode = <PageComponent {...pageProps} />;
-
-  // Apply direct layout if present
   // Include ALL layouts (server and client) so the DOM structure matches SSR
   // Server layouts are just wrapper components - they can run on client
-  if (LayoutComponent) {
-    pageContent = <LayoutComponent>{pageContent}</LayoutComponent>;
-  }
-
-  // Apply parent layouts (outermost first) - include all layouts
-  for (let i = ParentLayouts.length - 1; i >= 0; i--) {
-    const ParentLayout = ParentLayouts[i];
-
-    if (ParentLayout) {
-      pageContent = <ParentLayout>{pageContent}</ParentLayout>;
-    }
+  const layouts = [
+    ...ParentLayouts,
+    ...(LayoutComponent ? [LayoutComponent] : []),
+  ];
+  let pageContent: ReactNode = routeError
+    ? errorContent(route, layouts, routeError)
+    : buildSegmentTree(
+        <PageComponent {...pageProps} />,
+        layouts.length,
+        layoutWrapper(layouts),
+        route.errorBoundaries ?? []
+      );
+
+  // global-error.tsx catches what the error boundaries of the route don't
+  // (it renders no markup of its own, so the tree still matches SSR)
+  if (globalError) {
+    pageContent = (
+      <ErrorBoundary fallback={globalError}>{pageContent}</ErrorBoundary>
+    );
   }
 
   // Check if route is client-navigable
@@ -319,6 +375,9 @@ const hydrateRoute = (
             initialPath={currentPath}
             layoutComponent={LayoutComponent || null}
             {...(ParentLayouts.length > 0 && { parentLayouts: ParentLayouts })}
+            {...(route.errorBoundaries !== undefined && {
+              errorBoundaries: route.errorBoundaries,
+            })}
           >
             {pageContent}
           </ClientNavigationProvider>
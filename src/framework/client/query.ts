@@ -0,0 +1,589 @@
+/**
+ * React data hooks for the typed API client
+ * Queries are cached by route key + input, deduplicated while in flight and
+ * served stale-while-revalidate; mutations invalidate related queries.
+ * Unused queries are dropped from the cache after `gcTime`
+ *
+ * Usage:
+ *   const products = apiHooks.products.list.useQuery();
+ *   const update = apiHooks.products.update.useMutation({ invalidates: [apiHooks.products.list] });
+ *   const users = apiHooks.users.list.usePages({ query: { limit: 10 } }); // paginated routes
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { ZodType } from "zod";
+import type {
+  AnyRoute,
+  RouteClientFn,
+  RouterShape,
+} from "~/framework/shared/api";
+import type { AnyChannel } from "~/framework/shared/channel";
+import {
+  type Page,
+  type RoutePagination,
+  withPageCursor,
+} from "~/framework/shared/pagination";
+
+/**
+ * Query lifecycle status
+ */
+export type QueryStatus = "pending" | "success" | "error";
+
+/**
+ * Snapshot of a cached query
+ */
+export interface QueryState<TData> {
+  status: QueryStatus;
+  data: TData | undefined;
+  error: unknown;
+  /** A request is in flight (initial load or background revalidation) */
+  isFetching: boolean;
+  /** When data was last fetched successfully (ms since epoch, 0 if never) */
+  updatedAt: number;
+}
+
+/**
+ * Result of useQuery
+ */
+export interface QueryResult<TData> extends QueryState<TData> {
+  /** Fetch again, bypassing staleness */
+  refetch: () => Promise<TData>;
+}
+
+/**
+ * useQuery options
+ */
+export interface QueryOptions {
+  /** How long data counts as fresh before a mount revalidates it (default: 0) */
+  staleTime?: number;
+  /** Skip fetching until true (default: true) */
+  enabled?: boolean;
+  /** How long a query without subscribers stays cached (default: 5 minutes) */
+  gcTime?: number;
+}
+
+/**
+ * Result of usePages: the current page's query plus previous/next navigation
+ */
+export interface PagesResult<TData> extends QueryResult<TData> {
+  /** Index of the current page (0 for the first) */
+  pageIndex: number;
+  hasPrevious: boolean;
+  hasNext: boolean;
+  previous: () => void;
+  next: () => void;
+}
+
+/**
+ * Mutation lifecycle status
+ */
+export type MutationStatus = "idle" | "pending" | "success" | "error";
+
+/**
+ * useMutation options
+ */
+export interface MutationOptions<TData> {
+  /** Queries (routes or router subtrees) to invalidate after success */
+  invalidates?: QueryTarget[];
+  onSuccess?: (data: TData) => void;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Result of useMutation
+ */
+export interface MutationResult<TInput, TData> {
+  status: MutationStatus;
+  data: TData | undefined;
+  error: unknown;
+  /** Run the mutation; errors are reported through `error` and `onError` */
+  mutate: (input: TInput) => void;
+  /** Run the mutation and await its result (rejects on error) */
+  mutateAsync: (input: TInput) => Promise<TData>;
+  reset: () => void;
+}
+
+/**
+ * Anything queries can be invalidated by: a route, a router subtree or its key
+ */
+export interface QueryTarget {
+  /** Dotted router key, e.g. "products.list" or "products" */
+  queryKey: string;
+}
+
+/**
+ * Input accepted by a client call (undefined for routes without input)
+ */
+type CallInput<TFn> = TFn extends (...args: infer TArgs) => unknown
+  ? TArgs extends []
+    ? undefined
+    : TArgs[0]
+  : never;
+
+/**
+ * Resolved result of a client call
+ */
+type CallData<TFn> = TFn extends (...args: never[]) => Promise<infer TData>
+  ? TData
+  : never;
+
+/**
+ * Hooks for a GET route
+ */
+export interface QueryHooks<TFn> extends QueryTarget {
+  useQuery: undefined extends CallInput<TFn>
+    ? (
+        input?: CallInput<TFn>,
+        options?: QueryOptions
+      ) => QueryResult<CallData<TFn>>
+    : (
+        input: CallInput<TFn>,
+        options?: QueryOptions
+      ) => QueryResult<CallData<TFn>>;
+}
+
+/**
+ * Hooks for a cursor-paginated GET route (see paginatedRoute)
+ */
+export interface PaginatedQueryHooks<TFn> extends QueryHooks<TFn> {
+  usePages: undefined extends CallInput<TFn>
+    ? (
+        input?: CallInput<TFn>,
+        options?: QueryOptions
+      ) => PagesResult<CallData<TFn>>
+    : (
+        input: CallInput<TFn>,
+        options?: QueryOptions
+      ) => PagesResult<CallData<TFn>>;
+}
+
+/**
+ * Hooks for a mutating route (POST, PUT, PATCH, DELETE)
+ */
+export interface MutationHooks<TFn> extends QueryTarget {
+  useMutation: (
+    options?: MutationOptions<CallData<TFn>>
+  ) => MutationResult<CallInput<TFn>, CallData<TFn>>;
+}
+
+/**
+ * Hooks for a single route (streaming routes have none)
+ */
+type RouteHooks<R extends AnyRoute> = R["_event"] extends ZodType
+  ? never
+  : R["_method"] extends "GET"
+    ? R extends { pagination: RoutePagination }
+      ? PaginatedQueryHooks<RouteClientFn<R>>
+      : QueryHooks<RouteClientFn<R>>
+    : MutationHooks<RouteClientFn<R>>;
+
+/**
+ * Recursively transform router to hooks type
+ */
+export type RouterHooks<T extends RouterShape> = QueryTarget & {
+  [K in keyof T]: T[K] extends AnyRoute
+    ? RouteHooks<T[K]>
+    : T[K] extends AnyChannel
+      ? never
+      : T[K] extends RouterShape
+        ? RouterHooks<T[K]>
+        : never;
+};
+
+/**
+ * Untyped client call, as walked at runtime
+ */
+type CallFn = (input?: unknown) => Promise<unknown>;
+
+/**
+ * Cached query
+ */
+interface QueryEntry {
+  /** Key in the query cache */
+  cacheKey: string;
+  routeKey: string;
+  state: QueryState<unknown>;
+  /** Bumped by every invalidation */
+  generation: number;
+  /** Generation the current data was fetched in (stale when behind `generation`) */
+  dataGeneration: number;
+  promise: Promise<unknown> | null;
+  fetcher: () => Promise<unknown>;
+  listeners: Set<() => void>;
+  /** Pending removal while nothing subscribes */
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Query cache shared by all hooks (keyed by route key + input)
+ */
+const queryCache = new Map<string, QueryEntry>();
+
+/**
+ * Default time an unused query stays cached (ms)
+ */
+const DEFAULT_GC_TIME = 5 * 60_000;
+
+/**
+ * Initial state of a query that was never fetched
+ */
+const INITIAL_STATE: QueryState<unknown> = {
+  status: "pending",
+  data: undefined,
+  error: undefined,
+  isFetching: false,
+  updatedAt: 0,
+};
+
+/**
+ * Background fetches report failures through query state, not the promise
+ */
+const ignoreRejection = (): null => null;
+
+/**
+ * JSON with sorted object keys, so equal inputs produce equal cache keys
+ */
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, entry: unknown) =>
+    entry !== null && typeof entry === "object" && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.entries(entry).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : entry
+  ) ?? "";
+
+/**
+ * Remove an entry from the cache after `gcTime`, unless it gets a subscriber first
+ */
+const scheduleGc = (entry: QueryEntry, gcTime: number): void => {
+  if (entry.gcTimer) {
+    clearTimeout(entry.gcTimer);
+  }
+  entry.gcTimer = setTimeout(() => {
+    entry.gcTimer = null;
+    if (
+      entry.listeners.size === 0 &&
+      queryCache.get(entry.cacheKey) === entry
+    ) {
+      queryCache.delete(entry.cacheKey);
+    }
+  }, gcTime);
+};
+
+/**
+ * Get or create the cache entry for a route call
+ * New entries are collected unless a component subscribes to them
+ */
+const getEntry = (
+  routeKey: string,
+  input: unknown,
+  fetcher: () => Promise<unknown>,
+  gcTime: number
+): QueryEntry => {
+  const cacheKey = `${routeKey}(${stableStringify(input)})`;
+  let entry = queryCache.get(cacheKey);
+  if (!entry) {
+    entry = {
+      cacheKey,
+      routeKey,
+      state: INITIAL_STATE,
+      generation: 0,
+      dataGeneration: 0,
+      promise: null,
+      fetcher,
+      listeners: new Set(),
+      gcTimer: null,
+    };
+    queryCache.set(cacheKey, entry);
+    scheduleGc(entry, gcTime);
+  }
+  return entry;
+};
+
+/**
+ * Replace an entry's state and notify subscribers
+ */
+const setEntryState = (
+  entry: QueryEntry,
+  patch: Partial<QueryState<unknown>>
+): void => {
+  entry.state = { ...entry.state, ...patch };
+  for (const listener of entry.listeners) {
+    listener();
+  }
+};
+
+/**
+ * Fetch an entry, reusing the in-flight request if there is one
+ * A request invalidated while in flight may have been answered before the write,
+ * so its result is dropped and the entry fetched again
+ */
+const fetchEntry = (entry: QueryEntry): Promise<unknown> => {
+  if (entry.promise) {
+    return entry.promise;
+  }
+  const { generation } = entry;
+  setEntryState(entry, { isFetching: true });
+  const promise = entry.fetcher().then(
+    (data) => {
+      entry.promise = null;
+      if (entry.generation !== generation) {
+        return fetchEntry(entry);
+      }
+      entry.dataGeneration = generation;
+      setEntryState(entry, {
+        status: "success",
+        data,
+        error: undefined,
+        isFetching: false,
+        updatedAt: Date.now(),
+      });
+      return data;
+    },
+    (error: unknown) => {
+      entry.promise = null;
+      // Keep previous data so a failed revalidation doesn't blank the UI
+      setEntryState(entry, { status: "error", error, isFetching: false });
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  return promise;
+};
+
+/**
+ * Mark matching queries stale and refetch the ones currently in use
+ * A target matches its own key and every key below it ("products" → "products.list")
+ */
+export const invalidateQueries = async (
+  target: QueryTarget | string
+): Promise<void> => {
+  const key = typeof target === "string" ? target : target.queryKey;
+  const refetches: Promise<unknown>[] = [];
+  for (const entry of queryCache.values()) {
+    if (entry.routeKey !== key && !entry.routeKey.startsWith(`${key}.`)) {
+      continue;
+    }
+    entry.generation += 1;
+    if (entry.listeners.size > 0) {
+      refetches.push(fetchEntry(entry).catch(ignoreRejection));
+    }
+  }
+  await Promise.all(refetches);
+};
+
+/**
+ * Subscribe a component to a route query
+ */
+const useRouteQuery = (
+  routeKey: string,
+  call: CallFn,
+  input: unknown,
+  options: QueryOptions = {}
+): QueryResult<unknown> => {
+  const { staleTime = 0, enabled = true, gcTime = DEFAULT_GC_TIME } = options;
+  const entry = getEntry(routeKey, input, () => call(input), gcTime);
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      if (entry.gcTimer) {
+        clearTimeout(entry.gcTimer);
+        entry.gcTimer = null;
+      }
+      entry.listeners.add(listener);
+      return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0) {
+          scheduleGc(entry, gcTime);
+        }
+      };
+    },
+    [entry, gcTime]
+  );
+  const state = useSyncExternalStore(
+    subscribe,
+    () => entry.state,
+    () => entry.state
+  );
+
+  // Stale-while-revalidate: cached data renders immediately, a stale entry refetches
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const isStale = Date.now() - entry.state.updatedAt > staleTime;
+    const isInvalidated = entry.dataGeneration !== entry.generation;
+    if (entry.state.status !== "success" || isInvalidated || isStale) {
+      fetchEntry(entry).catch(ignoreRejection);
+    }
+  }, [entry, enabled, staleTime]);
+
+  const refetch = useCallback(() => fetchEntry(entry), [entry]);
+
+  return { ...state, refetch };
+};
+
+/**
+ * Cursors visited for one input (undefined = first page)
+ */
+interface PageHistory {
+  inputKey: string;
+  cursors: (string | undefined)[];
+}
+
+/**
+ * Subscribe a component to one page of a paginated route at a time
+ * Visited cursors are kept so `previous()` goes back; a new input starts over
+ */
+const useRoutePages = (
+  routeKey: string,
+  call: CallFn,
+  input: unknown,
+  options?: QueryOptions
+): PagesResult<unknown> => {
+  const inputKey = stableStringify(input);
+  const [history, setHistory] = useState<PageHistory>({
+    inputKey,
+    cursors: [undefined],
+  });
+  const cursors = history.inputKey === inputKey ? history.cursors : [undefined];
+  const query = useRouteQuery(
+    routeKey,
+    call,
+    withPageCursor(input, cursors.at(-1)),
+    options
+  );
+  const nextCursor =
+    (query.data as Page<unknown> | undefined)?.nextCursor ?? null;
+
+  const next = useCallback(() => {
+    if (nextCursor !== null) {
+      setHistory({ inputKey, cursors: [...cursors, nextCursor] });
+    }
+  }, [inputKey, cursors, nextCursor]);
+
+  const previous = useCallback(() => {
+    if (cursors.length > 1) {
+      setHistory({ inputKey, cursors: cursors.slice(0, -1) });
+    }
+  }, [inputKey, cursors]);
+
+  return {
+    ...query,
+    pageIndex: cursors.length - 1,
+    hasPrevious: cursors.length > 1,
+    hasNext: nextCursor !== null,
+    previous,
+    next,
+  };
+};
+
+/**
+ * Initial state of a mutation
+ */
+const IDLE_MUTATION = {
+  status: "idle" as MutationStatus,
+  data: undefined as unknown,
+  error: undefined as unknown,
+};
+
+/**
+ * Run a route call as a mutation
+ */
+const useRouteMutation = (
+  call: CallFn,
+  options: MutationOptions<unknown> = {}
+): MutationResult<unknown, unknown> => {
+  const [state, setState] = useState(IDLE_MUTATION);
+  // Latest options without re-creating mutate on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const mutateAsync = useCallback(
+    async (input: unknown) => {
+      setState({ status: "pending", data: undefined, error: undefined });
+      try {
+        const data = await call(input);
+        await Promise.all(
+          (optionsRef.current.invalidates ?? []).map(invalidateQueries)
+        );
+        setState({ status: "success", data, error: undefined });
+        optionsRef.current.onSuccess?.(data);
+        return data;
+      } catch (error) {
+        setState({ status: "error", data: undefined, error });
+        optionsRef.current.onError?.(error);
+        throw error;
+      }
+    },
+    [call]
+  );
+
+  const mutate = useCallback(
+    (input: unknown) => {
+      mutateAsync(input).catch(ignoreRejection);
+    },
+    [mutateAsync]
+  );
+
+  const reset = useCallback(() => setState(IDLE_MUTATION), []);
+
+  return { ...state, mutate, mutateAsync, reset };
+};
+
+/**
+ * Check if value is a route
+ */
+const isRoute = (value: unknown): value is AnyRoute =>
+  value !== null &&
+  typeof value === "object" &&
+  "_brand" in value &&
+  value._brand === "Route";
+
+/**
+ * Build hooks for one route from its client call
+ */
+const createRouteHooks = (queryKey: string, call: CallFn) => ({
+  queryKey,
+  useQuery: (input?: unknown, options?: QueryOptions) =>
+    useRouteQuery(queryKey, call, input, options),
+  usePages: (input?: unknown, options?: QueryOptions) =>
+    useRoutePages(queryKey, call, input, options),
+  useMutation: (options?: MutationOptions<unknown>) =>
+    useRouteMutation(call, options),
+});
+
+/**
+ * Create hooks mirroring a router and its client
+ * Usage: export const apiHooks = createApiHooks(api.routes, apiClient)
+ */
+export const createApiHooks = <T extends RouterShape>(
+  routes: T,
+  client: unknown,
+  prefix = ""
+): RouterHooks<T> => {
+  const hooks: Record<string, unknown> = { queryKey: prefix };
+  const calls = (client ?? {}) as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(routes)) {
+    const queryKey = prefix ? `${prefix}.${key}` : key;
+    if (isRoute(value)) {
+      hooks[key] = createRouteHooks(queryKey, calls[key] as CallFn);
+    } else if (
+      value !== null &&
+      typeof value === "object" &&
+      value._brand !== "Channel"
+    ) {
+      // Method-grouped routes and nested routers recurse the same way
+      hooks[key] = createApiHooks(value as RouterShape, calls[key], queryKey);
+    }
+  }
+
+  return hooks as RouterHooks<T>;
+};
@@ -30,6 +30,10 @@ interface RouteParamsContext {
 
 const RouteParamsContext = createContext<RouteParamsContext | null>(null);
 
+import {
+  buildSegmentTree,
+  type SegmentErrorBoundary,
+} from "~/framework/shared/error-boundary";
 // Import SSR route path hook from shared module
 import { useSSRRoutePath } from "~/framework/shared/route-context";
 
@@ -249,6 +253,8 @@ interface ClientNavigationProviderProps {
   parentLayouts?:
     | LazyExoticComponent<ReactComponentType<{ children: ReactNode }>>[]
     | undefined;
+  /** Error boundaries placed between the layouts (see buildSegmentTree) */
+  errorBoundaries?: SegmentErrorBoundary[] | undefined;
 }
 
 export const ClientNavigationProvider = ({
@@ -258,6 +264,7 @@ export const ClientNavigationProvider = ({
   initialPageComponent: _initialPageComponent,
   layoutComponent,
   parentLayouts = [],
+  errorBoundaries = [],
 }: ClientNavigationProviderProps) => {
   const [currentPath, setCurrentPath] = useState(initialPath);
   const [currentParams, setCurrentParams] = useState(initialParams);
@@ -325,34 +332,32 @@ export const ClientNavigationProvider = ({
 
   // If navigating client-side, render the new page component
   if (isNavigating && navigatedPage) {
-    let newPageContent: ReactNode = (
+    // Apply layouts for the new page (parent layouts outermost first)
+    const layouts = [
+      ...parentLayouts,
+      ...(layoutComponent ? [layoutComponent] : []),
+    ];
+    const newPageContent = buildSegmentTree(
       <Suspense fallback={<div>Loading...</div>}>
         {React.createElement(navigatedPage, { params: currentParams })}
-      </Suspense>
-    );
-
-    // Apply layouts for the new page
-    if (layoutComponent) {
-      const Layout = layoutComponent;
-      newPageContent = (
-        <Suspense fallback={<div>Loading...</div>}>
-          <Layout>{newPageContent}</Layout>
-        </Suspense>
-      );
-    }
-
-    // Apply parent layouts (outermost first)
-    for (let i = parentLayouts.length - 1; i >= 0; i--) {
-      const ParentLayout = parentLayouts[i];
-      if (ParentLayout) {
-        const Layout = ParentLayout;
-        newPageContent = (
+      </Suspense>,
+      layouts.length,
+      (content, i) => {
+        const Layout = layouts[i];
+        return Layout ? (
           <Suspense fallback={<div>Loading...</div>}>
-            <Layout>{newPageContent}</Layout>
+            <Layout>{content}</Layout>
           </Suspense>
+        ) : (
+          content
         );
-      }
-    }
+      },
+      // Leaving a page clears the errors it rendered
+      errorBoundaries.map((boundary) => ({
+        ...boundary,
+        resetKey: currentPath,
+      }))
+    );
 
     // When navigating, wrap with RouteParamsProvider for the new route
     pageContent = (
@@ -22,6 +22,10 @@ export interface CacheEntry {
   generatedAt: number;
   /** Revalidation interval in seconds */
   revalidate: number;
+  /** Response status: 404 when the page called notFound(), 3xx for redirect() (default: 200) */
+  status?: number;
+  /** Redirect target */
+  location?: string;
 }
 
 /**
@@ -2,6 +2,33 @@ import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import type { RouteTree } from "@/framework/shared/router";
 
+/**
+ * Imports and registry entries of error boundary modules (error.tsx and global-error.tsx)
+ */
+const collectErrorModules = (
+  routeTree: RouteTree
+): { errorImports: string[]; errorEntries: string[] } => {
+  const errorPaths = new Set<string>();
+  for (const [, routeInfo] of routeTree.routes.entries()) {
+    for (const boundary of routeInfo.errorBoundaries) {
+      errorPaths.add(boundary.path);
+    }
+  }
+  if (routeTree.globalErrorPath) {
+    errorPaths.add(routeTree.globalErrorPath);
+  }
+
+  const errorImports: string[] = [];
+  const errorEntries: string[] = [];
+  for (const [index, errorPath] of Array.from(errorPaths).entries()) {
+    const varName = `Error_${index}`;
+    const importPath = errorPath.replace("~/", "../../");
+    errorImports.push(`import * as ${varName} from "${importPath}";`);
+    errorEntries.push(`  ["${errorPath}", ${varName}]`);
+  }
+  return { errorImports, errorEntries };
+};
+
 /**
  * Generate route-modules.generated.ts with static imports
  * This allows Bun --hot to properly track route modules
@@ -55,6 +82,8 @@ export const generateRouteModulesFile = (routeTree: RouteTree): void => {
     }
   }
 
+  const { errorImports, errorEntries } = collectErrorModules(routeTree);
+
   const code = `// AUTO-GENERATED - DO NOT EDIT
 // Regenerated when routes change to enable Bun --hot tracking
 
@@ -62,6 +91,8 @@ ${moduleImports.join("\n")}
 
 ${layoutImports.join("\n")}
 
+${errorImports.join("\n")}
+
 export const routeModules = new Map<string, { default: unknown }>([
 ${moduleEntries.join(",\n")}
 ]);
@@ -69,6 +100,10 @@ ${moduleEntries.join(",\n")}
 export const layoutModules = new Map<string, { default: unknown }>([
 ${layoutEntries.join(",\n")}
 ]);
+
+export const errorModules = new Map<string, { default: unknown }>([
+${errorEntries.join(",\n")}
+]);
 `;
 
   const outputPath = join(
@@ -8,18 +8,25 @@ import {
   setChunkManifest,
 } from "~/framework/shared/chunk-manifest";
 import { generateRouteTypes } from "~/framework/shared/generate-route-types";
+import type { ChannelSocketData } from "~/framework/shared/channel";
+import { setTrustedProxies } from "~/framework/shared/client-address";
 import { applyMiddleware } from "~/framework/shared/middleware";
-import { getPageConfig, hasPageConfig } from "~/framework/shared/page";
 import { clearRouteDataCache } from "~/framework/shared/root-shell";
+import { setDefaultRateLimitStore } from "~/framework/shared/rate-limit";
 import { matchRoute, type RouteInfo } from "~/framework/shared/router";
 import middlewareConfig from "~/middleware";
 import { formatCacheAge, getFromCache, isStale, setCache } from "./cache";
 import { generateRouteModulesFile } from "./generate-route-modules";
 import { discoverPublicAssets } from "./public";
-import { clearModuleCache, renderRoute, renderRouteToString } from "./render";
+import { createSqliteStore } from "./rate-limit-store";
+import {
+  clearModuleCache,
+  renderNotFound,
+  renderStaticPage,
+  type StaticPageResult,
+} from "./render";
 import { queueRevalidation } from "./revalidate";
 import {
-  getNotFoundRouteInfo,
   getRouteTree,
   initializeRouteTree,
   matchAndExecuteRouteHandler,
@@ -170,6 +177,19 @@ if (publicAssetPaths.length > 0) {
   log(`📦 Discovered ${publicAssetPaths.length} public assets`);
 }
 
+/**
+ * Persist API rate limit counters, so limits survive restarts and rebuilds
+ * (RATE_LIMIT_DB=path/to/file.sqlite, default: data/rate-limits.sqlite)
+ */
+setDefaultRateLimitStore(
+  createSqliteStore(process.env["RATE_LIMIT_DB"] || undefined)
+);
+
+/**
+ * Read client addresses from X-Forwarded-For only behind trusted proxies (TRUSTED_PROXIES=1)
+ */
+setTrustedProxies(Number(process.env["TRUSTED_PROXIES"] ?? 0));
+
 /**
  * Get typed API handlers
  */
@@ -226,7 +246,7 @@ const renderAndCache = async (
   pathname: string,
   routeInfo: RouteInfo,
   params: Record<string, string>
-): Promise<string> => {
+): Promise<StaticPageResult> => {
   log(`[ISR] 🎨 RENDERING PAGE: ${pathname} | Params:`, params);
 
   // Get pre-loaded route modules
@@ -240,36 +260,42 @@ const renderAndCache = async (
     throw new Error(`No default export found in ${routeInfo.filePath}`);
   }
 
-  let pageData: unknown;
-  if (hasPageConfig(PageComponent)) {
-    const config = getPageConfig(PageComponent);
-    if (config.loader) {
-      log(`[ISR] 📥 Loading data for: ${pathname}`);
-      pageData = await config.loader(params);
-      log(`[ISR] ✅ Data loaded for: ${pathname}`);
-    }
-  }
-
-  // Render the page (renderRouteToString uses the module registry)
+  // Run the loader and render the page (renderStaticPage uses the module registry)
   log(`[ISR] 🖼️  Rendering HTML for: ${pathname}`);
-  const html = await renderRouteToString(routeInfo, pageData, params);
+  const result = await renderStaticPage(routeInfo, params, pathname);
   log(
-    `[ISR] ✅ HTML rendered for: ${pathname} (${Math.round(html.length / 1024)}KB)`
+    `[ISR] ✅ HTML rendered for: ${pathname} | Status: ${result.status} (${Math.round(result.html.length / 1024)}KB)`
   );
 
-  // Cache the result
+  // Cache the result (the not-found page and redirects too, with the same revalidate interval)
   if (routeInfo.revalidate) {
     await setCache(pathname, {
-      html,
+      ...result,
       generatedAt: Date.now(),
       revalidate: routeInfo.revalidate,
     });
     log(`[ISR] 💾 Cached: ${pathname} | Revalidate: ${routeInfo.revalidate}s`);
   }
 
-  return html;
+  return result;
 };
 
+/**
+ * Response for an ISR page: its HTML, the not-found page (404) or a redirect
+ */
+const isrPageResponse = (
+  page: { html: string; status?: number; location?: string },
+  cacheStatus: "HIT" | "STALE" | "MISS"
+): Response =>
+  new Response(page.location ? null : page.html, {
+    status: page.status ?? 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "X-Cache": cacheStatus,
+      ...(page.location && { Location: page.location }),
+    },
+  });
+
 /**
  * Get cache headers for static assets
  * Chunks have hashes, so they can be cached forever
@@ -388,12 +414,7 @@ const tryServeWithISR = async (pathname: string): Promise<Response | null> => {
       log(
         `[ISR] ✅ CACHE HIT - Serving static (no rendering): ${pathname} | Age: ${cacheAge}`
       );
-      return new Response(cached.html, {
-        headers: {
-          "Content-Type": "text/html; charset=utf-8",
-          "X-Cache": "HIT",
-        },
-      });
+      return isrPageResponse(cached, "HIT");
     }
 
     // Stale - serve cached but queue background revalidation
@@ -402,12 +423,7 @@ const tryServeWithISR = async (pathname: string): Promise<Response | null> => {
       `[ISR] ⚠️  CACHE STALE - Serving static (no rendering), queuing background revalidation: ${pathname} | Age: ${cacheAge}`
     );
     queueRevalidation(pathname);
-    return new Response(cached.html, {
-      headers: {
-        "Content-Type": "text/html; charset=utf-8",
-        "X-Cache": "STALE",
-      },
-    });
+    return isrPageResponse(cached, "STALE");
   }
 
   // Cache miss - check if ISR-enabled route
@@ -422,18 +438,13 @@ const tryServeWithISR = async (pathname: string): Promise<Response | null> => {
     log(
       `[ISR] 🔄 CACHE MISS - Rendering and caching: ${pathname} | Revalidate: ${matchResult.route.revalidate}s`
     );
-    const html = await renderAndCache(
+    const result = await renderAndCache(
       pathname,
       matchResult.route,
       matchResult.params
     );
     log(`[ISR] ✅ Rendered and cached: ${pathname}`);
-    return new Response(html, {
-      headers: {
-        "Content-Type": "text/html; charset=utf-8",
-        "X-Cache": "MISS",
-      },
-    });
+    return isrPageResponse(result, "MISS");
   }
 
   // Fall back to pre-rendered static HTML in production (non-ISR static pages)
@@ -454,6 +465,17 @@ const tryServeWithISR = async (pathname: string): Promise<Response | null> => {
   return null; // Fall through to SSR
 };
 
+/**
+ * Data attached to upgraded sockets: HMR or an API channel
+ */
+type WebSocketData = { type: "hmr" } | ChannelSocketData;
+
+/**
+ * Check if a socket is the dev HMR connection
+ */
+const isHmrSocket = (ws: ServerWebSocket<WebSocketData>): boolean =>
+  "type" in ws.data && ws.data.type === "hmr";
+
 // Build server config conditionally for dev/prod
 const serverConfig = {
   routes: {
@@ -584,26 +606,13 @@ const serverConfig = {
       }
 
       // Try to match route and render dynamically (SSR)
-      const response = matchAndRenderRoute(pathname);
+      const response = matchAndRenderRoute(pathname, req);
       if (response) {
         return await response;
       }
 
-      // Try to render custom not-found component
-      const notFoundRouteInfo = getNotFoundRouteInfo();
-      if (notFoundRouteInfo) {
-        const notFoundResponse = await renderRoute(notFoundRouteInfo);
-        return new Response(notFoundResponse.body, {
-          status: 404,
-          headers: notFoundResponse.headers,
-        });
-      }
-
-      // Fallback to 404 for unknown routes
-      return new Response("Page not found", {
-        status: 404,
-        headers: { "Content-Type": "text/html" },
-      });
+      // Render custom not-found component (plain 404 without one)
+      return await renderNotFound(req);
     },
   },
 
@@ -615,25 +624,41 @@ const serverConfig = {
     console: true,
   },
 
-  // Add WebSocket handler for HMR (dev mode only)
-  ...(process.env.NODE_ENV !== "production"
-    ? {
-        websocket: {
-          message() {
-            // Handle incoming messages if needed
-            // For now, we only send updates, not receive
-          },
-          open(ws: ServerWebSocket<unknown>) {
-            // Subscribe to HMR topic when WebSocket opens
-            ws.subscribe("hmr");
-          },
-          close(ws: ServerWebSocket<unknown>) {
-            // Unsubscribe when WebSocket closes
-            ws.unsubscribe("hmr");
-          },
-        },
+  // WebSocket handler: HMR sockets (dev mode only) and typed API channels
+  websocket: {
+    message(
+      ws: ServerWebSocket<WebSocketData>,
+      message: string | Buffer<ArrayBuffer>
+    ) {
+      // HMR only sends updates, it never receives
+      if (!isHmrSocket(ws)) {
+        api.websocket.message(
+          ws as ServerWebSocket<ChannelSocketData>,
+          message
+        );
+      }
+    },
+    open(ws: ServerWebSocket<WebSocketData>) {
+      if (isHmrSocket(ws)) {
+        // Subscribe to HMR topic when WebSocket opens
+        ws.subscribe("hmr");
+        return;
       }
-    : {}),
+      api.websocket.open?.(ws as ServerWebSocket<ChannelSocketData>);
+    },
+    close(ws: ServerWebSocket<WebSocketData>, code: number, reason: string) {
+      if (isHmrSocket(ws)) {
+        // Unsubscribe when WebSocket closes
+        ws.unsubscribe("hmr");
+        return;
+      }
+      api.websocket.close?.(
+        ws as ServerWebSocket<ChannelSocketData>,
+        code,
+        reason
+      );
+    },
+  },
 };
 
 const server = serve(serverConfig as Parameters<typeof serve>[0]);
@@ -809,26 +834,13 @@ const reloadRoutes = async (): Promise<void> => {
           }
 
           // Try to match route and render dynamically (SSR)
-          const response = matchAndRenderRoute(pathname);
+          const response = matchAndRenderRoute(pathname, req);
           if (response) {
             return await response;
           }
 
-          // Try to render custom not-found component
-          const notFoundRouteInfo = getNotFoundRouteInfo();
-          if (notFoundRouteInfo) {
-            const notFoundResponse = await renderRoute(notFoundRouteInfo);
-            return new Response(notFoundResponse.body, {
-              status: 404,
-              headers: notFoundResponse.headers,
-            });
-          }
-
-          // Fallback to 404 for unknown routes
-          return new Response("Page not found", {
-            status: 404,
-            headers: { "Content-Type": "text/html" },
-          });
+          // Render custom not-found component (plain 404 without one)
+          return await renderNotFound(req);
         },
       },
     });
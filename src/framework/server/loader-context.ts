@@ -0,0 +1,104 @@
+/**
+ * Loader Context Module
+ * Builds the context passed to page loaders: the request for dynamic pages, and
+ * only params and pathname for static pages (rendered at build time or by ISR)
+ */
+
+import type {
+  LoaderContext,
+  PageType,
+  StaticLoaderContext,
+} from "~/framework/shared/page";
+
+/**
+ * Context fields that depend on the incoming request
+ */
+const REQUEST_ONLY_FIELDS = [
+  "request",
+  "url",
+  "searchParams",
+  "headers",
+  "cookies",
+] as const;
+
+/**
+ * Decode a cookie value, keeping it as is when it isn't valid percent-encoding
+ */
+const decodeCookieValue = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Parse a Cookie header into name -> value (the first occurrence of a name wins)
+ */
+export const parseCookies = (
+  header: string | null
+): ReadonlyMap<string, string> => {
+  const cookies = new Map<string, string>();
+  for (const pair of (header ?? "").split(";")) {
+    const separator = pair.indexOf("=");
+    const name = pair.slice(0, Math.max(separator, 0)).trim();
+    if (name && !cookies.has(name)) {
+      cookies.set(name, decodeCookieValue(pair.slice(separator + 1).trim()));
+    }
+  }
+  return cookies;
+};
+
+/**
+ * Loader context of a dynamic page
+ */
+export const createLoaderContext = (
+  params: Record<string, string>,
+  request: Request
+): LoaderContext => {
+  const url = new URL(request.url);
+  return {
+    params,
+    pathname: url.pathname,
+    request,
+    url,
+    searchParams: url.searchParams,
+    headers: request.headers,
+    cookies: parseCookies(request.headers.get("cookie")),
+  };
+};
+
+/**
+ * Loader context of a static page
+ * Request-only fields throw, since the result is shared by every visitor
+ */
+export const createStaticLoaderContext = (
+  params: Record<string, string>,
+  pathname: string
+): StaticLoaderContext => {
+  const context: StaticLoaderContext = { params, pathname };
+  for (const field of REQUEST_ONLY_FIELDS) {
+    Object.defineProperty(context, field, {
+      enumerable: false,
+      get: () => {
+        throw new Error(
+          `Loader of static page ${pathname} read \`${field}\`, which is only available to dynamic pages: static pages are rendered once (at build time or by ISR) and shared by every visitor. Use \`type: "dynamic"\` to read the request.`
+        );
+      },
+    });
+  }
+  return context;
+};
+
+/**
+ * Loader context of a page rendered for a request
+ * Static pages get the static context even then, so they behave the same as when pre-rendered
+ */
+export const createPageLoaderContext = (
+  pageType: PageType,
+  params: Record<string, string>,
+  request: Request
+): LoaderContext | StaticLoaderContext =>
+  pageType === "static"
+    ? createStaticLoaderContext(params, new URL(request.url).pathname)
+    : createLoaderContext(params, request);
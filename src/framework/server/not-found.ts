@@ -0,0 +1,105 @@
+/**
+ * Not-Found Page Module
+ * Locates `src/app/not-found.tsx`, rendered for unknown routes and for pages that call `notFound()`
+ */
+
+import { existsSync } from "node:fs";
+import { join, relative } from "node:path";
+import { hasClientNavigation } from "~/framework/shared/layout";
+import {
+  extractPageType,
+  hasGenerateParams,
+  hasLoader,
+} from "~/framework/shared/page";
+import { findErrorBoundaries, type RouteInfo } from "~/framework/shared/router";
+import {
+  type ComponentType,
+  hasClientBoundariesSync,
+  hasUseClientDirective,
+} from "~/framework/shared/rsc";
+
+const LAYOUT_FILE = "layout.tsx";
+
+/**
+ * Convert absolute file path to import path using ~/ alias
+ */
+const toImportPath = (filePath: string, baseDir: string): string => {
+  const relativePath = relative(baseDir, filePath);
+  const cleanPath = relativePath.startsWith("./")
+    ? relativePath.slice(2)
+    : relativePath;
+  return `~/${cleanPath}`;
+};
+
+/**
+ * Find layouts for not-found page (only root layout)
+ */
+const findNotFoundLayouts = (
+  appDir: string,
+  srcDir: string
+): {
+  layoutPath?: string;
+  parentLayouts: string[];
+  layoutTypes: ComponentType[];
+  clientNavigable: boolean;
+} => {
+  const rootLayout = join(appDir, LAYOUT_FILE);
+  if (existsSync(rootLayout)) {
+    const isClient = hasUseClientDirective(rootLayout);
+    const clientNavigable = hasClientNavigation(rootLayout);
+    return {
+      layoutPath: toImportPath(rootLayout, srcDir),
+      parentLayouts: [],
+      layoutTypes: [isClient ? "client" : "server"],
+      clientNavigable,
+    };
+  }
+  return { parentLayouts: [], layoutTypes: [], clientNavigable: false };
+};
+
+/**
+ * Get RouteInfo for not-found.tsx if it exists
+ */
+export const getNotFoundRouteInfo = (): RouteInfo | null => {
+  const appDir = join(process.cwd(), "src/app");
+  const srcDir = join(process.cwd(), "src");
+  const notFoundPath = join(appDir, "not-found.tsx");
+
+  if (!existsSync(notFoundPath)) {
+    return null;
+  }
+
+  const { layoutPath, parentLayouts, layoutTypes, clientNavigable } =
+    findNotFoundLayouts(appDir, srcDir);
+
+  const isClientComponent = hasUseClientDirective(notFoundPath);
+  const hasClientBoundaries = hasClientBoundariesSync(notFoundPath);
+  const pageType = extractPageType(notFoundPath);
+  const hasStaticParams = hasGenerateParams(notFoundPath);
+  const hasLoaderFn = hasLoader(notFoundPath);
+
+  const routeInfo: RouteInfo = {
+    path: "/not-found", // Dummy path, not used for routing
+    filePath: toImportPath(notFoundPath, srcDir),
+    parentLayouts,
+    isClientComponent,
+    layoutTypes,
+    hasClientBoundaries,
+    pageType,
+    hasStaticParams,
+    hasLoader: hasLoaderFn,
+    clientNavigable,
+    errorBoundaries: findErrorBoundaries(notFoundPath, appDir).map(
+      (boundary) => ({
+        path: toImportPath(boundary.path, srcDir),
+        layoutDepth: boundary.layoutDepth,
+      })
+    ),
+  };
+
+  if (layoutPath) {
+    routeInfo.layoutPath = layoutPath;
+  }
+
+  return routeInfo;
+};
@@ -0,0 +1,34 @@
+import { afterEach, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createSqliteStore } from "./rate-limit-store";
+
+let directory: string | null = null;
+
+afterEach(() => {
+  if (directory) {
+    rmSync(directory, { recursive: true, force: true });
+    directory = null;
+  }
+});
+
+test("stores opened on the same file share counters", async () => {
+  directory = mkdtempSync(join(tmpdir(), "rate-limits-"));
+  const filename = join(directory, "nested", "rate-limits.sqlite");
+  const first = createSqliteStore(filename);
+  const second = createSqliteStore(filename);
+
+  expect(await first.hit("key", 60_000)).toMatchObject({ count: 1 });
+  expect(await second.hit("key", 60_000)).toMatchObject({ count: 2 });
+  expect(await second.hit("other", 60_000)).toMatchObject({ count: 1 });
+});
+
+test("an expired window starts over", async () => {
+  directory = mkdtempSync(join(tmpdir(), "rate-limits-"));
+  const store = createSqliteStore(join(directory, "rate-limits.sqlite"));
+
+  expect(await store.hit("key", 20)).toMatchObject({ count: 1 });
+  await Bun.sleep(30);
+  expect(await store.hit("key", 20)).toMatchObject({ count: 1 });
+});
@@ -0,0 +1,69 @@
+/**
+ * SQLite storage for API rate limits
+ * Counters survive restarts and are shared by processes using the same file
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type {
+  RateLimitHit,
+  RateLimitStore,
+} from "~/framework/shared/rate-limit";
+
+/**
+ * How often expired windows are deleted (ms)
+ */
+const PRUNE_INTERVAL = 60_000;
+
+/**
+ * Default database file, outside dist/ so rebuilding doesn't reset the counters
+ */
+const defaultFilename = (): string =>
+  join(process.cwd(), "data", "rate-limits.sqlite");
+
+/**
+ * Create a SQLite-backed rate limit store
+ * Usage: setDefaultRateLimitStore(createSqliteStore())
+ */
+export const createSqliteStore = (
+  filename = defaultFilename()
+): RateLimitStore => {
+  mkdirSync(dirname(filename), { recursive: true });
+  const db = new Database(filename, { create: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(
+    "CREATE TABLE IF NOT EXISTS rate_limits (key TEXT PRIMARY KEY, count INTEGER NOT NULL, reset_at INTEGER NOT NULL)"
+  );
+
+  // One statement: start a window (or a fresh one after expiry) or count within it
+  const upsert = db.query<
+    { count: number; reset_at: number },
+    [string, number, number]
+  >(
+    `INSERT INTO rate_limits (key, count, reset_at) VALUES (?1, 1, ?2 + ?3)
+     ON CONFLICT (key) DO UPDATE SET
+       count = CASE WHEN reset_at <= ?2 THEN 1 ELSE count + 1 END,
+       reset_at = CASE WHEN reset_at <= ?2 THEN excluded.reset_at ELSE reset_at END
+     RETURNING count, reset_at`
+  );
+  const prune = db.query<unknown, [number]>(
+    "DELETE FROM rate_limits WHERE reset_at <= ?1"
+  );
+  let nextPruneAt = 0;
+
+  return {
+    hit: (key, windowMs): RateLimitHit => {
+      const now = Date.now();
+      if (now >= nextPruneAt) {
+        prune.run(now);
+        nextPruneAt = now + PRUNE_INTERVAL;
+      }
+      const row = upsert.get(key, now, windowMs);
+      return {
+        count: row?.count ?? 1,
+        resetAt: row?.reset_at ?? now + windowMs,
+      };
+    },
+  };
+};
@@ -1,13 +1,44 @@
 import React from "react";
-import { renderToReadableStream, renderToString } from "react-dom/server";
+import {
+  renderToReadableStream,
+  renderToStaticMarkup,
+  renderToString,
+} from "react-dom/server";
 import type { RouteInfo } from "@/framework/shared/router";
 import { getRouteChunks } from "~/framework/shared/chunk-manifest";
+import {
+  buildSegmentTree,
+  ErrorBoundary,
+  type ErrorComponentProps,
+  type RouteErrorData,
+  type SegmentErrorBoundary,
+  toRouteErrorData,
+  withRouteError,
+} from "~/framework/shared/error-boundary";
+import { getLayoutConfig, hasLayoutConfig } from "~/framework/shared/layout";
+import {
+  type MetadataSource,
+  type ResolvedMetadata,
+  resolveMetadata,
+} from "~/framework/shared/metadata";
+import {
+  isNavigationError,
+  NotFoundError,
+  RedirectError,
+} from "~/framework/shared/navigation";
 import { getPageConfig, hasPageConfig } from "~/framework/shared/page";
 import {
+  MetadataTags,
+  RootShell,
   type RouteData,
   serializeRouteData,
 } from "~/framework/shared/root-shell";
 import { SSRRoutePathProvider } from "~/framework/shared/route-context";
+import {
+  createPageLoaderContext,
+  createStaticLoaderContext,
+} from "./loader-context";
+import { getNotFoundRouteInfo } from "./not-found";
 
 /**
  * Simple logger that only logs in development
@@ -37,6 +68,7 @@ const resolveImportPath = (importPath: string): string => {
  */
 let routeModulesCache: Map<string, { default: unknown }> | null = null;
 let layoutModulesCache: Map<string, { default: unknown }> | null = null;
+let errorModulesCache: Map<string, { default: unknown }> | null = null;
 
 /**
  * Clear module caches - call this when routes are reloaded
@@ -45,6 +77,7 @@ let layoutModulesCache: Map<string, { default: unknown }> | null = null;
 export const clearModuleCache = (): void => {
   routeModulesCache = null;
   layoutModulesCache = null;
+  errorModulesCache = null;
 };
 
 const getRouteModules = async (): Promise<
@@ -57,6 +90,7 @@ const getRouteModules = async (): Promise<
     const module = await import("./route-modules.generated");
     routeModulesCache = module.routeModules;
     layoutModulesCache = module.layoutModules;
+    errorModulesCache = module.errorModules;
     return routeModulesCache;
   } catch {
     // File doesn't exist yet - return empty map, fallback to dynamic import
@@ -74,6 +108,16 @@ const getLayoutModules = async (): Promise<
   return layoutModulesCache || new Map();
 };
 
+const getErrorModules = async (): Promise<
+  Map<string, { default: unknown }>
+> => {
+  if (errorModulesCache) {
+    return errorModulesCache;
+  }
+  await getRouteModules(); // This will populate the error modules cache too
+  return errorModulesCache || new Map();
+};
+
 /**
  * Get route module from registry, fallback to dynamic import for newly created files
  * This handles the brief window between file creation and registry regeneration
@@ -112,6 +156,25 @@ const getLayoutModule = async (
   return await import(resolvedPath);
 };
 
+/**
+ * Get error boundary module (error.tsx / global-error.tsx) from registry,
+ * fallback to dynamic import for newly created files
+ */
+const getErrorModule = async (
+  errorPath: string
+): Promise<{ default: unknown }> => {
+  const errorModules = await getErrorModules();
+  const cached = errorModules.get(errorPath);
+  if (cached) {
+    return cached;
+  }
+
+  // Fallback for newly created files not yet in registry
+  log(`[HMR] Dynamic import fallback for error boundary: ${errorPath}`);
+  const resolvedPath = resolveImportPath(errorPath);
+  return await import(resolvedPath);
+};
+
 /**
  * HMR client script (dev mode only)
  */
@@ -214,6 +277,11 @@ export const hasClientComponents = (routeInfo: RouteInfo): boolean => {
     return true;
   }
 
+  // Error boundaries catch errors streamed into Suspense boundaries on the client
+  if (routeInfo.errorBoundaries.length > 0) {
+    return true;
+  }
+
   // Return false for pure server component pages with no client imports
   return false;
 };
@@ -307,14 +375,110 @@ const loadRootLayout = async (): Promise<React.ComponentType<
 };
 
 /**
- * Build component tree with layouts
+ * Load the error boundaries (error.tsx) of a route, outermost first
+ */
+const loadErrorBoundaries = async (
+  routeInfo: RouteInfo
+): Promise<SegmentErrorBoundary[]> =>
+  await Promise.all(
+    routeInfo.errorBoundaries.map(async (boundary) => {
+      const errorModule = await getErrorModule(boundary.path);
+      const ErrorComponent = errorModule.default as
+        | React.ComponentType<ErrorComponentProps>
+        | undefined;
+      if (!ErrorComponent) {
+        throw new Error(`No default export found in ${boundary.path}`);
+      }
+      return { component: ErrorComponent, layoutDepth: boundary.layoutDepth };
+    })
+  );
+
+/**
+ * Load global error component (app/global-error.tsx) if it exists
+ * Rendered in place of the root layout when no error.tsx can render an error
+ */
+const loadGlobalError =
+  async (): Promise<React.ComponentType<ErrorComponentProps> | null> => {
+    const globalErrorPath = "~/app/global-error.tsx";
+    try {
+      const errorModule = await getErrorModule(globalErrorPath);
+      return (
+        (errorModule.default as
+          | React.ComponentType<ErrorComponentProps>
+          | undefined) || null
+      );
+    } catch {
+      return null;
+    }
+  };
+
+/**
+ * Metadata declared by a layout or page module: the defineLayout / definePage config,
+ * or `metadata` / `generateMetadata` exports (e.g. the root layout's `metadata`)
+ */
+const moduleMetadataSource = (module: { default: unknown }): MetadataSource => {
+  const component = module.default;
+  let source = module as MetadataSource;
+  if (hasPageConfig(component)) {
+    source = getPageConfig(component);
+  } else if (hasLayoutConfig(component)) {
+    source = getLayoutConfig(component);
+  }
+  return {
+    ...(source.metadata && { metadata: source.metadata }),
+    ...(source.generateMetadata && {
+      generateMetadata: source.generateMetadata,
+    }),
+  };
+};
+
+/**
+ * Layout paths of a route, from the root layout down to the direct layout
+ */
+const routeLayoutPaths = (routeInfo: RouteInfo): string[] => [
+  ...routeInfo.parentLayouts,
+  ...(routeInfo.layoutPath ? [routeInfo.layoutPath] : []),
+];
+
+/**
+ * Metadata sources of layouts (skipping layouts that fail to load)
+ */
+const loadLayoutMetadataSources = async (
+  layoutPaths: string[]
+): Promise<MetadataSource[]> => {
+  const sources: MetadataSource[] = [];
+  for (const layoutPath of layoutPaths) {
+    try {
+      sources.push(moduleMetadataSource(await getLayoutModule(layoutPath)));
+    } catch (error) {
+      logWarn(`Failed to load layout ${layoutPath}:`, error);
+    }
+  }
+  return sources;
+};
+
+/**
+ * Resolve a route's document metadata, from the root layout down to the page
+ */
+const resolveRouteMetadata = async (
+  routeInfo: RouteInfo,
+  pageModule: { default: unknown },
+  params: Record<string, string>,
+  data: unknown
+): Promise<ResolvedMetadata> => {
+  const sources = await loadLayoutMetadataSources(routeLayoutPaths(routeInfo));
+  sources.push(moduleMetadataSource(pageModule));
+  return await resolveMetadata(sources, params, data);
+};
+
+/**
+ * Build component tree with layouts and error boundaries
  * Wraps the tree with SSRRoutePathProvider so client components can access
  * the current route path during server-side rendering (prevents hydration flash)
  * Also wraps with RootLayout (RootShell) if it exists
  */
 const buildComponentTree = async (
-  PageComponent: React.ComponentType<Record<string, unknown>>,
-  pageProps: Record<string, unknown>,
+  content: React.ReactNode,
   layouts: Array<{
     component: React.ComponentType<Record<string, unknown>>;
     props?: Record<string, unknown>;
@@ -325,38 +489,50 @@ const buildComponentTree = async (
     pageData?: unknown;
     isStatic?: boolean;
     routeChunks?: Array<{ path: string; size: number }>;
+    metadata?: ResolvedMetadata;
+    errorBoundaries: SegmentErrorBoundary[];
+    /** Server error rendered by the last error boundary */
+    routeError?: RouteErrorData;
   }
 ): Promise<React.ReactElement> => {
-  let component: React.ReactElement = React.createElement(
-    PageComponent,
-    pageProps
-  );
-  for (let i = layouts.length - 1; i >= 0; i--) {
+  const wrapLayout = (
+    children: React.ReactNode,
+    i: number
+  ): React.ReactNode => {
     const layout = layouts[i];
-    if (layout) {
-      const props =
-        i === 0
-          ? {
-              ...layout.props,
-              routePath: options.routePath,
-              hasClientComponents: options.needsHydration,
-              ...(options.pageData !== undefined && {
-                pageData: options.pageData,
-              }),
-            }
-          : layout.props || {};
-      component = React.createElement(layout.component, props, component);
+    if (!layout) {
+      return children;
     }
-  }
+    const props =
+      i === 0
+        ? {
+            ...layout.props,
+            routePath: options.routePath,
+            hasClientComponents: options.needsHydration,
+            ...(options.pageData !== undefined && {
+              pageData: options.pageData,
+            }),
+          }
+        : layout.props || {};
+    return React.createElement(layout.component, props, children);
+  };
+
+  // Error boundaries sit between the layouts of their directories
+  const tree = buildSegmentTree(
+    content,
+    layouts.length,
+    wrapLayout,
+    options.errorBoundaries
+  );
 
   // Wrap with SSRRoutePathProvider so client components can access
   // the current route path during SSR (before hydration completes)
-  component = React.createElement(
+  let component: React.ReactElement = React.createElement(
     SSRRoutePathProvider,
     { routePath: options.routePath } as React.ComponentProps<
       typeof SSRRoutePathProvider
     >,
-    component
+    tree
   );
 
   // Wrap with RootLayout (RootShell) if it exists
@@ -373,6 +549,10 @@ const buildComponentTree = async (
         ...(options.routeChunks !== undefined && {
           routeChunks: options.routeChunks,
         }),
+        ...(options.metadata !== undefined && { metadata: options.metadata }),
+        ...(options.routeError !== undefined && {
+          routeError: options.routeError,
+        }),
       },
       component
     );
@@ -383,9 +563,23 @@ const buildComponentTree = async (
 
 /**
  * Create stream error handler
+ * `isStreaming` tells whether the shell was already sent: errors thrown before that
+ * reject the render and are handled by renderRoute (redirect, not-found page, error
+ * boundary), after that the status can't change anymore
  */
-const createStreamErrorHandler = (): ((error: unknown) => void) => {
+const createStreamErrorHandler = (
+  isStreaming: () => boolean
+): ((error: unknown) => void) => {
   return (error: unknown) => {
+    if (!isStreaming()) {
+      return;
+    }
+    if (isNavigationError(error)) {
+      logWarn(
+        `${error.name} thrown inside a Suspense boundary after streaming started: call redirect() / notFound() in the loader or outside Suspense`
+      );
+      return;
+    }
     // Ignore abort/close errors - these are normal when clients disconnect or navigate away
     if (error instanceof Error) {
       const msg = error.message.toLowerCase();
@@ -533,8 +727,9 @@ export const renderRouteToString = async (
     const PageComponent: React.ComponentType<Record<string, unknown>> =
       PageComponentRaw;
 
-    // Load layouts
+    // Load layouts and error boundaries
     const layouts = await loadLayouts(routeInfo);
+    const errorBoundaries = await loadErrorBoundaries(routeInfo);
 
     // Check if route has any client components
     const needsHydration = hasClientComponents(routeInfo);
@@ -557,10 +752,17 @@ export const renderRouteToString = async (
     // Get route chunks for preloading (production only)
     const routeChunks = getRouteChunks(routeInfo.path);
 
+    // Resolve document metadata (root layout -> page)
+    const metadata = await resolveRouteMetadata(
+      routeInfo,
+      pageModule,
+      params,
+      data
+    );
+
     // Build the component tree
     const component = await buildComponentTree(
-      PageComponent,
-      pageProps,
+      React.createElement(PageComponent, pageProps),
       layouts,
       {
         routePath: routeInfo.path,
@@ -568,6 +770,8 @@ export const renderRouteToString = async (
         pageData: data !== undefined ? data : undefined,
         isStatic,
         ...(routeChunks !== undefined && { routeChunks }),
+        metadata,
+        errorBoundaries,
       }
     );
 
@@ -621,12 +825,14 @@ export const renderRouteToString = async (
     }
 
     // No RootShell - wrap in HTML document structure
+    const metadataTags = renderToStaticMarkup(
+      React.createElement(MetadataTags, { metadata })
+    );
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Page</title>
+  ${metadataTags}
   <link rel="stylesheet" href="/index.css">
 </head>
 <body>
@@ -635,131 +841,415 @@ export const renderRouteToString = async (
 </body>
 </html>`;
   } catch (error) {
-    logError(`Error rendering route ${routeInfo.path}:`, error);
+    // redirect() / notFound() are handled by the caller (see renderStaticPage)
+    if (!isNavigationError(error)) {
+      logError(`Error rendering route ${routeInfo.path}:`, error);
+    }
     throw error;
   }
 };
 
 /**
- * Render a route with its layout hierarchy
+ * Result of rendering a static page (pre-rendering and ISR)
  */
-export const renderRoute = async (
+export interface StaticPageResult {
+  /** 200 for the page, 404 after notFound(), the redirect status after redirect() */
+  status: number;
+  /** HTML of the page or of the not-found page (empty for redirects) */
+  html: string;
+  /** Redirect target */
+  location?: string;
+}
+
+/**
+ * Run the loader of a static page (with the static context: there is no request to read)
+ */
+const loadStaticPageData = async (
   routeInfo: RouteInfo,
-  params: Record<string, string> = {}
-): Promise<Response> => {
+  params: Record<string, string>,
+  pathname: string
+): Promise<unknown> => {
+  const pageModule = await getRouteModule(routeInfo.filePath);
+  const PageComponent = pageModule.default;
+  if (!hasPageConfig(PageComponent)) {
+    return;
+  }
+  const config = getPageConfig(PageComponent);
+  if (!config.loader) {
+    return;
+  }
+  return await config.loader(
+    params,
+    createStaticLoaderContext(params, pathname)
+  );
+};
+
+/**
+ * Render the not-found page to HTML for a static page that called notFound()
+ */
+const renderStaticNotFound = async (
+  pathname: string
+): Promise<StaticPageResult> => {
+  const notFoundRouteInfo = getNotFoundRouteInfo();
+  if (notFoundRouteInfo) {
+    try {
+      const data = await loadStaticPageData(notFoundRouteInfo, {}, pathname);
+      const html = await renderRouteToString(notFoundRouteInfo, data, {});
+      return { status: 404, html };
+    } catch (error) {
+      logError(`Error rendering not-found page for ${pathname}:`, error);
+    }
+  }
+  return { status: 404, html: "Page not found" };
+};
+
+/**
+ * Run a static page's loader and render it to HTML (build-time pre-rendering and ISR)
+ * notFound() renders the not-found page with a 404 status; redirect() returns the target
+ */
+export const renderStaticPage = async (
+  routeInfo: RouteInfo,
+  params: Record<string, string>,
+  pathname: string
+): Promise<StaticPageResult> => {
   try {
-    // Import the page component from registry
-    const pageModule = await getRouteModule(routeInfo.filePath);
-    const PageComponentRaw = pageModule.default as
-      | React.ComponentType<Record<string, unknown>>
-      | undefined;
+    const data = await loadStaticPageData(routeInfo, params, pathname);
+    const html = await renderRouteToString(routeInfo, data, params);
+    return { status: 200, html };
+  } catch (error) {
+    if (error instanceof RedirectError) {
+      return { status: error.status, html: "", location: error.url };
+    }
+    if (error instanceof NotFoundError) {
+      return await renderStaticNotFound(pathname);
+    }
+    throw error;
+  }
+};
 
-    if (!PageComponentRaw) {
-      throw new Error(`No default export found in ${routeInfo.filePath}`);
+/**
+ * Render a route with its layout hierarchy, letting errors through
+ */
+const streamRoute = async (
+  routeInfo: RouteInfo,
+  params: Record<string, string>,
+  request: Request
+): Promise<Response> => {
+  // Import the page component from registry
+  const pageModule = await getRouteModule(routeInfo.filePath);
+  const PageComponentRaw = pageModule.default as
+    | React.ComponentType<Record<string, unknown>>
+    | undefined;
+
+  if (!PageComponentRaw) {
+    throw new Error(`No default export found in ${routeInfo.filePath}`);
+  }
+
+  // TypeScript now knows PageComponent is defined
+  const PageComponent: React.ComponentType<Record<string, unknown>> =
+    PageComponentRaw;
+
+  // Check if page has loader (for dynamic routes with data fetching)
+  let pageData: unknown;
+  if (hasPageConfig(PageComponent)) {
+    const config = getPageConfig(PageComponent);
+    if (config.loader) {
+      pageData = await config.loader(
+        params,
+        createPageLoaderContext(config.type, params, request)
+      );
     }
+  }
 
-    // TypeScript now knows PageComponent is defined
-    const PageComponent: React.ComponentType<Record<string, unknown>> =
-      PageComponentRaw;
+  // Load layouts and error boundaries
+  const layouts = await loadLayouts(routeInfo);
+  const errorBoundaries = await loadErrorBoundaries(routeInfo);
+
+  // Check if route has any client components
+  const needsHydration = hasClientComponents(routeInfo);
+
+  // Determine if route is static (no dynamic params, no loader)
+  // Note: Even if pageType is static, if there's a loader or dynamic params,
+  // the route data may vary per request
+  const isStatic =
+    routeInfo.pageType === "static" &&
+    !routeInfo.isDynamic &&
+    !routeInfo.hasLoader &&
+    pageData === undefined;
+
+  // Build props with params and data
+  // Always pass params for dynamic routes, default to empty object
+  const pageProps: Record<string, unknown> = {
+    params: params || {},
+  };
+  if (pageData !== undefined) {
+    pageProps["data"] = pageData;
+  }
 
-    // Check if page has loader (for dynamic routes with data fetching)
-    let pageData: unknown;
-    if (hasPageConfig(PageComponent)) {
-      const config = getPageConfig(PageComponent);
-      if (config.loader) {
-        pageData = await config.loader(params);
-      }
+  // Get route chunks for preloading (production only)
+  const routeChunks = getRouteChunks(routeInfo.path);
+
+  // Resolve document metadata (root layout -> page)
+  const metadata = await resolveRouteMetadata(
+    routeInfo,
+    pageModule,
+    params,
+    pageData
+  );
+
+  // Build the component tree
+  const component = await buildComponentTree(
+    React.createElement(PageComponent, pageProps),
+    layouts,
+    {
+      routePath: routeInfo.path,
+      needsHydration,
+      pageData: pageData !== undefined ? pageData : undefined,
+      isStatic,
+      ...(routeChunks !== undefined && { routeChunks }),
+      metadata,
+      errorBoundaries,
     }
+  );
 
-    // Load layouts
-    const layouts = await loadLayouts(routeInfo);
+  return await streamDocument(component, needsHydration);
+};
 
-    // Check if route has any client components
-    const needsHydration = hasClientComponents(routeInfo);
+/**
+ * Stream a document component tree as an HTML response
+ */
+const streamDocument = async (
+  component: React.ReactElement,
+  needsHydration: boolean
+): Promise<Response> => {
+  // Create AbortController to signal React when the stream is cancelled
+  // This allows React to clean up properly when user navigates away
+  const abortController = new AbortController();
+
+  // Set once the shell is rendered (errors after that stream into Suspense boundaries)
+  let streaming = false;
+
+  // Render to stream with Suspense support
+  // bootstrapModules injects scripts after content streams (for hydration)
+  // onError handles errors during Suspense resolution
+  // signal allows React to abort cleanly when user navigates away
+  const streamOptions: {
+    bootstrapModules?: string[];
+    onError: (error: unknown) => void;
+    signal: AbortSignal;
+  } = {
+    onError: createStreamErrorHandler(() => streaming),
+    signal: abortController.signal,
+  };
 
-    // Determine if route is static (no dynamic params, no loader)
-    // Note: Even if pageType is static, if there's a loader or dynamic params,
-    // the route data may vary per request
-    const isStatic =
-      routeInfo.pageType === "static" &&
-      !routeInfo.isDynamic &&
-      !routeInfo.hasLoader &&
-      pageData === undefined;
+  if (needsHydration) {
+    streamOptions.bootstrapModules = ["/hydrate.js"];
+  }
 
-    // Build props with params and data
-    // Always pass params for dynamic routes, default to empty object
-    const pageProps: Record<string, unknown> = {
-      params: params || {},
-    };
-    if (pageData !== undefined) {
-      pageProps["data"] = pageData;
+  // Render to stream - React will handle Suspense boundaries automatically
+  // For async Server Components with Suspense, React streams fallbacks first,
+  // then streams resolved content as promises resolve. The key is that React
+  // needs the stream to be actively consumed for it to continue streaming.
+  // Note: HMR script is injected directly in RootShell component to avoid
+  // breaking React's streaming format by manipulating chunks
+  const reactStream = await renderToReadableStream(component, streamOptions);
+  streaming = true;
+
+  // Wrap React's stream in an active consumer stream
+  // This ensures React continues processing Suspense boundaries by actively
+  // pulling chunks from the stream. Without this, Bun's Response may not
+  // consume the stream fast enough for React to continue processing.
+  // Pass the AbortController so we can signal React to abort when cancelled.
+  const stream = createActiveStream(reactStream, abortController);
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+    },
+  });
+};
+
+/**
+ * Same response with another status code
+ */
+const withStatus = (response: Response, status: number): Response =>
+  new Response(response.body, { status, headers: response.headers });
+
+/**
+ * Render src/app/not-found.tsx with a 404 status
+ * Used for unknown routes and for pages that call notFound()
+ */
+export const renderNotFound = async (request: Request): Promise<Response> => {
+  const notFoundRouteInfo = getNotFoundRouteInfo();
+  if (notFoundRouteInfo) {
+    try {
+      return withStatus(await streamRoute(notFoundRouteInfo, {}, request), 404);
+    } catch (error) {
+      logError("Error rendering not-found page:", error);
     }
+  }
 
-    // Get route chunks for preloading (production only)
-    const routeChunks = getRouteChunks(routeInfo.path);
+  // Fallback to 404 without a not-found page
+  return new Response("Page not found", {
+    status: 404,
+    headers: { "Content-Type": "text/html" },
+  });
+};
 
-    // Build the component tree
-    const component = await buildComponentTree(
-      PageComponent,
-      pageProps,
-      layouts,
-      {
-        routePath: routeInfo.path,
-        needsHydration,
-        pageData: pageData !== undefined ? pageData : undefined,
-        isStatic,
-        ...(routeChunks !== undefined && { routeChunks }),
-      }
-    );
+/**
+ * Short id logged with a server error and passed to the error component as `error.digest`
+ */
+const createErrorDigest = (): string => crypto.randomUUID().slice(0, 8);
 
-    // Create AbortController to signal React when the stream is cancelled
-    // This allows React to clean up properly when user navigates away
-    const abortController = new AbortController();
-
-    // Render to stream with Suspense support
-    // bootstrapModules injects scripts after content streams (for hydration)
-    // onError handles errors during Suspense resolution
-    // signal allows React to abort cleanly when user navigates away
-    const streamOptions: {
-      bootstrapModules?: string[];
-      onError: (error: unknown) => void;
-      signal: AbortSignal;
-    } = {
-      onError: createStreamErrorHandler(),
-      signal: abortController.signal,
-    };
+/**
+ * Render a route's error boundary in place of the segment that failed,
+ * inside the layouts above the boundary
+ */
+const streamErrorBoundary = async (
+  routeInfo: RouteInfo,
+  params: Record<string, string>,
+  routeError: RouteErrorData
+): Promise<Response> => {
+  const errorBoundaries = withRouteError(
+    await loadErrorBoundaries(routeInfo),
+    routeError
+  );
+  const layoutCount = errorBoundaries.at(-1)?.layoutDepth ?? 0;
+  const layouts = (await loadLayouts(routeInfo)).slice(0, layoutCount);
+
+  // Metadata of the root layout and the layouts kept around the boundary
+  const layoutPaths = routeLayoutPaths(routeInfo);
+  const metadata = await resolveMetadata(
+    await loadLayoutMetadataSources([
+      ...layoutPaths.filter(isRootLayout),
+      ...layoutPaths
+        .filter((layoutPath) => !isRootLayout(layoutPath))
+        .slice(0, layoutCount),
+    ]),
+    params,
+    undefined
+  );
+
+  // Error components are client components (reset), so the page is always hydrated
+  const component = await buildComponentTree(null, layouts, {
+    routePath: routeInfo.path,
+    needsHydration: true,
+    metadata,
+    errorBoundaries,
+    routeError,
+  });
+  return await streamDocument(component, true);
+};
 
-    if (needsHydration) {
-      streamOptions.bootstrapModules = ["/hydrate.js"];
+/**
+ * Render app/global-error.tsx in place of the root layout (null without one)
+ */
+const streamGlobalError = async (
+  routeInfo: RouteInfo,
+  routeError: RouteErrorData
+): Promise<Response | null> => {
+  const GlobalError = await loadGlobalError();
+  if (!GlobalError) {
+    return null;
+  }
+  const content = React.createElement(
+    SSRRoutePathProvider,
+    { routePath: routeInfo.path } as React.ComponentProps<
+      typeof SSRRoutePathProvider
+    >,
+    React.createElement(ErrorBoundary, {
+      fallback: GlobalError,
+      initialError: routeError,
+    })
+  );
+  const component = React.createElement(
+    RootShell,
+    {
+      metadata: { title: "Error" },
+      routePath: routeInfo.path,
+      routeError,
+    } as React.ComponentProps<typeof RootShell>,
+    content
+  );
+  return await streamDocument(component, true);
+};
+
+/**
+ * Render a route error with status 500: the nearest error.tsx that renders
+ * (starting from the page's directory), then global-error.tsx, then plain text
+ */
+const renderRouteError = async (
+  routeInfo: RouteInfo,
+  params: Record<string, string>,
+  error: unknown
+): Promise<Response> => {
+  const digest = createErrorDigest();
+  logError(
+    `Error rendering route ${routeInfo.path} (digest ${digest}):`,
+    error
+  );
+
+  // A boundary that fails itself (or whose layouts fail) hands over to the one above it
+  for (let i = routeInfo.errorBoundaries.length - 1; i >= 0; i--) {
+    try {
+      return withStatus(
+        await streamErrorBoundary(
+          routeInfo,
+          params,
+          toRouteErrorData(error, digest, i)
+        ),
+        500
+      );
+    } catch (boundaryError) {
+      logError(
+        `Error rendering error boundary ${routeInfo.errorBoundaries[i]?.path}:`,
+        boundaryError
+      );
     }
+  }
 
-    // Render to stream - React will handle Suspense boundaries automatically
-    // For async Server Components with Suspense, React streams fallbacks first,
-    // then streams resolved content as promises resolve. The key is that React
-    // needs the stream to be actively consumed for it to continue streaming.
-    // Note: HMR script is injected directly in RootShell component to avoid
-    // breaking React's streaming format by manipulating chunks
-    const reactStream = await renderToReadableStream(component, streamOptions);
-
-    // Wrap React's stream in an active consumer stream
-    // This ensures React continues processing Suspense boundaries by actively
-    // pulling chunks from the stream. Without this, Bun's Response may not
-    // consume the stream fast enough for React to continue processing.
-    // Pass the AbortController so we can signal React to abort when cancelled.
-    const stream = createActiveStream(reactStream, abortController);
-
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/html; charset=utf-8",
-      },
-    });
-  } catch (error) {
-    logError(`Error rendering route ${routeInfo.path}:`, error);
-    return new Response(
-      `Error rendering route: ${
-        error instanceof Error ? error.message : String(error)
-      }`,
-      { status: 500 }
+  try {
+    const response = await streamGlobalError(
+      routeInfo,
+      toRouteErrorData(error, digest, "global")
     );
+    if (response) {
+      return withStatus(response, 500);
+    }
+  } catch (globalError) {
+    logError("Error rendering global-error.tsx:", globalError);
+  }
+
+  // Same message as the boundaries get (hidden in production), with the digest of the log entry
+  const { message } = toRouteErrorData(error, digest, "global");
+  return new Response(`Error rendering route: ${message} (digest ${digest})`, {
+    status: 500,
+  });
+};
+
+/**
+ * Render a route with its layout hierarchy
+ * The request is passed to the loader of dynamic pages (see LoaderContext);
+ * redirect() and notFound() thrown by the loader or while rendering the shell are honored,
+ * other errors render the nearest error boundary (see renderRouteError)
+ */
+export const renderRoute = async (
+  routeInfo: RouteInfo,
+  params: Record<string, string>,
+  request: Request
+): Promise<Response> => {
+  try {
+    return await streamRoute(routeInfo, params, request);
+  } catch (error) {
+    if (error instanceof RedirectError) {
+      return new Response(null, {
+        status: error.status,
+        headers: { Location: error.url },
+      });
+    }
+    if (error instanceof NotFoundError) {
+      return await renderNotFound(request);
+    }
+    return await renderRouteError(routeInfo, params, error);
   }
 };
@@ -3,10 +3,9 @@
  * Handles background regeneration of stale pages with concurrency control
  */
 
-import { getPageConfig, hasPageConfig } from "~/framework/shared/page";
 import { matchRoute } from "~/framework/shared/router";
 import { invalidateCache, setCache } from "./cache";
-import { renderRouteToString } from "./render";
+import { renderStaticPage } from "./render";
 import { getRouteTree } from "./routes";
 
 /**
@@ -92,46 +91,16 @@ const revalidatePathInternal = async (pathname: string): Promise<void> => {
     return;
   }
 
-  // Resolve import path
-  const resolveImportPath = (importPath: string): string => {
-    if (importPath.startsWith("~/")) {
-      const pathWithoutAlias = importPath.slice(2);
-      return `../../${pathWithoutAlias}`;
-    }
-    return importPath;
-  };
-
-  // Load page component to check for loader
-  const resolvedPagePath = resolveImportPath(routeInfo.filePath);
-  log(`[ISR] 📦 Loading module: ${resolvedPagePath}`);
-  const pageModule = await import(resolvedPagePath);
-  const PageComponent = pageModule.default;
-
-  if (!PageComponent) {
-    throw new Error(`No default export found in ${routeInfo.filePath}`);
-  }
-
-  // Load page data if loader exists
-  let pageData: unknown;
-  if (hasPageConfig(PageComponent)) {
-    const config = getPageConfig(PageComponent);
-    if (config.loader) {
-      log(`[ISR] 📥 Loading data for revalidation: ${pathname}`, params);
-      pageData = await config.loader(params);
-      log(`[ISR] ✅ Data loaded for revalidation: ${pathname}`);
-    }
-  }
-
-  // Render the page
-  log(`[ISR] 🖼️  Rendering HTML for revalidation: ${pathname}`);
-  const html = await renderRouteToString(routeInfo, pageData, params);
+  // Run the loader and render the page (the not-found page and redirects are cached too)
+  log(`[ISR] 🖼️  Rendering HTML for revalidation: ${pathname}`, params);
+  const result = await renderStaticPage(routeInfo, params, pathname);
   log(
-    `[ISR] ✅ HTML rendered for revalidation: ${pathname} (${Math.round(html.length / 1024)}KB)`
+    `[ISR] ✅ HTML rendered for revalidation: ${pathname} | Status: ${result.status} (${Math.round(result.html.length / 1024)}KB)`
   );
 
   // Update cache
   await setCache(pathname, {
-    html,
+    ...result,
     generatedAt: Date.now(),
     revalidate: routeInfo.revalidate,
   });
@@ -1,24 +1,10 @@
-import { existsSync } from "node:fs";
-import { join, relative } from "node:path";
-import { hasClientNavigation } from "~/framework/shared/layout";
-import {
-  extractPageType,
-  hasGenerateParams,
-  hasLoader,
-} from "~/framework/shared/page";
 import {
   discoverRoutes,
   matchRoute,
   matchRouteHandler,
   type RouteHandlerInfo,
-  type RouteInfo,
   type RouteTree,
 } from "~/framework/shared/router";
-import {
-  type ComponentType,
-  hasClientBoundariesSync,
-  hasUseClientDirective,
-} from "~/framework/shared/rsc";
 import { renderRoute } from "./render";
 
 /**
@@ -28,8 +14,6 @@ const isDev = process.env.NODE_ENV !== "production";
 const log = isDev ? console.log : () => {};
 const logError = console.error; // Always log errors
 
-const LAYOUT_FILE = "layout.tsx";
-
 /**
  * Mutable route tree that can be updated during development
  */
@@ -73,94 +57,16 @@ export const rediscoverRoutes = async (): Promise<RouteTree> => {
  * Build route handlers dynamically
  */
 export const buildRouteHandlers = () => {
-  const handlers: Record<string, () => Promise<Response>> = {};
+  const handlers: Record<string, (request: Request) => Promise<Response>> = {};
 
   // Add handlers for each discovered route
   for (const [path, routeInfo] of routeTree.routes.entries()) {
-    handlers[path] = async () => renderRoute(routeInfo);
+    handlers[path] = async (request) => renderRoute(routeInfo, {}, request);
   }
 
   return handlers;
 };
 
-/**
- * Convert absolute file path to import path using ~/ alias
- */
-const toImportPath = (filePath: string, baseDir: string): string => {
-  const relativePath = relative(baseDir, filePath);
-  const cleanPath = relativePath.startsWith("./")
-    ? relativePath.slice(2)
-    : relativePath;
-  return `~/${cleanPath}`;
-};
-
-/**
- * Find layouts for not-found page (only root layout)
- */
-const findNotFoundLayouts = (
-  appDir: string,
-  srcDir: string
-): {
-  layoutPath?: string;
-  parentLayouts: string[];
-  layoutTypes: ComponentType[];
-  clientNavigable: boolean;
-} => {
-  const rootLayout = join(appDir, LAYOUT_FILE);
-  if (existsSync(rootLayout)) {
-    const isClient = hasUseClientDirective(rootLayout);
-    const clientNavigable = hasClientNavigation(rootLayout);
-    return {
-      layoutPath: toImportPath(rootLayout, srcDir),
-      parentLayouts: [],
-      layoutTypes: [isClient ? "client" : "server"],
-      clientNavigable,
-    };
-  }
-  return { parentLayouts: [], layoutTypes: [], clientNavigable: false };
-};
-
-/**
- * Get RouteInfo for not-found.tsx if it exists
- */
-export const getNotFoundRouteInfo = (): RouteInfo | null => {
-  const appDir = join(process.cwd(), "src/app");
-  const srcDir = join(process.cwd(), "src");
-  const notFoundPath = join(appDir, "not-found.tsx");
-
-  if (!existsSync(notFoundPath)) {
-    return null;
-  }
-
-  const { layoutPath, parentLayouts, layoutTypes, clientNavigable } =
-    findNotFoundLayouts(appDir, srcDir);
-
-  const isClientComponent = hasUseClientDirective(notFoundPath);
-  const hasClientBoundaries = hasClientBoundariesSync(notFoundPath);
-  const pageType = extractPageType(notFoundPath);
-  const hasStaticParams = hasGenerateParams(notFoundPath);
-  const hasLoaderFn = hasLoader(notFoundPath);
-
-  const routeInfo: RouteInfo = {
-    path: "/not-found", // Dummy path, not used for routing
-    filePath: toImportPath(notFoundPath, srcDir),
-    parentLayouts,
-    isClientComponent,
-    layoutTypes,
-    hasClientBoundaries,
-    pageType,
-    hasStaticParams,
-    hasLoader: hasLoaderFn,
-    clientNavigable,
-  };
-
-  if (layoutPath) {
-    routeInfo.layoutPath = layoutPath;
-  }
-
-  return routeInfo;
-};
-
 /**
  * Execute a route handler (route.ts file)
  * Route handlers export HTTP method handlers (GET, POST, etc.)
@@ -226,11 +132,12 @@ export const matchAndExecuteRouteHandler = async (
  * Match a URL path to a route and render it
  */
 export const matchAndRenderRoute = (
-  pathname: string
+  pathname: string,
+  request: Request
 ): Promise<Response> | null => {
   const matchResult = matchRoute(pathname, routeTree.routes);
   if (matchResult) {
-    return renderRoute(matchResult.route, matchResult.params);
+    return renderRoute(matchResult.route, matchResult.params, request);
   }
   return null;
 };
@@ -0,0 +1,255 @@
+/**
+ * Typed API errors
+ * Server-side `RouteError` thrown from handlers/middleware, client-side `ApiError`
+ * built from the JSON error body both sides share
+ */
+
+import type { ZodType, z } from "zod";
+
+/**
+ * Declared error variant on a route
+ * e.g. NOT_FOUND: { status: 404, data: z.object({ id: z.string() }) }
+ */
+export interface RouteErrorDefinition {
+  status: number;
+  data?: ZodType;
+  /** Default message when the handler doesn't provide one */
+  message?: string;
+}
+
+/**
+ * Map of error codes to their declarations
+ */
+export type RouteErrors = Record<string, RouteErrorDefinition>;
+
+/**
+ * Route without declared errors
+ */
+export type NoRouteErrors = Record<never, RouteErrorDefinition>;
+
+/**
+ * Payload type of a declared error variant
+ */
+export type InferErrorData<TDefinition extends RouteErrorDefinition> =
+  TDefinition["data"] extends ZodType
+    ? z.infer<TDefinition["data"]>
+    : undefined;
+
+/**
+ * Error codes produced by the framework itself
+ */
+export type BuiltInErrorCode =
+  | "BAD_REQUEST"
+  | "LENGTH_REQUIRED"
+  | "PAYLOAD_TOO_LARGE"
+  | "VALIDATION_FAILED"
+  | "TOO_MANY_REQUESTS"
+  | "IDEMPOTENCY_KEY_IN_USE"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "INTERNAL_SERVER_ERROR"
+  | "CONNECTION_LOST";
+
+/**
+ * Input that failed validation
+ */
+export type ValidationSource = "params" | "query" | "body";
+
+/**
+ * Zod issue as sent over the wire
+ */
+export interface ApiIssue {
+  code: string;
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * JSON body of every API error response
+ */
+export interface ApiErrorBody {
+  /** Human-readable message */
+  error: string;
+  code: string;
+  data?: unknown;
+  /** Which input failed validation (VALIDATION_FAILED only) */
+  source?: ValidationSource;
+  issues?: ApiIssue[];
+}
+
+/**
+ * Error thrown on the server to produce a typed error response
+ * Prefer the handler's `error(code, data)` factory for declared variants
+ */
+export class RouteError<
+  TCode extends string = string,
+  TData = unknown,
+> extends Error {
+  readonly status: number;
+  readonly code: TCode;
+  readonly data: TData;
+  readonly source: ValidationSource | undefined;
+  readonly issues: ApiIssue[] | undefined;
+
+  constructor(
+    status: number,
+    code: TCode,
+    options: {
+      message?: string | undefined;
+      data?: TData;
+      source?: ValidationSource;
+      issues?: ApiIssue[];
+    } = {}
+  ) {
+    super(options.message ?? code);
+    this.name = "RouteError";
+    this.status = status;
+    this.code = code;
+    this.data = options.data as TData;
+    this.source = options.source;
+    this.issues = options.issues;
+  }
+
+  /**
+   * Serialize to the shared error body
+   */
+  toJSON(): ApiErrorBody {
+    const body: ApiErrorBody = { error: this.message, code: this.code };
+    if (this.data !== undefined) {
+      body.data = this.data;
+    }
+    if (this.source) {
+      body.source = this.source;
+    }
+    if (this.issues) {
+      body.issues = this.issues;
+    }
+    return body;
+  }
+
+  /**
+   * Build the HTTP response for this error
+   */
+  toResponse(): Response {
+    return Response.json(this.toJSON(), { status: this.status });
+  }
+}
+
+/**
+ * Normalize anything thrown on the server into a RouteError
+ * Unknown errors are logged and hidden behind INTERNAL_SERVER_ERROR
+ */
+export const toRouteError = (error: unknown): RouteError => {
+  if (error instanceof RouteError) {
+    return error;
+  }
+  console.error("API error:", error);
+  return new RouteError(500, "INTERNAL_SERVER_ERROR", {
+    message: "Internal server error",
+  });
+};
+
+/**
+ * Handler-side factory for declared errors: `throw error("NOT_FOUND", { id })`
+ */
+export type RouteErrorFactory<TErrors extends RouteErrors> = <
+  TCode extends Extract<keyof TErrors, string>,
+>(
+  code: TCode,
+  ...args: TErrors[TCode]["data"] extends ZodType
+    ? [data: InferErrorData<TErrors[TCode]>, message?: string]
+    : [data?: undefined, message?: string]
+) => RouteError<TCode, InferErrorData<TErrors[TCode]>>;
+
+/**
+ * Create the error factory for a route's declared errors
+ * Payloads are validated against the declared schema
+ */
+export const createRouteErrorFactory =
+  <TErrors extends RouteErrors>(errors: TErrors): RouteErrorFactory<TErrors> =>
+  (code, ...args) => {
+    const definition = errors[code];
+    if (!definition) {
+      return new RouteError(500, code, {
+        message: `Undeclared route error: ${code}`,
+      }) as never;
+    }
+    const [data, message] = args;
+    return new RouteError(definition.status, code, {
+      message: message ?? definition.message,
+      data: definition.data ? definition.data.parse(data) : undefined,
+    }) as never;
+  };
+
+/**
+ * Error received by the client for a failed API call
+ */
+export class ApiError<
+  TCode extends string = string,
+  TData = unknown,
+> extends Error {
+  readonly status: number;
+  readonly code: TCode;
+  readonly data: TData;
+  readonly source: ValidationSource | undefined;
+  readonly issues: ApiIssue[];
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(body.error);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = body.code as TCode;
+    this.data = body.data as TData;
+    this.source = body.source;
+    this.issues = body.issues ?? [];
+  }
+
+  /**
+   * Validation messages grouped by dotted field path, e.g. { "email": ["Invalid email"] }
+   * Issues without a path are grouped under "" (form-level errors)
+   */
+  fieldErrors(): Record<string, string[]> {
+    const fields: Record<string, string[]> = {};
+    for (const issue of this.issues) {
+      const field = issue.path.join(".");
+      fields[field] = [...(fields[field] ?? []), issue.message];
+    }
+    return fields;
+  }
+}
+
+/**
+ * Union of the ApiError variants a route can reject with
+ */
+export type InferApiError<TErrors extends RouteErrors> =
+  | {
+      [TCode in Extract<keyof TErrors, string>]: ApiError<
+        TCode,
+        InferErrorData<TErrors[TCode]>
+      >;
+    }[Extract<keyof TErrors, string>]
+  | ApiError<BuiltInErrorCode, undefined>;
+
+/**
+ * Type guard for client-side API errors
+ * Pass the route type for typed codes: isApiError<typeof api.routes.products.byId>(err)
+ */
+export const isApiError = <
+  TRoute extends { _errors: RouteErrors } = { _errors: RouteErrors },
+>(
+  error: unknown
+): error is InferApiError<TRoute["_errors"]> => error instanceof ApiError;
+
+/**
+ * Build an ApiError from a failed fetch response
+ * Non-JSON bodies (e.g. plain-text 405) fall back to an HTTP_<status> code
+ */
+export const toApiError = async (res: Response): Promise<ApiError> => {
+  const body = (await res
+    .json()
+    .catch(() => null)) as Partial<ApiErrorBody> | null;
+  return new ApiError(res.status, {
+    ...body,
+    error: body?.error ?? `HTTP ${res.status}`,
+    code: body?.code ?? `HTTP_${res.status}`,
+  });
+};
@@ -0,0 +1,66 @@
+import { expect, test } from "bun:test";
+import { z } from "zod";
+import {
+  createAPI,
+  deprecate,
+  mount,
+  route,
+  withCors,
+  withMiddleware,
+} from "./api";
+
+const ping = () =>
+  route({
+    method: "GET",
+    response: z.object({ ok: z.boolean() }),
+    handler: () => ({ ok: true }),
+  });
+
+const get = (path: string, headers?: HeadersInit) =>
+  new Request(`http://localhost/api${path}`, { headers: headers ?? {} });
+
+test("deprecating a subtree twice keeps the latest details", async () => {
+  const v1 = { ping: ping() };
+  deprecate({ link: "/docs/old" }, v1);
+  deprecate({ sunset: new Date("2027-01-01"), link: "/docs/v2" }, v1);
+  const api = createAPI({ v1 });
+
+  const res = await api.testFetch(get("/v1/ping"));
+  expect(res.headers.get("deprecation")).toBe("true");
+  expect(res.headers.get("sunset")).toBe("Fri, 01 Jan 2027 00:00:00 GMT");
+  expect(res.headers.get("link")).toBe('</docs/v2>; rel="deprecation"');
+});
+
+test("applying CORS and mount twice keeps the latest", async () => {
+  const partners = { ping: ping() };
+  withCors({ origin: ["https://old.test"] }, partners);
+  withCors({ origin: ["https://partner.test"] }, partners);
+  mount("/old", partners);
+  mount("/partners-v2", partners);
+  const api = createAPI({ partners });
+
+  const res = await api.testFetch(
+    get("/partners-v2/ping", { origin: "https://partner.test" })
+  );
+  expect(res.status).toBe(200);
+  expect(res.headers.get("access-control-allow-origin")).toBe(
+    "https://partner.test"
+  );
+});
+
+test("router middleware attached twice runs both chains in order", async () => {
+  const calls: string[] = [];
+  const admin = { ping: ping() };
+  withMiddleware(() => {
+    calls.push("auth");
+    return {};
+  }).router(admin);
+  withMiddleware(() => {
+    calls.push("audit");
+    return {};
+  }).router(admin);
+  const api = createAPI({ admin });
+
+  expect((await api.testFetch(get("/admin/ping"))).status).toBe(200);
+  expect(calls).toEqual(["auth", "audit"]);
+});
@@ -3,13 +3,166 @@
  * Provides tRPC-like type inference for API routes
  */
 
-import { type ZodType, z } from "zod";
+import type { Server, WebSocketHandler } from "bun";
+import type { ZodType, z } from "zod";
+import {
+  createRouteErrorFactory,
+  type NoRouteErrors,
+  RouteError,
+  type RouteErrorFactory,
+  type RouteErrors,
+  toRouteError,
+  type ValidationSource,
+} from "./api-errors";
+import { type BatchOptions, createBatchHandler } from "./batch";
+import {
+  buildCallRequest,
+  createRouterCaller,
+  type RouteCaller,
+  splitCallInput,
+  toCallError,
+  toCallEventStream,
+} from "./caller";
+import {
+  type AnyChannel,
+  type Channel,
+  type ChannelConfig,
+  type ChannelConnection,
+  type ChannelSocketData,
+  createChannel,
+  createChannelUpgradeHandler,
+  createChannelWebSocketHandler,
+  isChannel,
+  mountChannel,
+} from "./channel";
+import { inheritClientAddress, rememberClientAddress } from "./client-address";
+import type { ApiCallOptions } from "./client-fetch";
+import { applyCors, type CorsPolicy, optionsResponse } from "./cors";
+import {
+  applyDeprecation,
+  type DeprecatedOption,
+  type RouteDeprecation,
+  resolveDeprecation,
+} from "./deprecation";
+import { type BodyType, formDataToObject } from "./form-data";
+import {
+  IDEMPOTENT_KEY_METHODS,
+  type IdempotencyOptions,
+  runIdempotent,
+} from "./idempotency";
+import type { RoutePagination } from "./pagination";
+import {
+  generateOpenAPIDocument,
+  type OpenAPIDocument,
+  type OpenAPIOptions,
+} from "./openapi";
+import {
+  findSerializer,
+  jsonSerializer,
+  richSerializer,
+  type Serializer,
+} from "./serializer";
+import { decodeQuery } from "./query-string";
+import { type RateLimitOptions, rateLimit } from "./rate-limit";
+import {
+  type ResponseValidationMode,
+  validateResponse,
+} from "./response-validation";
+import {
+  createCachedBody,
+  getCachedBody,
+  type RouteCacheOptions,
+  responseCacheKey,
+  setCachedBody,
+  toCachedResponse,
+} from "./route-cache";
+import { createEventStreamResponse } from "./sse";
+import {
+  createTestClient,
+  createTestFetch,
+  type TestClientOptions,
+  type TestFetch,
+} from "./testing";
 
 /**
  * HTTP methods supported by API routes
  */
 export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
+/**
+ * Extract `:param` names from a path template
+ * e.g. "/orgs/:orgId/projects/:projectId" → "orgId" | "projectId"
+ */
+export type PathParamNames<TPath extends string> =
+  TPath extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<`/${Rest}`>
+    : TPath extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+/**
+ * Keys of the params schema (never when the route has no params)
+ */
+type ParamKeys<TParams extends ZodType | undefined> = TParams extends ZodType
+  ? Extract<keyof z.infer<TParams>, string>
+  : never;
+
+/**
+ * Type-level check that a path template and the params schema declare the same names
+ * Resolves to `unknown` when valid, otherwise to a `path` property carrying the mismatch
+ */
+type ValidatePathTemplate<
+  TPath extends string,
+  TParams extends ZodType | undefined,
+> = string extends TPath
+  ? unknown
+  : [PathParamNames<TPath>] extends [ParamKeys<TParams>]
+    ? [ParamKeys<TParams>] extends [PathParamNames<TPath>]
+      ? unknown
+      : {
+          path: `Path template is missing params: ${Exclude<ParamKeys<TParams>, PathParamNames<TPath>>}`;
+        }
+    : {
+        path: `Params schema is missing path params: ${Exclude<PathParamNames<TPath>, ParamKeys<TParams>>}`;
+      };
+
+/**
+ * API middleware function
+ * Receives the request and the context built so far, and either returns
+ * fields to add to the handler `ctx` or a Response to short-circuit the route
+ */
+export type ApiMiddleware<
+  TContextIn extends object = object,
+  TContextOut extends object = object,
+> = (opts: {
+  request: Request;
+  ctx: TContextIn;
+}) =>
+  | TContextOut
+  | Response
+  | undefined
+  | Promise<TContextOut | Response | undefined>;
+
+/**
+ * Arguments passed to a route handler
+ */
+export interface RouteHandlerContext<
+  TParams extends ZodType | undefined = undefined,
+  TQuery extends ZodType | undefined = undefined,
+  TBody extends ZodType | undefined = undefined,
+  TContext extends object = object,
+  TErrors extends RouteErrors = RouteErrors,
+> {
+  params: TParams extends ZodType ? z.infer<TParams> : undefined;
+  query: TQuery extends ZodType ? z.infer<TQuery> : undefined;
+  body: TBody extends ZodType ? z.infer<TBody> : undefined;
+  request: Request;
+  /** Fields added by the route's middleware */
+  ctx: TContext;
+  /** Create a declared error to throw: `throw error("NOT_FOUND", { id })` */
+  error: RouteErrorFactory<TErrors>;
+}
+
 /**
  * Route configuration with Zod schemas
  */
@@ -18,20 +171,79 @@ export interface RouteConfig<
   TQuery extends ZodType | undefined = undefined,
   TBody extends ZodType | undefined = undefined,
   TResponse extends ZodType = ZodType,
+  TContext extends object = object,
+  TErrors extends RouteErrors = RouteErrors,
 > {
   method: HttpMethod;
+  /**
+   * Optional path template relative to the API base path (or the enclosing `mount`)
+   * e.g. "/orgs/:orgId/projects/:projectId"
+   * When omitted, the path is derived from the router key (single param replaces the last segment)
+   */
+  path?: string;
   params?: TParams;
   query?: TQuery;
   body?: TBody;
+  /**
+   * Body encoding (default: "json")
+   * "form-data" accepts multipart/form-data; declare file fields with `z.file()`
+   */
+  bodyType?: BodyType;
+  /**
+   * Largest request body in bytes, checked against Content-Length before the body is read
+   * (413 PAYLOAD_TOO_LARGE; 411 LENGTH_REQUIRED without a Content-Length)
+   */
+  maxBodySize?: number;
   response: TResponse;
-  handler: (ctx: {
-    params: TParams extends ZodType ? z.infer<TParams> : undefined;
-    query: TQuery extends ZodType ? z.infer<TQuery> : undefined;
-    body: TBody extends ZodType ? z.infer<TBody> : undefined;
-    request: Request;
-  }) => Promise<z.infer<TResponse>> | z.infer<TResponse>;
+  /** Declared error variants, thrown via the handler's `error(code, data)` */
+  errors?: TErrors;
+  /** Throttle requests per key (client IP by default); runs before other middleware */
+  rateLimit?: RateLimitOptions;
+  /** HTTP caching for GET routes: Cache-Control, weak ETag / 304, optional server memoization */
+  cache?: RouteCacheOptions<
+    Pick<RouteHandlerContext<TParams, TQuery>, "params" | "query">
+  >;
+  /** Mark the route deprecated: responses carry Deprecation / Sunset headers */
+  deprecated?: DeprecatedOption;
+  /**
+   * Replay the first response per Idempotency-Key (POST, PUT and PATCH only)
+   * The API client sends a key with every call of the route
+   */
+  idempotency?: IdempotencyOptions | boolean;
+  handler: (
+    ctx: RouteHandlerContext<TParams, TQuery, TBody, TContext, TErrors>
+  ) => Promise<z.infer<TResponse>> | z.infer<TResponse>;
 }
 
+/**
+ * Streaming route configuration
+ * The handler is an async generator; each yielded value is validated against `event`
+ * and sent as a Server-Sent Event
+ */
+export interface StreamRouteConfig<
+  TParams extends ZodType | undefined = undefined,
+  TQuery extends ZodType | undefined = undefined,
+  TBody extends ZodType | undefined = undefined,
+  TEvent extends ZodType = ZodType,
+  TContext extends object = object,
+  TErrors extends RouteErrors = RouteErrors,
+> extends Omit<
+    RouteConfig<TParams, TQuery, TBody, TEvent, TContext, TErrors>,
+    "response" | "handler" | "idempotency"
+  > {
+  /** Schema of each streamed event */
+  event: TEvent;
+  /** Stops when the generator returns or the client disconnects (`request.signal` aborts) */
+  handler: (
+    ctx: RouteHandlerContext<TParams, TQuery, TBody, TContext, TErrors>
+  ) => AsyncIterable<z.infer<TEvent>>;
+}
+
+/**
+ * Route response kind: single JSON value or a Server-Sent Events stream
+ */
+export type RouteKind = "json" | "stream";
+
 /**
  * Branded route type for type inference
  */
@@ -41,87 +253,467 @@ export interface Route<
   TQuery extends ZodType | undefined = undefined,
   TBody extends ZodType | undefined = undefined,
   TResponse extends ZodType = ZodType,
+  TErrors extends RouteErrors = NoRouteErrors,
+  TEvent extends ZodType | undefined = undefined,
 > {
   _brand: "Route";
+  kind: RouteKind;
   _method: TMethod;
   _params: TParams;
   _query: TQuery;
   _body: TBody;
   _response: TResponse;
+  _errors: TErrors;
+  _event: TEvent;
   config: RouteConfig<TParams, TQuery, TBody, TResponse>;
+  /** Middleware run before the handler (in order) */
+  middlewares: ApiMiddleware[];
+  /** Page size limits of cursor-paginated routes (see paginatedRoute) */
+  pagination?: RoutePagination;
 }
 
 /**
- * Define a typed API route
+ * Build a branded route with its middleware chain
  */
-export const route = <
+const createRoute = <
   TMethod extends HttpMethod,
-  TParams extends ZodType | undefined = undefined,
-  TQuery extends ZodType | undefined = undefined,
-  TBody extends ZodType | undefined = undefined,
-  TResponse extends ZodType = ZodType,
+  TParams extends ZodType | undefined,
+  TQuery extends ZodType | undefined,
+  TBody extends ZodType | undefined,
+  TResponse extends ZodType,
+  TContext extends object,
+  TErrors extends RouteErrors,
 >(
-  config: RouteConfig<TParams, TQuery, TBody, TResponse> & { method: TMethod }
-): Route<TMethod, TParams, TQuery, TBody, TResponse> => ({
+  config: RouteConfig<TParams, TQuery, TBody, TResponse, TContext, TErrors> & {
+    method: TMethod;
+  },
+  middlewares: ApiMiddleware[]
+): Route<TMethod, TParams, TQuery, TBody, TResponse, TErrors> => ({
   _brand: "Route" as const,
+  kind: "json",
   _method: config.method,
   _params: config.params as TParams,
   _query: config.query as TQuery,
   _body: config.body as TBody,
   _response: config.response,
-  config,
+  _errors: (config.errors ?? {}) as TErrors,
+  _event: undefined,
+  // Context and error types are only relevant inside the handler - erase them on the route
+  config: config as unknown as RouteConfig<TParams, TQuery, TBody, TResponse>,
+  middlewares,
+});
+
+/**
+ * Build a branded streaming route with its middleware chain
+ * The event schema doubles as `config.response` so metadata/OpenAPI see it
+ */
+const createStreamRoute = <
+  TMethod extends HttpMethod,
+  TParams extends ZodType | undefined,
+  TQuery extends ZodType | undefined,
+  TBody extends ZodType | undefined,
+  TEvent extends ZodType,
+  TContext extends object,
+  TErrors extends RouteErrors,
+>(
+  config: StreamRouteConfig<
+    TParams,
+    TQuery,
+    TBody,
+    TEvent,
+    TContext,
+    TErrors
+  > & {
+    method: TMethod;
+  },
+  middlewares: ApiMiddleware[]
+): Route<TMethod, TParams, TQuery, TBody, TEvent, TErrors, TEvent> => ({
+  _brand: "Route" as const,
+  kind: "stream",
+  _method: config.method,
+  _params: config.params as TParams,
+  _query: config.query as TQuery,
+  _body: config.body as TBody,
+  _response: config.event,
+  _errors: (config.errors ?? {}) as TErrors,
+  _event: config.event,
+  config: {
+    ...config,
+    response: config.event,
+  } as unknown as RouteConfig<TParams, TQuery, TBody, TEvent>,
+  middlewares,
 });
 
 /**
- * Router shape - nested object of routes
+ * Define a typed API route
+ */
+export const route = <
+  TMethod extends HttpMethod,
+  TParams extends ZodType | undefined = undefined,
+  TQuery extends ZodType | undefined = undefined,
+  TBody extends ZodType | undefined = undefined,
+  TResponse extends ZodType = ZodType,
+  TPath extends string = string,
+  TErrors extends RouteErrors = NoRouteErrors,
+>(
+  config: RouteConfig<TParams, TQuery, TBody, TResponse, object, TErrors> & {
+    method: TMethod;
+    path?: TPath;
+  } & ValidatePathTemplate<TPath, TParams>
+): Route<TMethod, TParams, TQuery, TBody, TResponse, TErrors> =>
+  createRoute(config, []);
+
+/**
+ * Define a Server-Sent Events route
+ * Usage: streamRoute({ method: "GET", event: z.object(...), async *handler() { yield ... } })
+ */
+export const streamRoute = <
+  TMethod extends HttpMethod,
+  TParams extends ZodType | undefined = undefined,
+  TQuery extends ZodType | undefined = undefined,
+  TBody extends ZodType | undefined = undefined,
+  TEvent extends ZodType = ZodType,
+  TPath extends string = string,
+  TErrors extends RouteErrors = NoRouteErrors,
+>(
+  config: StreamRouteConfig<TParams, TQuery, TBody, TEvent, object, TErrors> & {
+    method: TMethod;
+    path?: TPath;
+  } & ValidatePathTemplate<TPath, TParams>
+): Route<TMethod, TParams, TQuery, TBody, TEvent, TErrors, TEvent> =>
+  createStreamRoute(config, []);
+
+/**
+ * Symbol under which subtree middleware is stored on a router object
+ * Non-enumerable, so it never shows up as a route key
+ */
+const ROUTER_MIDDLEWARE = Symbol.for("__apiRouterMiddleware");
+
+/**
+ * Read middleware attached to a router subtree
+ */
+const getRouterMiddlewares = (obj: object): ApiMiddleware[] =>
+  (obj as { [ROUTER_MIDDLEWARE]?: ApiMiddleware[] })[ROUTER_MIDDLEWARE] ?? [];
+
+/**
+ * Symbol under which a subtree CORS policy is stored on a router object
+ */
+const ROUTER_CORS = Symbol.for("__apiRouterCors");
+
+/**
+ * Read the CORS policy attached to a router subtree
+ */
+const getRouterCors = (obj: object): CorsPolicy | undefined =>
+  (obj as { [ROUTER_CORS]?: CorsPolicy })[ROUTER_CORS];
+
+/**
+ * Apply a CORS policy to a router subtree (overrides the API-wide policy)
+ * Applying another policy to the same subtree replaces it
+ * Usage: createAPI({ public: withCors({ origin: "*" }, { ... }) })
+ */
+export const withCors = <T extends RouterShape>(
+  policy: CorsPolicy,
+  routes: T
+): T => {
+  Object.defineProperty(routes, ROUTER_CORS, {
+    value: policy,
+    enumerable: false,
+    configurable: true,
+  });
+  return routes;
+};
+
+/**
+ * Symbol under which a subtree's mount path is stored on a router object
+ */
+const ROUTER_MOUNT = Symbol.for("__apiRouterMount");
+
+/**
+ * Mount a router under a URL prefix (relative to the enclosing router)
+ * The prefix replaces the router key in URLs, and the subtree's explicit path
+ * templates become relative to it; clients still call it by key
+ * Mounting the same subtree again replaces the prefix
+ * Usage: createAPI({ v1, v2: mount("/v2", v2) })
+ */
+export const mount = <T extends RouterShape>(path: string, routes: T): T => {
+  Object.defineProperty(routes, ROUTER_MOUNT, {
+    value: path === "/" ? "" : path,
+    enumerable: false,
+    configurable: true,
+  });
+  return routes;
+};
+
+/**
+ * Symbol under which a subtree deprecation is stored on a router object
+ */
+const ROUTER_DEPRECATION = Symbol.for("__apiRouterDeprecation");
+
+/**
+ * Read the deprecation attached to a router subtree
+ */
+const getRouterDeprecation = (obj: object): RouteDeprecation | undefined =>
+  (obj as { [ROUTER_DEPRECATION]?: RouteDeprecation })[ROUTER_DEPRECATION];
+
+/**
+ * Deprecate every route in a router subtree (routes can opt out with `deprecated: false`)
+ * Deprecating the same subtree again replaces the details
+ * Usage: createAPI({ v1: deprecate({ sunset: new Date("2027-01-01") }, v1) })
+ */
+export const deprecate = <T extends RouterShape>(
+  deprecation: RouteDeprecation,
+  routes: T
+): T => {
+  Object.defineProperty(routes, ROUTER_DEPRECATION, {
+    value: deprecation,
+    enumerable: false,
+    configurable: true,
+  });
+  return routes;
+};
+
+/**
+ * URL location of a router subtree, relative to the API base path
+ */
+export interface RouterLocation {
+  /** URL path derived from router keys and mounts, e.g. "/v2/products" */
+  urlPath: string;
+  /** Base of explicit path templates: the innermost mount path ("" at the root) */
+  mountPath: string;
+}
+
+/**
+ * Location of a router entry: mounted subtrees replace their key with the mount path
+ */
+export const childLocation = (
+  parent: RouterLocation,
+  key: string,
+  value: object
+): RouterLocation => {
+  const mounted = (value as { [ROUTER_MOUNT]?: string })[ROUTER_MOUNT];
+  if (mounted === undefined) {
+    return { urlPath: `${parent.urlPath}/${key}`, mountPath: parent.mountPath };
+  }
+  const urlPath = `${parent.urlPath}${mounted}`;
+  return { urlPath, mountPath: urlPath };
+};
+
+/**
+ * Route builder with a typed middleware chain
+ */
+export interface RouteBuilder<TContext extends object> {
+  /** Middleware in this builder's chain */
+  middlewares: ApiMiddleware[];
+  /** Append middleware; its returned fields are added to the handler `ctx` */
+  withMiddleware: <TContextOut extends object>(
+    middleware: ApiMiddleware<TContext, TContextOut>
+  ) => RouteBuilder<TContext & TContextOut>;
+  /** Define a route whose handler receives the typed `ctx` */
+  route: <
+    TMethod extends HttpMethod,
+    TParams extends ZodType | undefined = undefined,
+    TQuery extends ZodType | undefined = undefined,
+    TBody extends ZodType | undefined = undefined,
+    TResponse extends ZodType = ZodType,
+    TPath extends string = string,
+    TErrors extends RouteErrors = NoRouteErrors,
+  >(
+    config: RouteConfig<
+      TParams,
+      TQuery,
+      TBody,
+      TResponse,
+      TContext,
+      TErrors
+    > & {
+      method: TMethod;
+      path?: TPath;
+    } & ValidatePathTemplate<TPath, TParams>
+  ) => Route<TMethod, TParams, TQuery, TBody, TResponse, TErrors>;
+  /** Define a streaming route whose handler receives the typed `ctx` */
+  streamRoute: <
+    TMethod extends HttpMethod,
+    TParams extends ZodType | undefined = undefined,
+    TQuery extends ZodType | undefined = undefined,
+    TBody extends ZodType | undefined = undefined,
+    TEvent extends ZodType = ZodType,
+    TPath extends string = string,
+    TErrors extends RouteErrors = NoRouteErrors,
+  >(
+    config: StreamRouteConfig<
+      TParams,
+      TQuery,
+      TBody,
+      TEvent,
+      TContext,
+      TErrors
+    > & {
+      method: TMethod;
+      path?: TPath;
+    } & ValidatePathTemplate<TPath, TParams>
+  ) => Route<TMethod, TParams, TQuery, TBody, TEvent, TErrors, TEvent>;
+  /** Define a WebSocket channel whose callbacks receive the typed `ctx` */
+  channel: <
+    TQuery extends ZodType | undefined = undefined,
+    TClient extends ZodType = ZodType,
+    TServer extends ZodType = ZodType,
+  >(
+    config: ChannelConfig<TQuery, TClient, TServer, TContext>
+  ) => Channel<TQuery, TClient, TServer>;
+  /** Attach the middleware chain to every route in a router subtree, after any attached before */
+  router: <T extends RouterShape>(routes: T) => T;
+}
+
+/**
+ * Create a route builder from an existing middleware chain
+ */
+const createRouteBuilder = <TContext extends object>(
+  middlewares: ApiMiddleware[]
+): RouteBuilder<TContext> => ({
+  middlewares,
+  withMiddleware: <TContextOut extends object>(
+    middleware: ApiMiddleware<TContext, TContextOut>
+  ) =>
+    createRouteBuilder<TContext & TContextOut>([
+      ...middlewares,
+      middleware as unknown as ApiMiddleware,
+    ]),
+  route: (config) => createRoute(config, middlewares),
+  streamRoute: (config) => createStreamRoute(config, middlewares),
+  channel: (config) => createChannel(config, middlewares),
+  router: (routes) => {
+    Object.defineProperty(routes, ROUTER_MIDDLEWARE, {
+      value: [...getRouterMiddlewares(routes), ...middlewares],
+      enumerable: false,
+      configurable: true,
+    });
+    return routes;
+  },
+});
+
+/**
+ * Define API middleware (identity helper for type inference)
+ */
+export const defineApiMiddleware = <
+  TContextOut extends object,
+  TContextIn extends object = object,
+>(
+  middleware: ApiMiddleware<TContextIn, TContextOut>
+): ApiMiddleware<TContextIn, TContextOut> => middleware;
+
+/**
+ * Start a route builder with middleware
+ * Usage: const authed = withMiddleware(requireUser);
+ *        authed.route({ ..., handler: ({ ctx }) => ctx.user })
+ *        createAPI({ admin: authed.router({ ... }) })
+ */
+export const withMiddleware = <TContextOut extends object>(
+  middleware: ApiMiddleware<object, TContextOut>
+): RouteBuilder<TContextOut> =>
+  createRouteBuilder<object>([]).withMiddleware(middleware);
+
+/**
+ * Any route, regardless of its schemas
+ */
+export type AnyRoute = Route<
+  HttpMethod,
+  ZodType | undefined,
+  ZodType | undefined,
+  ZodType | undefined,
+  ZodType,
+  RouteErrors,
+  ZodType | undefined
+>;
+
+/**
+ * Router shape - nested object of routes and channels
  * Routes can have any combination of params, query, body
  */
 export type RouterShape = {
-  [key: string]:
-    | Route<
-        HttpMethod,
-        ZodType | undefined,
-        ZodType | undefined,
-        ZodType | undefined,
-        ZodType
-      >
-    | RouterShape;
+  [key: string]: AnyRoute | AnyChannel | RouterShape;
 };
 
 /**
- * Extract client call signature from a route
+ * Client-side handle for a streaming route
+ * Iterate with `for await`; `abort()` (or breaking out of the loop) closes the connection
+ */
+export interface ApiEventStream<TEvent> extends AsyncIterable<TEvent> {
+  abort: () => void;
+}
+
+/**
+ * Build client call signature from a route's inputs and a result type
+ * The optional second argument carries per-call HTTP options (signal, timeout, retry)
  */
-type RouteClientFn<R extends Route> = R["_params"] extends ZodType
+type RouteCallFn<R extends AnyRoute, TResult> = R["_params"] extends ZodType
   ? R["_body"] extends ZodType
-    ? (input: {
-        params: z.infer<R["_params"]>;
-        body: z.infer<R["_body"]>;
-      }) => Promise<z.infer<R["_response"]>>
-    : R["_query"] extends ZodType
-      ? (input: {
+    ? (
+        input: {
           params: z.infer<R["_params"]>;
-          query?: z.infer<R["_query"]>;
-        }) => Promise<z.infer<R["_response"]>>
-      : (input: {
-          params: z.infer<R["_params"]>;
-        }) => Promise<z.infer<R["_response"]>>
+          body: z.infer<R["_body"]>;
+        },
+        options?: ApiCallOptions
+      ) => TResult
+    : R["_query"] extends ZodType
+      ? (
+          input: {
+            params: z.infer<R["_params"]>;
+            query?: z.infer<R["_query"]>;
+          },
+          options?: ApiCallOptions
+        ) => TResult
+      : (
+          input: { params: z.infer<R["_params"]> },
+          options?: ApiCallOptions
+        ) => TResult
   : R["_body"] extends ZodType
-    ? (input: z.infer<R["_body"]>) => Promise<z.infer<R["_response"]>>
+    ? (input: z.infer<R["_body"]>, options?: ApiCallOptions) => TResult
     : R["_query"] extends ZodType
-      ? (input?: {
-          query?: z.infer<R["_query"]>;
-        }) => Promise<z.infer<R["_response"]>>
-      : () => Promise<z.infer<R["_response"]>>;
+      ? (
+          input?: { query?: z.infer<R["_query"]> },
+          options?: ApiCallOptions
+        ) => TResult
+      : (input?: undefined, options?: ApiCallOptions) => TResult;
+
+/**
+ * Extract client call signature from a route
+ * Streaming routes return an ApiEventStream instead of a Promise
+ */
+export type RouteClientFn<R extends AnyRoute> = R["_event"] extends ZodType
+  ? RouteCallFn<R, ApiEventStream<z.infer<R["_event"]>>>
+  : RouteCallFn<R, Promise<z.infer<R["_response"]>>>;
+
+/**
+ * Client call of a route; paginated routes also walk their pages with `.pages(input)`
+ */
+export type RouteClient<R extends AnyRoute> = R extends {
+  pagination: RoutePagination;
+}
+  ? RouteClientFn<R> & {
+      pages: RouteCallFn<R, AsyncGenerator<z.infer<R["_response"]>>>;
+    }
+  : RouteClientFn<R>;
+
+/**
+ * Extract client connect signature from a channel
+ */
+type ChannelClientFn<C extends AnyChannel> = (
+  options?: C["_query"] extends ZodType
+    ? { query?: z.input<C["_query"]> }
+    : never
+) => ChannelConnection<z.input<C["_client"]>, z.infer<C["_server"]>>;
 
 /**
  * Recursively transform router to client type
  */
 export type RouterClient<T extends RouterShape> = {
-  [K in keyof T]: T[K] extends Route
-    ? RouteClientFn<T[K]>
-    : T[K] extends RouterShape
-      ? RouterClient<T[K]>
-      : never;
+  [K in keyof T]: T[K] extends AnyRoute
+    ? RouteClient<T[K]>
+    : T[K] extends AnyChannel
+      ? ChannelClientFn<T[K]>
+      : T[K] extends RouterShape
+        ? RouterClient<T[K]>
+        : never;
 };
 
 /**
@@ -133,6 +725,10 @@ export interface RouteMetadata {
   hasParams: boolean;
   hasQuery: boolean;
   hasBody: boolean;
+  /** Server-Sent Events route (see streamRoute) */
+  stream: boolean;
+  /** Calls carry an Idempotency-Key (see RouteConfig.idempotency) */
+  idempotent: boolean;
 }
 
 /**
@@ -141,22 +737,87 @@ export interface RouteMetadata {
 interface FlattenedRoute {
   path: string;
   route: Route;
+  /** Subtree middleware followed by route middleware (deduplicated) */
+  middlewares: ApiMiddleware[];
+  /** Route or subtree deprecation */
+  deprecation: RouteDeprecation | undefined;
+}
+
+/**
+ * Flattened channel map entry
+ */
+interface FlattenedChannel {
+  path: string;
+  channel: AnyChannel;
+  /** Subtree middleware followed by channel middleware (deduplicated) */
+  middlewares: ApiMiddleware[];
 }
 
+/**
+ * HTTP handler for a route (the server is passed by Bun.serve, absent in batches)
+ */
+type RouteRequestHandler = (
+  req: Request,
+  server?: Server<unknown>
+) => Promise<Response>;
+
 /**
  * Bun.serve() route handler type
+ * Channel upgrade handlers also receive the server
  */
 type BunRouteHandler =
-  | ((req: Request) => Promise<Response>)
-  | Partial<Record<HttpMethod, (req: Request) => Promise<Response>>>;
+  | ((req: Request, server: Server<ChannelSocketData>) => Promise<Response>)
+  | RouteRequestHandler;
 
 /**
  * API instance returned by createAPI
  */
 export interface APIInstance<T extends RouterShape> {
   routes: T;
+  /** URL prefix of every route (default: "/api") */
+  basePath: string;
   clientMeta: RouteMetadata[];
   handlers: () => Record<string, BunRouteHandler>;
+  /** OpenAPI 3.1 document describing all routes */
+  openapi: () => OpenAPIDocument;
+  /** Bun.serve() `websocket` handler dispatching to the API's channels */
+  websocket: WebSocketHandler<ChannelSocketData>;
+  /**
+   * Typed caller invoking handlers in-process (same middleware and validation, no HTTP)
+   * Pass the incoming request so middleware sees its headers (auth, cookies)
+   */
+  createCaller: (request?: Request) => RouterClient<T>;
+  /**
+   * Dispatch a Request to the API's HTTP handlers in-memory (routing, CORS, HEAD/OPTIONS,
+   * middleware, validation), e.g. from `bun test`; channels aren't served
+   */
+  testFetch: TestFetch;
+  /** Typed client whose calls are encoded like the browser client's and sent through `testFetch` */
+  testClient: (options?: TestClientOptions) => RouterClient<T>;
+}
+
+/**
+ * Options for createAPI
+ */
+export interface CreateAPIOptions {
+  basePath?: string;
+  /** Serve an OpenAPI document at `${basePath}${openapi.path}` (default path: "/openapi.json") */
+  openapi?: OpenAPIOptions;
+  /** Serve a batch endpoint at `${basePath}${batch.path}` (default path: "/batch") */
+  batch?: BatchOptions;
+  /** CORS policy for every route (subtrees can override it with `withCors`) */
+  cors?: CorsPolicy;
+  /**
+   * Wire formats negotiated via Accept / Content-Type (default: [richSerializer])
+   * Plain JSON is always accepted
+   */
+  serializers?: Serializer[];
+  /**
+   * How handler results are checked against `response` (default: "strip")
+   * "strip" drops undeclared keys, "strict" rejects them, "off" sends results as they are;
+   * failures are logged and answered with 500
+   */
+  responseValidation?: ResponseValidationMode;
 }
 
 /**
@@ -170,14 +831,82 @@ const extractParamNames = (schema: ZodType): string[] => {
   return [];
 };
 
+/**
+ * Combine subtree and route middleware, keeping the first occurrence of each
+ * so a middleware shared by both only runs once
+ */
+const mergeMiddlewares = (
+  subtree: ApiMiddleware[],
+  own: ApiMiddleware[]
+): ApiMiddleware[] => [...new Set([...subtree, ...own])];
+
+/**
+ * Full middleware chain of a flattened route
+ * The route's own rate limit runs first, so throttled requests skip auth and parsing
+ */
+const routeMiddlewares = (
+  routeValue: Route,
+  finalPath: string,
+  subtree: ApiMiddleware[]
+): ApiMiddleware[] => {
+  const middlewares = mergeMiddlewares(subtree, routeValue.middlewares);
+  const { rateLimit: limit } = routeValue.config;
+  if (!limit) {
+    return middlewares;
+  }
+  const name = limit.name ?? `${routeValue.config.method} ${finalPath}`;
+  return [rateLimit({ ...limit, name }), ...middlewares];
+};
+
+/**
+ * Idempotency options of a route, if it handles Idempotency-Key
+ */
+export const routeIdempotency = (
+  routeValue: Pick<Route, "kind" | "config">
+): IdempotencyOptions | undefined => {
+  const { idempotency, method } = routeValue.config;
+  if (
+    !idempotency ||
+    routeValue.kind === "stream" ||
+    !IDEMPOTENT_KEY_METHODS.has(method)
+  ) {
+    return;
+  }
+  const options = idempotency === true ? {} : idempotency;
+  const { maxBodySize } = routeValue.config;
+  // Bodies are fingerprinted before parsing, so the route's own limit applies there too
+  return maxBodySize === undefined || options.maxBodySize !== undefined
+    ? options
+    : { ...options, maxBodySize };
+};
+
+/**
+ * Add deprecation headers to every response of a deprecated route
+ */
+const withDeprecation = (
+  handler: RouteRequestHandler,
+  deprecation: RouteDeprecation | undefined
+): RouteRequestHandler =>
+  deprecation
+    ? async (req, server) =>
+        applyDeprecation(await handler(req, server), deprecation)
+    : handler;
+
 /**
  * Build final path with param substitution
+ * Uses the route's explicit path template when set (relative to the enclosing mount),
+ * otherwise derives it from the router key
  */
-const buildPathWithParams = (
+export const buildPathWithParams = (
   basePath: string,
   currentPath: string,
-  routeConfig: RouteConfig
+  routeConfig: Pick<RouteConfig, "path" | "params">,
+  mountPath = ""
 ): string => {
+  if (routeConfig.path) {
+    return `${basePath}${mountPath}${routeConfig.path}`;
+  }
+
   const fullPath = `${basePath}${currentPath}`;
 
   if (!routeConfig.params) {
@@ -199,9 +928,20 @@ const buildPathWithParams = (
  */
 export const createAPI = <T extends RouterShape>(
   routes: T,
-  options?: { basePath?: string }
+  options?: CreateAPIOptions
 ): APIInstance<T> => {
   const basePath = options?.basePath ?? "/api";
+  const serializers = options?.serializers ?? [richSerializer];
+  const responseValidation = options?.responseValidation ?? "strip";
+
+  /**
+   * Check if value is a Route
+   */
+  const isRoute = (value: unknown): value is Route =>
+    value !== null &&
+    typeof value === "object" &&
+    "_brand" in value &&
+    value._brand === "Route";
 
   /**
    * Check if object contains method-named routes (GET, POST, etc.)
@@ -221,34 +961,113 @@ export const createAPI = <T extends RouterShape>(
     );
   };
 
+  /**
+   * Where a router subtree sits, and what its routes inherit
+   */
+  interface FlattenScope extends RouterLocation {
+    /** Router key path, e.g. "/products" ("" at the root) */
+    keyPath: string;
+    middlewares: ApiMiddleware[];
+    deprecation: RouteDeprecation | undefined;
+  }
+
+  /**
+   * Scope of a router subtree nested under `scope` at `key`
+   */
+  const childScope = (
+    scope: FlattenScope,
+    key: string,
+    obj: RouterShape
+  ): FlattenScope => ({
+    ...childLocation(scope, key, obj),
+    keyPath: `${scope.keyPath}/${key}`,
+    middlewares: [...scope.middlewares, ...getRouterMiddlewares(obj)],
+    deprecation: getRouterDeprecation(obj) ?? scope.deprecation,
+  });
+
+  /**
+   * Flatten a route served at the scope's URL path
+   */
+  const flattenRoute = (
+    routeValue: Route,
+    scope: FlattenScope
+  ): FlattenedRoute => {
+    const finalPath = buildPathWithParams(
+      basePath,
+      scope.urlPath,
+      routeValue.config,
+      scope.mountPath
+    );
+    return {
+      path: finalPath,
+      route: routeValue,
+      middlewares: routeMiddlewares(routeValue, finalPath, scope.middlewares),
+      deprecation: resolveDeprecation(
+        routeValue.config.deprecated,
+        scope.deprecation
+      ),
+    };
+  };
+
   /**
    * Flatten method-grouped routes (same path, different methods)
    */
   const flattenMethodGrouped = (
     methodObj: RouterShape,
-    currentPath: string,
-    targetMap: Map<string, FlattenedRoute>
+    targetMap: Map<string, FlattenedRoute>,
+    scope: FlattenScope
   ): void => {
+    registerCorsScope(methodObj, scope.keyPath);
     for (const [methodKey, methodRoute] of Object.entries(methodObj)) {
-      if (
-        methodRoute &&
-        "_brand" in methodRoute &&
-        methodRoute._brand === "Route"
-      ) {
-        const routeValue = methodRoute as Route;
-        const finalPath = buildPathWithParams(
-          basePath,
-          currentPath, // Use currentPath which is the route path without method
-          routeValue.config
+      if (isRoute(methodRoute)) {
+        // Store with method in the key for grouping later
+        targetMap.set(
+          `${scope.keyPath}:${methodKey}`,
+          flattenRoute(methodRoute, scope)
         );
+      }
+    }
+  };
 
-        // Store with method in the key for grouping later
-        targetMap.set(`${currentPath}:${methodKey}`, {
-          path: finalPath,
-          route: routeValue,
-        });
+  /**
+   * Channels keyed by their full path
+   */
+  const channelMap = new Map<string, FlattenedChannel>();
+
+  /**
+   * CORS policies keyed by the router key path they apply to ("" = whole API)
+   */
+  const corsScopes = new Map<string, CorsPolicy>();
+  if (options?.cors) {
+    corsScopes.set("", options.cors);
+  }
+
+  /**
+   * Remember a subtree's CORS policy
+   */
+  const registerCorsScope = (obj: RouterShape, keyPath: string): void => {
+    const policy = getRouterCors(obj);
+    if (policy) {
+      corsScopes.set(keyPath, policy);
+    }
+  };
+
+  /**
+   * Most specific CORS policy for a route key path ("/products/list", "/hello:GET")
+   */
+  const corsFor = (keyPath: string): CorsPolicy | undefined => {
+    let match: [string, CorsPolicy] | undefined;
+    for (const [scope, policy] of corsScopes) {
+      const applies =
+        scope === "" ||
+        keyPath === scope ||
+        keyPath.startsWith(`${scope}/`) ||
+        keyPath.startsWith(`${scope}:`);
+      if (applies && (!match || scope.length > match[0].length)) {
+        match = [scope, policy];
       }
     }
+    return match?.[1];
   };
 
   /**
@@ -257,37 +1076,78 @@ export const createAPI = <T extends RouterShape>(
   const flattenRoutes = (
     obj: RouterShape,
     targetMap: Map<string, FlattenedRoute>,
-    prefix = ""
+    scope: FlattenScope
   ): void => {
+    registerCorsScope(obj, scope.keyPath);
     for (const [key, value] of Object.entries(obj)) {
       if (!value) {
         continue;
       }
 
-      const currentPath = `${prefix}/${key}`;
-
-      if ("_brand" in value && value._brand === "Route") {
+      if (isChannel(value)) {
+        // WebSocket channel - served at its key path
+        const channelPath = `${basePath}${childLocation(scope, key, value).urlPath}`;
+        mountChannel(value, channelPath, serializers);
+        channelMap.set(channelPath, {
+          path: channelPath,
+          channel: value,
+          middlewares: mergeMiddlewares(scope.middlewares, value.middlewares),
+        });
+      } else if (isRoute(value)) {
         // It's a single route
-        const routeValue = value as Route;
-        const finalPath = buildPathWithParams(
-          basePath,
-          currentPath,
-          routeValue.config
-        );
-
-        targetMap.set(currentPath, { path: finalPath, route: routeValue });
+        const routeScope = childScope(scope, key, {});
+        targetMap.set(routeScope.keyPath, flattenRoute(value, routeScope));
       } else if (isMethodGrouped(value as RouterShape)) {
         // It's a method-grouped object (GET, PUT, etc.) - routes share the same path
-        flattenMethodGrouped(value as RouterShape, currentPath, targetMap);
+        flattenMethodGrouped(
+          value as RouterShape,
+          targetMap,
+          childScope(scope, key, value as RouterShape)
+        );
       } else {
         // Nested router shape - recurse
-        flattenRoutes(value as RouterShape, targetMap, currentPath);
+        flattenRoutes(
+          value as RouterShape,
+          targetMap,
+          childScope(scope, key, value as RouterShape)
+        );
       }
     }
   };
 
   const routeMap = new Map<string, FlattenedRoute>();
-  flattenRoutes(routes, routeMap);
+  flattenRoutes(routes, routeMap, {
+    urlPath: "",
+    mountPath: "",
+    keyPath: "",
+    middlewares: getRouterMiddlewares(routes),
+    deprecation: getRouterDeprecation(routes),
+  });
+
+  /**
+   * Validate one request input, tagging failures with the input they came from
+   */
+  const validateInput = (
+    schema: ZodType,
+    value: unknown,
+    source: ValidationSource
+  ): unknown => {
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return result.data;
+    }
+    throw new RouteError(400, "VALIDATION_FAILED", {
+      message: "Validation failed",
+      source,
+      issues: result.error.issues.map((issue) => ({
+        code: issue.code,
+        path: issue.path.map((segment) =>
+          typeof segment === "number" ? segment : String(segment)
+        ),
+        message: issue.message,
+      })),
+    });
+  };
 
   /**
    * Parse request params
@@ -301,7 +1161,7 @@ export const createAPI = <T extends RouterShape>(
     }
     const rawParams =
       (req as Request & { params?: Record<string, string> }).params ?? {};
-    return paramsSchema.parse(rawParams);
+    return validateInput(paramsSchema, rawParams, "params");
   };
 
   /**
@@ -311,8 +1171,56 @@ export const createAPI = <T extends RouterShape>(
     if (!querySchema) {
       return;
     }
-    const queryObj = Object.fromEntries(url.searchParams);
-    return querySchema.parse(queryObj);
+    const queryObj = decodeQuery(url.searchParams, querySchema);
+    return validateInput(querySchema, queryObj, "query");
+  };
+
+  /**
+   * Parse multipart/form-data (or urlencoded) request body
+   */
+  const parseFormBody = async (
+    req: Request,
+    bodySchema: ZodType
+  ): Promise<unknown> => {
+    const contentType = req.headers.get("content-type");
+    if (
+      !(
+        contentType?.includes("multipart/form-data") ||
+        contentType?.includes("application/x-www-form-urlencoded")
+      )
+    ) {
+      throw new RouteError(400, "BAD_REQUEST", {
+        message: "Content-Type must be multipart/form-data",
+      });
+    }
+    const formData = await req.formData().catch(() => {
+      throw new RouteError(400, "BAD_REQUEST", {
+        message: "Malformed form data body",
+      });
+    });
+    return validateInput(
+      bodySchema,
+      formDataToObject(formData, bodySchema),
+      "body"
+    );
+  };
+
+  /**
+   * Reject a body larger than `maxBodySize` before reading it
+   */
+  const checkBodySize = (req: Request, maxBodySize: number): void => {
+    const contentLength = req.headers.get("content-length");
+    if (contentLength === null) {
+      throw new RouteError(411, "LENGTH_REQUIRED", {
+        message: "Content-Length is required",
+      });
+    }
+    const size = Number(contentLength);
+    if (!Number.isFinite(size) || size > maxBodySize) {
+      throw new RouteError(413, "PAYLOAD_TOO_LARGE", {
+        message: `Request body exceeds ${maxBodySize} bytes`,
+      });
+    }
   };
 
   /**
@@ -320,79 +1228,268 @@ export const createAPI = <T extends RouterShape>(
    */
   const parseBody = async (
     req: Request,
-    bodySchema?: ZodType
+    bodySchema?: ZodType,
+    bodyType: BodyType = "json",
+    maxBodySize?: number
   ): Promise<unknown | undefined> => {
     if (!bodySchema || req.method === "GET") {
       return;
     }
-    const contentType = req.headers.get("content-type");
-    if (!contentType?.includes("application/json")) {
-      throw new Error("Content-Type must be application/json");
+    if (maxBodySize !== undefined) {
+      checkBodySize(req, maxBodySize);
+    }
+    if (bodyType === "form-data") {
+      return await parseFormBody(req, bodySchema);
+    }
+    const serializer = findSerializer(
+      [...serializers, jsonSerializer],
+      req.headers.get("content-type")
+    );
+    if (!serializer) {
+      throw new RouteError(400, "BAD_REQUEST", {
+        message: "Content-Type must be application/json",
+      });
+    }
+    const decoded = await req
+      .text()
+      .then(serializer.parse)
+      .catch(() => {
+        throw new RouteError(400, "BAD_REQUEST", {
+          message: "Malformed JSON body",
+        });
+      });
+    return validateInput(bodySchema, decoded, "body");
+  };
+
+  /**
+   * Response format the client accepts (plain JSON by default)
+   */
+  const responseSerializer = (req: Request): Serializer =>
+    findSerializer(serializers, req.headers.get("accept")) ?? jsonSerializer;
+
+  /**
+   * Serialize a handler result in the negotiated format
+   */
+  const serializeResponse = (req: Request, value: unknown): Response => {
+    const serializer = responseSerializer(req);
+    return new Response(serializer.stringify(value), {
+      headers: { "Content-Type": serializer.contentType, Vary: "Accept" },
+    });
+  };
+
+  /**
+   * Memoized response of a cacheable route if still fresh, with the key a new one is memoized
+   * under (both undefined when the route has no ttl)
+   */
+  const lookupCachedResponse = async (
+    req: Request,
+    cache: RouteCacheOptions | undefined
+  ): Promise<{ memoKey?: string; response?: Response | undefined }> => {
+    if (!cache?.ttl) {
+      return {};
+    }
+    const scope = await cache.scope(req);
+    const memoKey = responseCacheKey(
+      req,
+      responseSerializer(req).contentType,
+      scope
+    );
+    const cached = getCachedBody(memoKey);
+    return {
+      memoKey,
+      response: cached && toCachedResponse(req, cached, cache),
+    };
+  };
+
+  /**
+   * Serialize a cacheable route's result with an ETag, memoizing it under `memoKey`
+   */
+  const respondCached = (
+    req: Request,
+    value: unknown,
+    cache: RouteCacheOptions,
+    {
+      memoKey,
+      ...input
+    }: { params: unknown; query: unknown; memoKey: string | undefined }
+  ): Response => {
+    const serializer = responseSerializer(req);
+    const cached = createCachedBody(
+      serializer.stringify(value),
+      serializer.contentType
+    );
+    if (cache.ttl && memoKey !== undefined) {
+      const tags =
+        typeof cache.tags === "function" ? cache.tags(input) : cache.tags;
+      setCachedBody(memoKey, cached, cache.ttl, tags ?? []);
     }
-    const json = await req.json();
-    return bodySchema.parse(json);
+    return toCachedResponse(req, cached, cache);
   };
 
   /**
    * Handle API errors
+   * Every failure is serialized as an ApiErrorBody ({ error, code, data?, issues? })
    */
   const handleError = (error: unknown): Response => {
     if (error instanceof Response) {
       return error;
     }
-    if (error instanceof z.ZodError) {
-      return Response.json(
-        { error: "Validation failed", issues: error.issues },
-        { status: 400 }
+    return toRouteError(error).toResponse();
+  };
+
+  /**
+   * Run middleware chain, accumulating context
+   * Returns a Response if any middleware short-circuits
+   */
+  const runMiddlewares = async (
+    req: Request,
+    middlewares: ApiMiddleware[]
+  ): Promise<{ ctx: object } | Response> => {
+    let ctx: object = {};
+    for (const middleware of middlewares) {
+      const result = await middleware({ request: req, ctx });
+      if (result instanceof Response) {
+        return result;
+      }
+      if (result) {
+        ctx = { ...ctx, ...result };
+      }
+    }
+    return { ctx };
+  };
+
+  /**
+   * Turn a handler result into the route's response
+   * Streams become Server-Sent Events; values are validated (see responseValidation)
+   * and serialized
+   */
+  const toRouteResponse = (
+    req: Request,
+    { path: routePath, route: routeValue }: FlattenedRoute,
+    handlerResult: unknown,
+    {
+      cache,
+      ...input
+    }: {
+      cache: RouteCacheOptions | undefined;
+      params: unknown;
+      query: unknown;
+      memoKey: string | undefined;
+    }
+  ): Response => {
+    // Streaming routes: handler returned an async iterable of events
+    if (routeValue.kind === "stream") {
+      return createEventStreamResponse(
+        handlerResult as AsyncIterable<unknown>,
+        routeValue.config.response,
+        responseSerializer(req)
       );
     }
-    console.error("API error:", error);
-    return Response.json({ error: "Internal server error" }, { status: 500 });
+
+    const output = validateResponse(
+      routeValue.config.response,
+      handlerResult,
+      responseValidation,
+      `${routeValue.config.method} ${routePath}`
+    );
+
+    if (cache) {
+      return respondCached(req, output, cache, input);
+    }
+    return serializeResponse(req, output);
   };
 
   /**
    * Build handler for a single route
    */
   const buildRouteHandler = (
-    routeValue: Route
-  ): ((req: Request) => Promise<Response>) => {
-    return async (req: Request) => {
-      const { config } = routeValue;
-
-      // Only handle matching HTTP method
-      if (req.method !== config.method) {
-        return new Response("Method not allowed", { status: 405 });
-      }
+    flattened: FlattenedRoute
+  ): RouteRequestHandler => {
+    const { route: routeValue, middlewares } = flattened;
+    const { config } = routeValue;
+    const errorFactory = createRouteErrorFactory(config.errors ?? {});
+    // Only single-value GET responses are cacheable
+    const cache =
+      config.method === "GET" && routeValue.kind === "json"
+        ? (config.cache as RouteCacheOptions | undefined)
+        : undefined;
+    const idempotency = routeIdempotency(routeValue);
 
+    /**
+     * Parse inputs, run the handler and build its response
+     */
+    const respond = async (
+      req: Request,
+      ctx: object,
+      memoKey?: string
+    ): Promise<Response> => {
       try {
         const url = new URL(req.url);
 
         // Parse all inputs
         const params = parseParams(req, config.params);
         const query = parseQuery(url, config.query);
-        const body = await parseBody(req, config.body).catch((error) => {
-          if (
-            error instanceof Error &&
-            error.message.includes("Content-Type")
-          ) {
-            return Promise.reject(new Response(error.message, { status: 400 }));
-          }
-          return Promise.reject(error);
-        });
+        const body = await parseBody(
+          req,
+          config.body,
+          config.bodyType,
+          config.maxBodySize
+        );
 
         const handlerResult = await config.handler({
           params: params as never,
           query: query as never,
           body: body as never,
           request: req,
+          ctx,
+          error: errorFactory,
         });
 
-        // Validate response in dev
-        if (process.env.NODE_ENV !== "production") {
-          config.response.parse(handlerResult);
+        return toRouteResponse(req, flattened, handlerResult, {
+          cache,
+          params,
+          query,
+          memoKey,
+        });
+      } catch (error) {
+        return handleError(error);
+      }
+    };
+
+    return async (req: Request, server?: Server<unknown>) => {
+      // Only handle matching HTTP method
+      if (req.method !== config.method) {
+        return new Response("Method not allowed", { status: 405 });
+      }
+
+      // Middleware (e.g. rate limiting) reads the client address from the request
+      rememberClientAddress(req, server);
+
+      try {
+        // Middleware runs before input parsing (e.g. auth before validation)
+        const middlewareResult = await runMiddlewares(req, middlewares);
+        if (middlewareResult instanceof Response) {
+          return middlewareResult;
         }
 
-        return Response.json(handlerResult);
+        // Memoized responses skip the handler, so they are keyed by the route's scope too
+        const { memoKey, response: memoized } = await lookupCachedResponse(
+          req,
+          cache
+        );
+        if (memoized) {
+          return memoized;
+        }
+
+        // Keys are checked after middleware, so replays need the same auth
+        return idempotency
+          ? await runIdempotent(
+              req,
+              idempotency,
+              `${config.method} ${flattened.path}`,
+              () => respond(req, middlewareResult.ctx, memoKey)
+            )
+          : await respond(req, middlewareResult.ctx, memoKey);
       } catch (error) {
         return handleError(error);
       }
@@ -400,59 +1497,193 @@ export const createAPI = <T extends RouterShape>(
   };
 
   /**
-   * Group routes by path
-   * Handles method-grouped routes (routes with same path, different methods)
+   * Build an in-process caller for a single route
+   * Inputs go through the same middleware and validation as over HTTP;
+   * failures reject with the ApiError the HTTP client would have thrown
    */
-  const groupRoutesByPath = (): Map<
-    string,
-    Map<HttpMethod, (req: Request) => Promise<Response>>
-  > => {
-    const routesByPath = new Map<
-      string,
-      Map<HttpMethod, (req: Request) => Promise<Response>>
-    >();
+  const buildRouteCaller = (
+    { path: routePath, route: routeValue, middlewares }: FlattenedRoute,
+    request: Request | undefined
+  ): RouteCaller => {
+    const { config } = routeValue;
+    const errorFactory = createRouteErrorFactory(config.errors ?? {});
+
+    const invoke = async (input: unknown): Promise<unknown> => {
+      const inputs = splitCallInput(input);
+      const req = buildCallRequest(request, config.method, routePath, inputs);
+      try {
+        const middlewareResult = await runMiddlewares(req, middlewares);
+        if (middlewareResult instanceof Response) {
+          throw middlewareResult;
+        }
+        const body =
+          config.body && config.method !== "GET"
+            ? validateInput(config.body, inputs.body, "body")
+            : undefined;
+        const handlerResult = await config.handler({
+          params: parseParams(req, config.params) as never,
+          query: parseQuery(new URL(req.url), config.query) as never,
+          body: body as never,
+          request: req,
+          ctx: middlewareResult.ctx,
+          error: errorFactory,
+        });
+        if (routeValue.kind === "stream") {
+          return handlerResult;
+        }
+        return validateResponse(
+          config.response,
+          handlerResult,
+          responseValidation,
+          `${config.method} ${routePath}`
+        );
+      } catch (error) {
+        throw await toCallError(error);
+      }
+    };
 
-    for (const [, { path: routePath, route: routeValue }] of routeMap) {
-      const method = routeValue.config.method;
+    if (routeValue.kind === "stream") {
+      return (input) =>
+        toCallEventStream(
+          () => invoke(input) as Promise<AsyncIterable<unknown>>,
+          config.response
+        );
+    }
+    return invoke;
+  };
+
+  /**
+   * Create a typed in-process caller (one per incoming request)
+   */
+  const createCaller = (request?: Request): RouterClient<T> => {
+    const callers = new Map<string, RouteCaller>();
+    for (const [keyPath, flattened] of routeMap) {
+      callers.set(keyPath, buildRouteCaller(flattened, request));
+    }
+    return createRouterCaller(routes, (keyPath) =>
+      callers.get(keyPath)
+    ) as RouterClient<T>;
+  };
 
-      if (!routesByPath.has(routePath)) {
-        routesByPath.set(routePath, new Map());
+  /**
+   * Build the upgrade handler for a channel
+   * Middleware and query validation run on the upgrade request, before the socket opens
+   */
+  const buildChannelHandler = ({
+    path: channelPath,
+    channel: channelValue,
+    middlewares,
+  }: FlattenedChannel) =>
+    createChannelUpgradeHandler(channelValue, channelPath, async (req) => {
+      if (req.method !== "GET") {
+        return new Response("Method not allowed", { status: 405 });
       }
-      const methodMap = routesByPath.get(routePath);
-      if (methodMap) {
-        methodMap.set(method, buildRouteHandler(routeValue));
+      try {
+        const middlewareResult = await runMiddlewares(req, middlewares);
+        if (middlewareResult instanceof Response) {
+          return middlewareResult;
+        }
+        const query = parseQuery(new URL(req.url), channelValue.config.query);
+        return { channelId: channelPath, ctx: middlewareResult.ctx, query };
+      } catch (error) {
+        return handleError(error);
       }
+    });
+
+  /**
+   * Route handlers of one URL path, keyed by HTTP method
+   */
+  interface PathRoutes {
+    methods: Map<string, RouteRequestHandler>;
+    cors: CorsPolicy | undefined;
+  }
+
+  /**
+   * Group routes by path
+   * Handles method-grouped routes (routes with same path, different methods)
+   */
+  const groupRoutesByPath = (): Map<string, PathRoutes> => {
+    const routesByPath = new Map<string, PathRoutes>();
+
+    for (const [keyPath, flattened] of routeMap) {
+      const routePath = flattened.path;
+      const pathRoutes = routesByPath.get(routePath) ?? {
+        methods: new Map(),
+        cors: corsFor(keyPath),
+      };
+      pathRoutes.methods.set(
+        flattened.route.config.method,
+        withDeprecation(buildRouteHandler(flattened), flattened.deprecation)
+      );
+      routesByPath.set(routePath, pathRoutes);
     }
 
     return routesByPath;
   };
 
   /**
-   * Build handler for single method route
+   * Answer HEAD from the GET handler, without the body
    */
-  const buildSingleMethodHandler = (
-    methods: Map<HttpMethod, (req: Request) => Promise<Response>>
-  ): ((req: Request) => Promise<Response>) => {
-    const handler = methods.values().next().value;
-    if (!handler) {
-      throw new Error("No handler found for route");
-    }
-    return handler;
+  const respondToHead = async (
+    req: Request,
+    server: Server<unknown> | undefined,
+    getHandler: RouteRequestHandler
+  ): Promise<Response> => {
+    rememberClientAddress(req, server);
+    const getRequest = Object.assign(new Request(req, { method: "GET" }), {
+      params: (req as Request & { params?: Record<string, string> }).params,
+    });
+    inheritClientAddress(req, getRequest);
+    const response = await getHandler(getRequest, server);
+    return new Response(null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
   };
 
   /**
-   * Build handler for multi-method route
+   * Build the handler for one path
+   * Dispatches by method, answers HEAD from GET and OPTIONS with the allowed methods
+   * (and CORS preflight), and applies the path's CORS policy to every response
    */
-  const buildMultiMethodHandler = (
-    methods: Map<HttpMethod, (req: Request) => Promise<Response>>
-  ): Partial<Record<HttpMethod, (req: Request) => Promise<Response>>> => {
-    const methodHandlers: Partial<
-      Record<HttpMethod, (req: Request) => Promise<Response>>
-    > = {};
-    for (const [method, handler] of methods) {
-      methodHandlers[method] = handler;
-    }
-    return methodHandlers;
+  const buildPathHandler = ({
+    methods,
+    cors,
+  }: PathRoutes): RouteRequestHandler => {
+    const getHandler = methods.get("GET");
+    const allowedMethods = [
+      ...methods.keys(),
+      ...(getHandler && !methods.has("HEAD") ? ["HEAD"] : []),
+      "OPTIONS",
+    ];
+
+    const dispatch = (
+      req: Request,
+      server: Server<unknown> | undefined
+    ): Promise<Response> => {
+      const handler = methods.get(req.method);
+      if (handler) {
+        return handler(req, server);
+      }
+      if (req.method === "HEAD" && getHandler) {
+        return respondToHead(req, server, getHandler);
+      }
+      return Promise.resolve(
+        new Response("Method not allowed", {
+          status: 405,
+          headers: { Allow: allowedMethods.join(", ") },
+        })
+      );
+    };
+
+    return async (req, server) => {
+      if (req.method === "OPTIONS") {
+        return optionsResponse(req, allowedMethods, cors);
+      }
+      const response = await dispatch(req, server);
+      return cors ? applyCors(response, cors, req) : response;
+    };
   };
 
   /**
@@ -463,19 +1694,128 @@ export const createAPI = <T extends RouterShape>(
     const routesByPath = groupRoutesByPath();
     const handlerMap: Record<string, BunRouteHandler> = {};
 
-    for (const [path, methods] of routesByPath) {
-      // If only one method, use simple handler
-      if (methods.size === 1) {
-        handlerMap[path] = buildSingleMethodHandler(methods);
-      } else {
-        // Multiple methods - create method-specific object
-        handlerMap[path] = buildMultiMethodHandler(methods);
-      }
+    for (const [path, pathRoutes] of routesByPath) {
+      handlerMap[path] = buildPathHandler(pathRoutes);
+    }
+
+    for (const flattenedChannel of channelMap.values()) {
+      handlerMap[flattenedChannel.path] = buildChannelHandler(flattenedChannel);
+    }
+
+    if (options?.batch) {
+      const batchPath = `${basePath}${options.batch.path ?? "/batch"}`;
+      const batchHandler = createBatchHandler(
+        [...routeMap.values()].map((flattened) => ({
+          path: flattened.path,
+          method: flattened.route.config.method,
+          stream: flattened.route.kind === "stream",
+          handler: withDeprecation(
+            buildRouteHandler(flattened),
+            flattened.deprecation
+          ),
+        })),
+        options.batch
+      );
+      handlerMap[batchPath] = buildPathHandler({
+        methods: new Map([["POST", batchHandler]]),
+        cors: corsFor(""),
+      });
+    }
+
+    if (options?.openapi) {
+      const openapiPath = `${basePath}${options.openapi.path ?? "/openapi.json"}`;
+      handlerMap[openapiPath] = buildPathHandler({
+        methods: new Map([
+          ["GET", () => Promise.resolve(Response.json(openapi()))],
+        ]),
+        cors: corsFor(""),
+      });
     }
 
     return handlerMap;
   };
 
+  /**
+   * In-memory dispatcher over the HTTP handlers (built on first use)
+   */
+  let testHandlers: TestFetch | null = null;
+  const testFetch: TestFetch = (request) => {
+    if (!testHandlers) {
+      const handlerMap = handlers();
+      for (const channelPath of channelMap.keys()) {
+        delete handlerMap[channelPath];
+      }
+      testHandlers = createTestFetch(
+        handlerMap as Record<string, (req: Request) => Promise<Response>>
+      );
+    }
+    return testHandlers(request);
+  };
+
+  /**
+   * Create a typed client backed by testFetch
+   */
+  const testClient = (testOptions?: TestClientOptions): RouterClient<T> =>
+    createTestClient(
+      routes,
+      new Map(
+        [...routeMap].map(
+          ([keyPath, { path: routePath, route: routeValue }]) => [
+            keyPath,
+            {
+              path: routePath,
+              method: routeValue.config.method,
+              stream: routeValue.kind === "stream",
+              idempotent: routeIdempotency(routeValue) !== undefined,
+            },
+          ]
+        )
+      ),
+      testFetch,
+      testOptions
+    ) as RouterClient<T>;
+
+  /**
+   * Idempotency-Key documentation of a route
+   */
+  const idempotencyDoc = (
+    routeValue: Route
+  ): { required: boolean } | undefined => {
+    const idempotency = routeIdempotency(routeValue);
+    return idempotency && { required: idempotency.required ?? false };
+  };
+
+  /**
+   * Build OpenAPI document (cached after first call)
+   */
+  let openapiDocument: OpenAPIDocument | null = null;
+  const openapi = (): OpenAPIDocument => {
+    if (!openapiDocument) {
+      openapiDocument = generateOpenAPIDocument(
+        [...routeMap].map(
+          ([key, { path: routePath, route: routeValue, deprecation }]) => ({
+            // "/products/byId" → "products.byId", "/hello:GET" → "hello.GET"
+            operationId: key.slice(1).replace(/[/:]/g, "."),
+            path: routePath,
+            method: routeValue.config.method,
+            params: routeValue.config.params,
+            query: routeValue.config.query,
+            body: routeValue.config.body,
+            bodyType: routeValue.config.bodyType,
+            response: routeValue.config.response,
+            errors: routeValue.config.errors,
+            stream: routeValue.kind === "stream",
+            rateLimited: routeValue.config.rateLimit !== undefined,
+            deprecated: deprecation !== undefined,
+            idempotency: idempotencyDoc(routeValue),
+          })
+        ),
+        options?.openapi
+      );
+    }
+    return openapiDocument;
+  };
+
   /**
    * Build client metadata
    */
@@ -487,12 +1827,27 @@ export const createAPI = <T extends RouterShape>(
       hasParams: metaRoute.config.params !== undefined,
       hasQuery: metaRoute.config.query !== undefined,
       hasBody: metaRoute.config.body !== undefined,
+      stream: metaRoute.kind === "stream",
+      idempotent: routeIdempotency(metaRoute) !== undefined,
     });
   }
 
   return {
     routes,
+    basePath,
     clientMeta,
     handlers,
+    openapi,
+    createCaller,
+    testFetch,
+    testClient,
+    websocket: createChannelWebSocketHandler(
+      new Map(
+        [...channelMap].map(([channelPath, { channel: channelValue }]) => [
+          channelPath,
+          channelValue,
+        ])
+      )
+    ),
   };
 };
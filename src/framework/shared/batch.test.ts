@@ -0,0 +1,106 @@
+import { afterEach, expect, mock, test } from "bun:test";
+import { createBatchHandler, createBatchLink } from "./batch";
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+const handler = createBatchHandler(
+  [
+    {
+      path: "/api/items/:id",
+      method: "GET",
+      stream: false,
+      handler: (req) =>
+        Promise.resolve(
+          Response.json(
+            { id: (req as Request & { params: { id: string } }).params.id },
+            { headers: { ETag: 'W/"1"', "Retry-After": "5" } }
+          )
+        ),
+    },
+  ],
+  {}
+);
+
+const batchRequest = (calls: unknown[]): Request =>
+  new Request("http://localhost/api/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ calls }),
+  });
+
+test("runs calls through their routes and keeps their headers", async () => {
+  const res = await handler(
+    batchRequest([
+      { method: "GET", url: "/api/items/1" },
+      { method: "GET", url: "/api/missing" },
+    ])
+  );
+  const { results } = await res.json();
+  expect(results[0]).toMatchObject({
+    status: 200,
+    body: { id: "1" },
+    headers: { etag: 'W/"1"', "retry-after": "5" },
+  });
+  expect(results[1]).toMatchObject({ status: 404 });
+});
+
+test("link rebuilds responses with their headers", async () => {
+  globalThis.fetch = mock((_url: string | URL | Request, init?: RequestInit) =>
+    handler(batchRequest(JSON.parse(String(init?.body)).calls))
+  ) as unknown as typeof fetch;
+  const link = createBatchLink();
+  const res = await link("/api/items/2", { method: "GET" });
+  expect(await res.json()).toEqual({ id: "2" });
+  expect(res.headers.get("etag")).toBe('W/"1"');
+});
+
+test("aborted calls reject and are dropped from the pending batch", async () => {
+  const fetchMock = mock((_url: string | URL | Request, init?: RequestInit) =>
+    handler(batchRequest(JSON.parse(String(init?.body)).calls))
+  );
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+  const link = createBatchLink();
+  const controller = new AbortController();
+  const aborted = link("/api/items/1", {
+    method: "GET",
+    signal: controller.signal,
+  });
+  const kept = link("/api/items/2", { method: "GET" });
+  controller.abort();
+
+  await expect(aborted).rejects.toThrow();
+  expect(await (await kept).json()).toEqual({ id: "2" });
+  const sent = JSON.parse(String(fetchMock.mock.calls[0]?.[1]?.body));
+  expect(sent.calls).toEqual([{ method: "GET", url: "/api/items/2" }]);
+});
+
+test("the batch request is aborted once every call in it is aborted", async () => {
+  let batchSignal: AbortSignal | undefined;
+  globalThis.fetch = mock(
+    (_url: string | URL | Request, init?: RequestInit) => {
+      batchSignal = init?.signal ?? undefined;
+      return new Promise<Response>(() => {
+        // Never settles: the call only ends by aborting
+      });
+    }
+  ) as unknown as typeof fetch;
+  const link = createBatchLink();
+  const first = new AbortController();
+  const second = new AbortController();
+  const calls = [
+    link("/api/items/1", { method: "GET", signal: first.signal }),
+    link("/api/items/2", { method: "GET", signal: second.signal }),
+  ];
+  await Promise.resolve();
+  first.abort();
+  expect(batchSignal?.aborted).toBe(false);
+  second.abort();
+  expect(batchSignal?.aborted).toBe(true);
+  for (const call of calls) {
+    await expect(call).rejects.toThrow();
+  }
+});
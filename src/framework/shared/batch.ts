@@ -0,0 +1,426 @@
+/**
+ * Request batching for the typed API
+ * Server side: one endpoint runs several route calls through their normal handlers
+ * Client side: a fetch-compatible link that coalesces calls made in the same tick
+ *
+ * Wire format:
+ * - request:  POST { calls: [{ method, url, headers?, body? }] }
+ * - response: { results: [{ status, contentType?, headers?, body }] } (same order as calls)
+ * Bodies are JSON values; `headers`/`contentType` carry the negotiated serializer
+ */
+
+import type { Server } from "bun";
+import { z } from "zod";
+import { RouteError, toRouteError } from "./api-errors";
+import { inheritClientAddress, rememberClientAddress } from "./client-address";
+
+/**
+ * Options accepted by createAPI to enable the batch endpoint
+ */
+export interface BatchOptions {
+  /** Endpoint path relative to the API base path (default: "/batch") */
+  path?: string;
+  /** Maximum calls per batch request (default: 50) */
+  maxSize?: number;
+}
+
+/**
+ * Single call inside a batch request
+ */
+const batchCallSchema = z.object({
+  method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]),
+  /** Path and query of the call, e.g. "/api/products/1?fields=name" */
+  url: z.string().startsWith("/"),
+  /** Per-call headers (Accept / Content-Type), overriding the batch request's */
+  headers: z.record(z.string(), z.string()).optional(),
+  body: z.unknown().optional(),
+});
+
+/**
+ * Batch request body
+ */
+const batchRequestSchema = z.object({
+  calls: z.array(batchCallSchema).min(1),
+});
+
+/**
+ * Single call inside a batch request
+ */
+export type BatchCall = z.infer<typeof batchCallSchema>;
+
+/**
+ * Result of one call: the status and JSON body it would have had on its own
+ */
+export interface BatchResult {
+  status: number;
+  /** Content-Type of the call's response when not plain JSON */
+  contentType?: string;
+  /** Response headers of the call (ETag, Cache-Control, Retry-After, RateLimit-*, ...) */
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Headers describing the encoding of a sub-response body, which the batch re-encodes
+ */
+const BODY_HEADERS = new Set([
+  "content-type",
+  "content-length",
+  "content-encoding",
+  "transfer-encoding",
+]);
+
+/**
+ * Response headers carried in a batch result
+ */
+const resultHeaders = (res: Response): Record<string, string> | undefined => {
+  const headers: Record<string, string> = {};
+  res.headers.forEach((value, name) => {
+    if (!BODY_HEADERS.has(name)) {
+      headers[name] = value;
+    }
+  });
+  return Object.keys(headers).length > 0 ? headers : undefined;
+};
+
+/**
+ * Route that can be called from a batch
+ */
+export interface BatchableRoute {
+  /** Path pattern, e.g. "/api/products/:id" */
+  path: string;
+  method: string;
+  /** Streaming routes cannot be batched */
+  stream: boolean;
+  handler: (req: Request) => Promise<Response>;
+}
+
+/**
+ * Matches `:param` segments in a path template
+ */
+const PATH_PARAM_REGEX = /:([A-Za-z0-9_]+)/g;
+
+/**
+ * Compile a path pattern to a regex capturing its params
+ */
+const compilePattern = (path: string): RegExp =>
+  new RegExp(
+    `^${path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(PATH_PARAM_REGEX, "(?<$1>[^/]+)")}$`
+  );
+
+/**
+ * Decode URL-encoded param values
+ */
+const decodeParams = (
+  groups: Record<string, string | undefined>
+): Record<string, string> => {
+  const params: Record<string, string> = {};
+  for (const [name, value] of Object.entries(groups)) {
+    if (value !== undefined) {
+      params[name] = decodeURIComponent(value);
+    }
+  }
+  return params;
+};
+
+/**
+ * Build a request matching what Bun would hand the route handler
+ * Headers (auth, cookies) are inherited from the batch request
+ */
+const toSubRequest = (
+  batchRequest: Request,
+  call: BatchCall,
+  params: Record<string, string>
+): Request => {
+  const headers = new Headers(batchRequest.headers);
+  headers.delete("content-length");
+  headers.delete("content-type");
+  for (const [name, value] of Object.entries(call.headers ?? {})) {
+    headers.set(name, value);
+  }
+  const init: RequestInit = {
+    method: call.method,
+    headers,
+    signal: batchRequest.signal,
+  };
+  if (call.body !== undefined && call.method !== "GET") {
+    if (!headers.has("content-type")) {
+      headers.set("content-type", "application/json");
+    }
+    init.body = JSON.stringify(call.body);
+  }
+  const request = new Request(new URL(call.url, batchRequest.url), init);
+  inheritClientAddress(batchRequest, request);
+  return Object.assign(request, { params });
+};
+
+/**
+ * Create the batch endpoint handler
+ * Calls run concurrently; each one goes through its route's middleware and validation
+ */
+export const createBatchHandler = (
+  routes: BatchableRoute[],
+  options: BatchOptions
+): ((req: Request, server?: Server<unknown>) => Promise<Response>) => {
+  const maxSize = options.maxSize ?? 50;
+  // Static paths win over param paths ("/users/list" before "/users/:id")
+  const compiled = routes
+    .map((batchable) => ({
+      ...batchable,
+      pattern: compilePattern(batchable.path),
+      paramCount: batchable.path.match(PATH_PARAM_REGEX)?.length ?? 0,
+    }))
+    .sort((a, b) => a.paramCount - b.paramCount);
+
+  const runCall = async (req: Request, call: BatchCall): Promise<Response> => {
+    const { pathname } = new URL(call.url, req.url);
+    for (const candidate of compiled) {
+      const match = candidate.pattern.exec(pathname);
+      if (!match || candidate.method !== call.method) {
+        continue;
+      }
+      if (candidate.stream) {
+        throw new RouteError(400, "BAD_REQUEST", {
+          message: "Streaming routes cannot be batched",
+        });
+      }
+      const params = decodeParams(match.groups ?? {});
+      return await candidate.handler(toSubRequest(req, call, params));
+    }
+    throw new RouteError(404, "NOT_FOUND", {
+      message: `No route for ${call.method} ${pathname}`,
+    });
+  };
+
+  const toResult = async (
+    req: Request,
+    call: BatchCall
+  ): Promise<BatchResult> => {
+    try {
+      const res = await runCall(req, call);
+      const result: BatchResult = {
+        status: res.status,
+        body: await res.json().catch(() => null),
+      };
+      const contentType = res.headers.get("content-type");
+      if (contentType && !contentType.includes("application/json")) {
+        result.contentType = contentType;
+      }
+      const headers = resultHeaders(res);
+      if (headers) {
+        result.headers = headers;
+      }
+      return result;
+    } catch (error) {
+      const routeError = toRouteError(error);
+      return { status: routeError.status, body: routeError.toJSON() };
+    }
+  };
+
+  return async (req: Request, server?: Server<unknown>) => {
+    if (req.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+    rememberClientAddress(req, server);
+    try {
+      const json = await req.json().catch(() => {
+        throw new RouteError(400, "BAD_REQUEST", {
+          message: "Malformed JSON body",
+        });
+      });
+      const parsed = batchRequestSchema.safeParse(json);
+      if (!parsed.success) {
+        throw new RouteError(400, "BAD_REQUEST", {
+          message: "Invalid batch request",
+        });
+      }
+      if (parsed.data.calls.length > maxSize) {
+        throw new RouteError(400, "BAD_REQUEST", {
+          message: `Batch exceeds ${maxSize} calls`,
+        });
+      }
+      const results = await Promise.all(
+        parsed.data.calls.map((call) => toResult(req, call))
+      );
+      return Response.json({ results });
+    } catch (error) {
+      return toRouteError(error).toResponse();
+    }
+  };
+};
+
+/**
+ * Client batching options
+ */
+export interface BatchLinkOptions {
+  /** Batch endpoint URL (default: "/api/batch") */
+  url?: string;
+  /** Maximum calls per batch request; larger bursts are split (default: 50) */
+  maxSize?: number;
+}
+
+/**
+ * fetch-compatible function used by the API client
+ */
+export type ApiFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Statuses whose responses cannot carry a body
+ */
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/**
+ * Rebuild the Response a batched call would have received on its own
+ */
+const toResponse = (result: BatchResult): Response => {
+  const headers = new Headers(result.headers);
+  if (NULL_BODY_STATUSES.has(result.status)) {
+    return new Response(null, { status: result.status, headers });
+  }
+  headers.set("Content-Type", result.contentType ?? "application/json");
+  return new Response(JSON.stringify(result.body), {
+    status: result.status,
+    headers,
+  });
+};
+
+/**
+ * Call waiting for the next flush
+ */
+interface PendingCall {
+  call: BatchCall;
+  resolve: (res: Response) => void;
+  reject: (error: unknown) => void;
+  /** The caller's signal; aborting rejects the call */
+  signal: AbortSignal | undefined;
+}
+
+/**
+ * Signal for a batch request, aborted once every call in it is aborted
+ * (calls without a signal keep the request alive); `dispose` removes its listeners
+ */
+const batchSignal = (
+  calls: PendingCall[]
+): { signal?: AbortSignal; dispose: () => void } => {
+  const signals = calls.map(({ signal }) => signal);
+  const listeners = new AbortController();
+  const dispose = (): void => listeners.abort();
+  if (!signals.every((signal) => signal !== undefined)) {
+    return { dispose };
+  }
+  const controller = new AbortController();
+  const abortWhenAllAborted = (): void => {
+    if (signals.every((signal) => signal?.aborted)) {
+      controller.abort();
+    }
+  };
+  for (const signal of signals) {
+    signal?.addEventListener("abort", abortWhenAllAborted, {
+      once: true,
+      signal: listeners.signal,
+    });
+  }
+  return { signal: controller.signal, dispose };
+};
+
+/**
+ * Create a batching link
+ * Calls made in the same tick are sent as one batch request; each caller gets back
+ * a Response equivalent to the one it would have received on its own
+ */
+export const createBatchLink = (options: BatchLinkOptions = {}): ApiFetch => {
+  const batchUrl = options.url ?? "/api/batch";
+  const maxSize = options.maxSize ?? 50;
+  let pending: PendingCall[] = [];
+
+  const send = async (calls: PendingCall[]): Promise<void> => {
+    const { signal, dispose } = batchSignal(calls);
+    try {
+      const res = await fetch(batchUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ calls: calls.map(({ call }) => call) }),
+        ...(signal ? { signal } : {}),
+      });
+      if (!res.ok) {
+        // The whole batch failed (e.g. malformed) - every call gets the same error
+        const body = await res.text();
+        for (const { resolve } of calls) {
+          resolve(new Response(body, { status: res.status }));
+        }
+        return;
+      }
+      const { results } = (await res.json()) as { results: BatchResult[] };
+      calls.forEach(({ resolve }, index) => {
+        resolve(toResponse(results[index] ?? { status: 500, body: null }));
+      });
+    } catch (error) {
+      for (const { reject } of calls) {
+        reject(error);
+      }
+    } finally {
+      dispose();
+    }
+  };
+
+  const flush = (): void => {
+    const calls = pending;
+    pending = [];
+    for (let start = 0; start < calls.length; start += maxSize) {
+      send(calls.slice(start, start + maxSize));
+    }
+  };
+
+  /**
+   * Reject an aborted call, dropping it from the next batch if it hasn't been sent
+   */
+  const abortCall = (pendingCall: PendingCall): void => {
+    pending = pending.filter((queued) => queued !== pendingCall);
+    pendingCall.reject(pendingCall.signal?.reason);
+  };
+
+  return (url, init) => {
+    // Form data (file uploads) can't be embedded in a JSON batch - send it directly
+    if (init.body !== undefined && typeof init.body !== "string") {
+      return fetch(url, init);
+    }
+    const signal = init.signal ?? undefined;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise<Response>((resolve, reject) => {
+      const call: BatchCall = {
+        method: (init.method ?? "GET") as BatchCall["method"],
+        url,
+      };
+      if (init.headers) {
+        const headers: Record<string, string> = {};
+        new Headers(init.headers).forEach((value, name) => {
+          headers[name] = value;
+        });
+        call.headers = headers;
+      }
+      if (typeof init.body === "string") {
+        call.body = JSON.parse(init.body);
+      }
+      if (pending.length === 0) {
+        queueMicrotask(flush);
+      }
+      const onAbort = (): void => abortCall(pendingCall);
+      const settle =
+        <T>(done: (value: T) => void) =>
+        (value: T): void => {
+          signal?.removeEventListener("abort", onAbort);
+          done(value);
+        };
+      const pendingCall: PendingCall = {
+        call,
+        resolve: settle(resolve),
+        reject: settle(reject),
+        signal,
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      pending.push(pendingCall);
+    });
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * In-process caller for the typed API
+ * Calls route handlers directly (same middleware and validation, no HTTP), so loaders,
+ * handlers and prerendering can use the API with the client's call signatures
+ *
+ * Usage:
+ *   const caller = api.createCaller(request);
+ *   const product = await caller.products.byId({ params: { id: "1" } });
+ */
+
+import type { ZodType } from "zod";
+import type { ApiEventStream } from "./api";
+import { ApiError, toApiError, toRouteError } from "./api-errors";
+import { inheritClientAddress } from "./client-address";
+import { isPaginated, withPages } from "./pagination";
+import { encodeQuery } from "./query-string";
+
+/**
+ * Route inputs of one call, as they would arrive over HTTP
+ */
+export interface CallInputs {
+  params: Record<string, string> | undefined;
+  /** Encoded into the URL like the HTTP client does (arrays, nested objects) */
+  query: Record<string, unknown> | undefined;
+  body: unknown;
+}
+
+/**
+ * Invoke a single route in-process
+ */
+export type RouteCaller = (input: unknown) => unknown;
+
+/**
+ * Origin used for synthesized requests when the caller has no incoming request
+ */
+const LOCAL_ORIGIN = "http://localhost";
+
+/**
+ * Matches `:param` segments in a path template
+ */
+const PATH_PARAM_REGEX = /:([A-Za-z0-9_]+)/g;
+
+/**
+ * Stringify a params object the way the URL would
+ */
+const toStringRecord = (value: unknown): Record<string, string> | undefined => {
+  if (!value || typeof value !== "object") {
+    return;
+  }
+  const record: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== undefined) {
+      record[key] = String(entry);
+    }
+  }
+  return record;
+};
+
+/**
+ * Split client call input into params, query and body
+ * Mirrors the HTTP client: `{ params, query, body }`, `{ params, ...bodyFields }`
+ * or the body itself for routes without params/query
+ */
+export const splitCallInput = (input: unknown): CallInputs => {
+  if (!input || typeof input !== "object") {
+    return { params: undefined, query: undefined, body: undefined };
+  }
+  const { params, query, body, ...rest } = input as Record<string, unknown>;
+  const inputs = {
+    params: toStringRecord(params),
+    query:
+      query && typeof query === "object"
+        ? (query as Record<string, unknown>)
+        : undefined,
+  };
+  if (body !== undefined) {
+    return { ...inputs, body };
+  }
+  if (params || query) {
+    const hasFields = Object.values(rest).some((value) => value !== undefined);
+    return { ...inputs, body: hasFields ? rest : undefined };
+  }
+  return { ...inputs, body: input };
+};
+
+/**
+ * Build the request a route sees for an in-process call
+ * Headers (auth, cookies) are inherited from the incoming request
+ */
+export const buildCallRequest = (
+  request: Request | undefined,
+  method: string,
+  path: string,
+  inputs: CallInputs
+): Request => {
+  const pathname = path.replace(PATH_PARAM_REGEX, (segment, name: string) => {
+    const value = inputs.params?.[name];
+    return value === undefined ? segment : encodeURIComponent(value);
+  });
+  const url = new URL(pathname, request?.url ?? LOCAL_ORIGIN);
+  url.search = inputs.query ? encodeQuery(inputs.query) : "";
+  const headers = new Headers(request?.headers);
+  headers.delete("content-length");
+  headers.delete("content-type");
+  const callRequest = new Request(url, {
+    method,
+    headers,
+    ...(request ? { signal: request.signal } : {}),
+  });
+  if (request) {
+    inheritClientAddress(request, callRequest);
+  }
+  return Object.assign(callRequest, { params: inputs.params ?? {} });
+};
+
+/**
+ * Convert anything a route threw (or a short-circuit Response) into the ApiError
+ * the HTTP client would reject with
+ */
+export const toCallError = async (error: unknown): Promise<ApiError> => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof Response) {
+    return await toApiError(error);
+  }
+  const routeError = toRouteError(error);
+  return new ApiError(routeError.status, routeError.toJSON());
+};
+
+/**
+ * Wrap a streaming route's events as an ApiEventStream
+ * The handler starts when iteration starts; `abort()` stops before the next event
+ */
+export const toCallEventStream = (
+  start: () => Promise<AsyncIterable<unknown>>,
+  eventSchema: ZodType
+): ApiEventStream<unknown> => {
+  let aborted = false;
+
+  const iterate = async function* (): AsyncGenerator<unknown> {
+    const iterator = (await start())[Symbol.asyncIterator]();
+    try {
+      while (!aborted) {
+        const { value, done } = await iterator.next();
+        if (done) {
+          return;
+        }
+        yield eventSchema.parse(value);
+      }
+    } catch (error) {
+      throw await toCallError(error);
+    } finally {
+      await iterator.return?.();
+    }
+  };
+
+  return {
+    [Symbol.asyncIterator]: iterate,
+    abort: () => {
+      aborted = true;
+    },
+  };
+};
+
+/**
+ * Route caller, with `.pages(input)` for paginated routes
+ */
+const withRoutePages = (
+  routeValue: object,
+  routeCaller: RouteCaller
+): RouteCaller =>
+  isPaginated(routeValue) ? withPages(routeCaller) : routeCaller;
+
+/**
+ * Build a caller object shaped like the router
+ * `resolve` maps a route key path ("/products/byId", or "/hello:GET" for
+ * method-grouped routes) to its route caller
+ */
+export const createRouterCaller = (
+  routes: object,
+  resolve: (keyPath: string) => RouteCaller | undefined,
+  prefix = ""
+): Record<string, unknown> => {
+  const caller: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(routes)) {
+    if (!value || typeof value !== "object") {
+      continue;
+    }
+    const keyPath = `${prefix}/${key}`;
+    const brand = "_brand" in value ? value._brand : undefined;
+    if (brand === "Route") {
+      const routeCaller = resolve(keyPath) ?? resolve(`${prefix}:${key}`);
+      if (routeCaller) {
+        caller[key] = withRoutePages(value, routeCaller);
+      }
+    } else if (brand === "Channel") {
+      caller[key] = () => {
+        throw new Error(`Channel ${keyPath} cannot be called in-process`);
+      };
+    } else {
+      caller[key] = createRouterCaller(value, resolve, keyPath);
+    }
+  }
+  return caller;
+};
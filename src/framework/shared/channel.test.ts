@@ -0,0 +1,145 @@
+import { afterEach, expect, test } from "bun:test";
+import { z } from "zod";
+import { createAPI, withMiddleware } from "./api";
+import { channel, type ChannelStatus, connectChannel } from "./channel";
+
+let server: ReturnType<typeof Bun.serve> | null = null;
+
+afterEach(() => {
+  server?.stop(true);
+  server = null;
+  Reflect.deleteProperty(globalThis, "window");
+});
+
+/**
+ * Serve `fetch` on a free port and point the client's window location at it
+ */
+const serve = (options: Omit<Parameters<typeof Bun.serve>[0], "port">) => {
+  server = Bun.serve({ ...options, port: 0 } as Parameters<
+    typeof Bun.serve
+  >[0]);
+  Object.assign(globalThis, {
+    window: { location: { href: `http://localhost:${server.port}/` } },
+  });
+};
+
+/**
+ * Resolve once the connection reports `status`
+ */
+const waitForStatus = (
+  connection: {
+    onStatus: (listener: (status: ChannelStatus) => void) => () => void;
+  },
+  status: ChannelStatus
+) =>
+  new Promise<void>((resolve) => {
+    const unsubscribe = connection.onStatus((next) => {
+      if (next === status) {
+        unsubscribe();
+        resolve();
+      }
+    });
+  });
+
+test("a rejected first handshake closes without reconnecting", async () => {
+  let upgrades = 0;
+  serve({
+    fetch: () => {
+      upgrades += 1;
+      return new Response("Unauthorized", { status: 401 });
+    },
+  });
+  const connection = connectChannel("/api/live");
+  await waitForStatus(connection, "closed");
+  await Bun.sleep(700);
+  expect(upgrades).toBe(1);
+  expect(connection.status).toBe("closed");
+});
+
+test("close code 4401 is final", async () => {
+  let upgrades = 0;
+  serve({
+    fetch: (req, bunServer) => {
+      upgrades += 1;
+      if (bunServer.upgrade(req, { data: null })) {
+        return;
+      }
+      return new Response("Upgrade failed", { status: 400 });
+    },
+    websocket: {
+      open: (ws) => ws.close(4401, "Unauthorized"),
+      message: () => {
+        // Nothing is sent
+      },
+    },
+  });
+  const connection = connectChannel("/api/live");
+  await waitForStatus(connection, "closed");
+  await Bun.sleep(700);
+  expect(upgrades).toBe(1);
+});
+
+test("reconnects after an opened socket drops", async () => {
+  let upgrades = 0;
+  serve({
+    fetch: (req, bunServer) => {
+      upgrades += 1;
+      if (bunServer.upgrade(req, { data: null })) {
+        return;
+      }
+      return new Response("Upgrade failed", { status: 400 });
+    },
+    websocket: {
+      open: (ws) => {
+        if (upgrades === 1) {
+          ws.close(1011, "Restarting");
+        }
+      },
+      message: () => {
+        // Nothing is sent
+      },
+    },
+  });
+  const connection = connectChannel("/api/live");
+  await waitForStatus(connection, "open");
+  await waitForStatus(connection, "open");
+  expect(upgrades).toBe(2);
+  connection.close();
+});
+
+test("server validates client messages and rejects upgrades in middleware", async () => {
+  const echo = channel({
+    client: z.object({ text: z.string() }),
+    server: z.object({ text: z.string() }),
+    message(socket, message) {
+      socket.send({ text: message.text.toUpperCase() });
+    },
+  });
+  const denied = withMiddleware(
+    () => new Response("Unauthorized", { status: 401 })
+  ).channel({ client: z.unknown(), server: z.unknown() });
+  const api = createAPI({ echo, denied });
+  serve({
+    routes: api.handlers(),
+    websocket: api.websocket,
+    fetch: () => new Response("Not found", { status: 404 }),
+  });
+
+  const deniedConnection = connectChannel("/api/denied");
+  await waitForStatus(deniedConnection, "closed");
+
+  const connection = connectChannel<{ text: unknown }, { text: string }>(
+    "/api/echo"
+  );
+  const received = new Promise<string>((resolve) => {
+    connection.onMessage((message) => resolve(message.text));
+  });
+  const rejected = new Promise<string>((resolve) => {
+    connection.onError((error) => resolve(error.code));
+  });
+  connection.send({ text: 42 });
+  connection.send({ text: "hi" });
+  expect(await rejected).toBe("VALIDATION_FAILED");
+  expect(await received).toBe("HI");
+  connection.close();
+});
@@ -0,0 +1,609 @@
+/**
+ * Typed WebSocket channels for the API router
+ * Server side: Zod-validated messages over Bun WebSockets with topic pub/sub
+ * Client side: auto-reconnecting connection with typed send/receive
+ *
+ * Frames use the serializer negotiated at upgrade time through the WebSocket
+ * subprotocol (see channelProtocol), so rich types survive like over HTTP
+ */
+
+import type { Server, ServerWebSocket, WebSocketHandler } from "bun";
+import type { ZodType, z } from "zod";
+import type { ApiMiddleware } from "./api";
+import {
+  ApiError,
+  type ApiErrorBody,
+  RouteError,
+  toRouteError,
+} from "./api-errors";
+import { jsonSerializer, type Serializer } from "./serializer";
+
+/**
+ * Data attached to each upgraded channel socket
+ */
+export interface ChannelSocketData {
+  /** Channel path, used to dispatch socket events */
+  channelId: string;
+  ctx: object;
+  query: unknown;
+  /** Wire format negotiated at upgrade time */
+  serializer: Serializer;
+}
+
+/**
+ * Frame sent from server to client
+ */
+export type ChannelServerFrame =
+  | { type: "message"; data: unknown }
+  | { type: "error"; status: number; error: ApiErrorBody };
+
+/**
+ * Server-side handle for a connected channel socket
+ */
+export interface ChannelSocket<
+  TServer extends ZodType = ZodType,
+  TQuery extends ZodType | undefined = ZodType | undefined,
+  TContext extends object = object,
+> {
+  /** Underlying Bun socket */
+  ws: ServerWebSocket<ChannelSocketData>;
+  query: TQuery extends ZodType ? z.infer<TQuery> : undefined;
+  /** Fields added by the channel's middleware at upgrade time */
+  ctx: TContext;
+  /** Send a message to this socket */
+  send: (message: z.input<TServer>) => void;
+  subscribe: (topic: string) => void;
+  unsubscribe: (topic: string) => void;
+  /** Publish to every other subscriber of a topic */
+  publish: (topic: string, message: z.input<TServer>) => void;
+}
+
+/**
+ * Channel configuration with Zod schemas
+ */
+export interface ChannelConfig<
+  TQuery extends ZodType | undefined = undefined,
+  TClient extends ZodType = ZodType,
+  TServer extends ZodType = ZodType,
+  TContext extends object = object,
+> {
+  /** Query params validated at upgrade time */
+  query?: TQuery;
+  /** Messages the client sends */
+  client: TClient;
+  /** Messages the server sends */
+  server: TServer;
+  /** Topics subscribed on open (default: the channel path) */
+  topics?: (socket: ChannelSocket<TServer, TQuery, TContext>) => string[];
+  open?: (
+    socket: ChannelSocket<TServer, TQuery, TContext>
+  ) => void | Promise<void>;
+  message?: (
+    socket: ChannelSocket<TServer, TQuery, TContext>,
+    message: z.infer<TClient>
+  ) => void | Promise<void>;
+  close?: (
+    socket: ChannelSocket<TServer, TQuery, TContext>,
+    code: number,
+    reason: string
+  ) => void | Promise<void>;
+}
+
+/**
+ * Branded channel type for type inference
+ */
+export interface Channel<
+  TQuery extends ZodType | undefined = undefined,
+  TClient extends ZodType = ZodType,
+  TServer extends ZodType = ZodType,
+> {
+  _brand: "Channel";
+  _query: TQuery;
+  _client: TClient;
+  _server: TServer;
+  config: ChannelConfig<ZodType | undefined>;
+  /** Middleware run on the upgrade request (in order) */
+  middlewares: ApiMiddleware[];
+  /**
+   * Publish to a topic from anywhere on the server (default topic: the channel path)
+   * No-op until the channel has been mounted and received its first connection
+   */
+  publish: (message: z.input<TServer>, topic?: string) => void;
+}
+
+/**
+ * Any channel, regardless of its schemas
+ */
+export type AnyChannel = Channel<ZodType | undefined, ZodType, ZodType>;
+
+/**
+ * Server, path and wire formats a channel is bound to once mounted
+ */
+interface ChannelBinding {
+  path: string;
+  server: Server<ChannelSocketData> | null;
+  /** Every format a subscriber may have negotiated (plain JSON included) */
+  serializers: Serializer[];
+}
+
+const channelBindings = new WeakMap<AnyChannel, ChannelBinding>();
+
+/**
+ * WebSocket subprotocol naming a serializer (media types aren't valid subprotocol tokens)
+ */
+export const channelProtocol = (serializer: Serializer): string =>
+  serializer.contentType.replaceAll("/", ".");
+
+/**
+ * Topic carrying a topic's frames in one wire format
+ * Subscribers of a topic may have negotiated different formats, so each gets its own
+ */
+const formatTopic = (topic: string, serializer: Serializer): string =>
+  `${topic}#${serializer.contentType}`;
+
+/**
+ * Publish a frame to a topic, encoded once per wire format
+ */
+const publishFrame = (
+  publisher: { publish: (topic: string, data: string) => unknown },
+  serializers: Serializer[],
+  topic: string,
+  frame: ChannelServerFrame
+): void => {
+  for (const serializer of serializers) {
+    publisher.publish(
+      formatTopic(topic, serializer),
+      serializer.stringify(frame)
+    );
+  }
+};
+
+/**
+ * Check if value is a Channel
+ */
+export const isChannel = (value: unknown): value is AnyChannel =>
+  value !== null &&
+  typeof value === "object" &&
+  "_brand" in value &&
+  value._brand === "Channel";
+
+/**
+ * Build a branded channel with its middleware chain
+ */
+export const createChannel = <
+  TQuery extends ZodType | undefined,
+  TClient extends ZodType,
+  TServer extends ZodType,
+  TContext extends object,
+>(
+  config: ChannelConfig<TQuery, TClient, TServer, TContext>,
+  middlewares: ApiMiddleware[]
+): Channel<TQuery, TClient, TServer> => {
+  const channelValue: Channel<TQuery, TClient, TServer> = {
+    _brand: "Channel",
+    _query: config.query as TQuery,
+    _client: config.client,
+    _server: config.server,
+    // Context type is only relevant inside the callbacks - erase it on the channel
+    config: config as unknown as ChannelConfig<ZodType | undefined>,
+    middlewares,
+    publish: (message, topic) => {
+      const binding = channelBindings.get(channelValue as AnyChannel);
+      if (!binding?.server) {
+        return;
+      }
+      publishFrame(binding.server, binding.serializers, topic ?? binding.path, {
+        type: "message",
+        data: config.server.parse(message),
+      });
+    },
+  };
+  return channelValue;
+};
+
+/**
+ * Define a typed WebSocket channel
+ */
+export const channel = <
+  TQuery extends ZodType | undefined = undefined,
+  TClient extends ZodType = ZodType,
+  TServer extends ZodType = ZodType,
+>(
+  config: ChannelConfig<TQuery, TClient, TServer>
+): Channel<TQuery, TClient, TServer> => createChannel(config, []);
+
+/**
+ * Record the mount path and the API's wire formats of a channel (called by createAPI)
+ */
+export const mountChannel = (
+  channelValue: AnyChannel,
+  path: string,
+  serializers: Serializer[]
+): void => {
+  channelBindings.set(channelValue, {
+    path,
+    server: channelBindings.get(channelValue)?.server ?? null,
+    serializers: serializers.some(
+      (serializer) => serializer.contentType === jsonSerializer.contentType
+    )
+      ? serializers
+      : [...serializers, jsonSerializer],
+  });
+};
+
+/**
+ * Pick the first of the API's formats among the subprotocols the client offered
+ * Clients that offer none get plain JSON
+ */
+const negotiateSerializer = (
+  req: Request,
+  serializers: Serializer[]
+): { serializer: Serializer; protocol?: string } => {
+  const offered = (req.headers.get("sec-websocket-protocol") ?? "")
+    .split(",")
+    .map((protocol) => protocol.trim());
+  for (const serializer of serializers) {
+    const protocol = channelProtocol(serializer);
+    if (offered.includes(protocol)) {
+      return { serializer, protocol };
+    }
+  }
+  return { serializer: jsonSerializer };
+};
+
+/**
+ * Build the upgrade handler for a mounted channel
+ * `prepare` runs middleware and query validation, returning socket data or a Response
+ */
+export const createChannelUpgradeHandler =
+  (
+    channelValue: AnyChannel,
+    path: string,
+    prepare: (
+      req: Request
+    ) => Promise<Omit<ChannelSocketData, "serializer"> | Response>
+  ) =>
+  async (
+    req: Request,
+    server: Server<ChannelSocketData>
+  ): Promise<Response> => {
+    const binding = channelBindings.get(channelValue);
+    if (binding) {
+      binding.server = server;
+    }
+
+    const data = await prepare(req);
+    if (data instanceof Response) {
+      return data;
+    }
+
+    const { serializer, protocol } = negotiateSerializer(
+      req,
+      binding?.serializers ?? [jsonSerializer]
+    );
+    const upgraded = server.upgrade(req, {
+      data: { ...data, channelId: path, serializer },
+      ...(protocol ? { headers: { "Sec-WebSocket-Protocol": protocol } } : {}),
+    });
+    if (upgraded) {
+      // Response is ignored by Bun once the socket is upgraded
+      return new Response(null, { status: 101 });
+    }
+    return new RouteError(426, "UPGRADE_REQUIRED", {
+      message: "Expected a WebSocket upgrade request",
+    }).toResponse();
+  };
+
+/**
+ * Wrap a Bun socket into the typed channel socket handed to callbacks
+ */
+const toChannelSocket = (
+  channelValue: AnyChannel,
+  ws: ServerWebSocket<ChannelSocketData>
+): ChannelSocket => {
+  const { server: serverSchema } = channelValue.config;
+  const { serializer } = ws.data;
+  const toFrame = (message: unknown): ChannelServerFrame => ({
+    type: "message",
+    data: serverSchema.parse(message),
+  });
+
+  return {
+    ws,
+    query: ws.data.query as never,
+    ctx: ws.data.ctx,
+    send: (message) => {
+      ws.send(serializer.stringify(toFrame(message)));
+    },
+    subscribe: (topic) => ws.subscribe(formatTopic(topic, serializer)),
+    unsubscribe: (topic) => ws.unsubscribe(formatTopic(topic, serializer)),
+    publish: (topic, message) => {
+      publishFrame(
+        ws,
+        channelBindings.get(channelValue)?.serializers ?? [serializer],
+        topic,
+        toFrame(message)
+      );
+    },
+  };
+};
+
+/**
+ * Send an error frame to a socket
+ */
+const sendError = (
+  ws: ServerWebSocket<ChannelSocketData>,
+  error: unknown
+): void => {
+  const routeError = toRouteError(error);
+  const frame: ChannelServerFrame = {
+    type: "error",
+    status: routeError.status,
+    error: routeError.toJSON(),
+  };
+  ws.send(ws.data.serializer.stringify(frame));
+};
+
+/**
+ * Build the Bun websocket handler dispatching to mounted channels by path
+ */
+export const createChannelWebSocketHandler = (
+  channels: Map<string, AnyChannel>
+): WebSocketHandler<ChannelSocketData> => {
+  const resolve = (ws: ServerWebSocket<ChannelSocketData>) => {
+    const channelValue = channels.get(ws.data.channelId);
+    return channelValue
+      ? { channelValue, socket: toChannelSocket(channelValue, ws) }
+      : null;
+  };
+
+  return {
+    async open(ws) {
+      const resolved = resolve(ws);
+      if (!resolved) {
+        return;
+      }
+      const { channelValue, socket } = resolved;
+      const topics = channelValue.config.topics?.(socket) ?? [
+        ws.data.channelId,
+      ];
+      for (const topic of topics) {
+        socket.subscribe(topic);
+      }
+      try {
+        await channelValue.config.open?.(socket);
+      } catch (error) {
+        sendError(ws, error);
+      }
+    },
+
+    async message(ws, raw) {
+      const resolved = resolve(ws);
+      if (!resolved) {
+        return;
+      }
+      const { channelValue, socket } = resolved;
+      try {
+        const json = (() => {
+          try {
+            return ws.data.serializer.parse(String(raw));
+          } catch {
+            throw new RouteError(400, "BAD_REQUEST", {
+              message: "Malformed message",
+            });
+          }
+        })();
+        const result = channelValue.config.client.safeParse(json);
+        if (!result.success) {
+          throw new RouteError(400, "VALIDATION_FAILED", {
+            message: "Validation failed",
+            issues: result.error.issues.map((issue) => ({
+              code: issue.code,
+              path: issue.path.map((segment) =>
+                typeof segment === "number" ? segment : String(segment)
+              ),
+              message: issue.message,
+            })),
+          });
+        }
+        await channelValue.config.message?.(socket, result.data);
+      } catch (error) {
+        sendError(ws, error);
+      }
+    },
+
+    async close(ws, code, reason) {
+      const resolved = resolve(ws);
+      if (!resolved) {
+        return;
+      }
+      try {
+        await resolved.channelValue.config.close?.(
+          resolved.socket,
+          code,
+          reason
+        );
+      } catch (error) {
+        // The socket is gone, so there is no one to send an error frame to
+        console.error("Channel close error:", error);
+      }
+    },
+  };
+};
+
+/**
+ * Client connection status
+ */
+export type ChannelStatus = "connecting" | "open" | "closed";
+
+/**
+ * Client-side handle for a channel connection
+ * Reconnects automatically (exponential backoff) until `close()` is called, the server
+ * closes with a policy or auth code (1008, 4401), the very first handshake fails
+ * or the attempts run out; messages sent while disconnected are queued
+ */
+export interface ChannelConnection<TSend, TReceive> {
+  readonly status: ChannelStatus;
+  send: (message: TSend) => void;
+  /** Listen for server messages; returns an unsubscribe function */
+  onMessage: (listener: (message: TReceive) => void) => () => void;
+  /** Listen for server-reported errors (e.g. invalid messages) */
+  onError: (listener: (error: ApiError) => void) => () => void;
+  onStatus: (listener: (status: ChannelStatus) => void) => () => void;
+  close: () => void;
+}
+
+/**
+ * Reconnect backoff bounds (milliseconds)
+ */
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 10_000;
+
+/**
+ * Reconnect attempts in a row before giving up
+ */
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+/**
+ * Close codes that reconnecting can't fix: policy violation and unauthorized
+ */
+const TERMINAL_CLOSE_CODES = new Set([1008, 4401]);
+
+/**
+ * Convert a relative API path to a WebSocket URL on the current origin
+ */
+const toWebSocketUrl = (path: string): string => {
+  const url = new URL(path, window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.toString();
+};
+
+/**
+ * Open an auto-reconnecting channel connection
+ * Offers `serializer` as the wire format, falling back to plain JSON when the server lacks it
+ */
+export const connectChannel = <TSend, TReceive>(
+  path: string,
+  serializer: Serializer = jsonSerializer
+): ChannelConnection<TSend, TReceive> => {
+  const messageListeners = new Set<(message: TReceive) => void>();
+  const errorListeners = new Set<(error: ApiError) => void>();
+  const statusListeners = new Set<(next: ChannelStatus) => void>();
+  const protocols = [
+    ...new Set([channelProtocol(serializer), channelProtocol(jsonSerializer)]),
+  ];
+  const queue: TSend[] = [];
+  let socket: WebSocket | null = null;
+  // Format of the current socket, known once it opens
+  let wire: Serializer = jsonSerializer;
+  let status: ChannelStatus = "connecting";
+  let attempts = 0;
+  let closedByUser = false;
+  // A rejected first upgrade (e.g. 401 from middleware) only surfaces as close code 1006
+  let hasOpened = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setStatus = (next: ChannelStatus): void => {
+    status = next;
+    for (const listener of statusListeners) {
+      listener(next);
+    }
+  };
+
+  const handleFrame = (raw: string): void => {
+    const frame = wire.parse(raw) as ChannelServerFrame;
+    if (frame.type === "error") {
+      const error = new ApiError(frame.status, frame.error);
+      for (const listener of errorListeners) {
+        listener(error);
+      }
+      return;
+    }
+    for (const listener of messageListeners) {
+      listener(frame.data as TReceive);
+    }
+  };
+
+  const scheduleReconnect = (): void => {
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** attempts,
+      RECONNECT_MAX_DELAY
+    );
+    attempts += 1;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  function connect(): void {
+    setStatus("connecting");
+    const ws = new WebSocket(toWebSocketUrl(path), protocols);
+    socket = ws;
+
+    ws.addEventListener("open", () => {
+      attempts = 0;
+      hasOpened = true;
+      wire =
+        ws.protocol === channelProtocol(serializer)
+          ? serializer
+          : jsonSerializer;
+      setStatus("open");
+      for (const message of queue.splice(0)) {
+        ws.send(wire.stringify(message));
+      }
+    });
+    ws.addEventListener("message", (event) => {
+      handleFrame(String(event.data));
+    });
+    ws.addEventListener("close", (event) => {
+      socket = null;
+      if (
+        closedByUser ||
+        !hasOpened ||
+        TERMINAL_CLOSE_CODES.has(event.code) ||
+        attempts >= MAX_RECONNECT_ATTEMPTS
+      ) {
+        setStatus("closed");
+        return;
+      }
+      setStatus("connecting");
+      scheduleReconnect();
+    });
+  }
+
+  connect();
+
+  return {
+    get status() {
+      return status;
+    },
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(wire.stringify(message));
+      } else {
+        queue.push(message);
+      }
+    },
+    onMessage: (listener) => {
+      messageListeners.add(listener);
+      return () => messageListeners.delete(listener);
+    },
+    onError: (listener) => {
+      errorListeners.add(listener);
+      return () => errorListeners.delete(listener);
+    },
+    onStatus: (listener) => {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    },
+    close: () => {
+      closedByUser = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      if (socket) {
+        socket.close();
+      } else {
+        setStatus("closed");
+      }
+    },
+  };
+};
@@ -0,0 +1,76 @@
+/**
+ * Client address of API requests
+ * Bun exposes the socket address via `server.requestIP(req)`, which route middleware
+ * can't reach - the route handler records it here so middleware (e.g. rate limiting)
+ * can read it from the request alone
+ *
+ * `X-Forwarded-For` is only read when the server sits behind trusted proxies
+ * (`setTrustedProxies`), since any client can send the header
+ */
+
+import type { Server } from "bun";
+
+/**
+ * Socket addresses recorded per request
+ */
+const clientAddresses = new WeakMap<Request, string>();
+
+/**
+ * Number of proxies in front of the server that append to `X-Forwarded-For` (0: none trusted)
+ */
+let trustedProxies = 0;
+
+/**
+ * Trust `X-Forwarded-For` hops appended by `count` proxies in front of the server
+ * (e.g. 1 behind a single load balancer); 0 uses the socket address only
+ */
+export const setTrustedProxies = (count: number): void => {
+  trustedProxies = count;
+};
+
+/**
+ * Record the socket address Bun reports for a request
+ */
+export const rememberClientAddress = (
+  request: Request,
+  server: Pick<Server<unknown>, "requestIP"> | undefined
+): void => {
+  const address = server?.requestIP(request)?.address;
+  if (address) {
+    clientAddresses.set(request, address);
+  }
+};
+
+/**
+ * Carry the client address over to a request derived from another one
+ * (batched sub-requests, in-process calls)
+ */
+export const inheritClientAddress = (
+  source: Request,
+  target: Request
+): void => {
+  const address = clientAddresses.get(source);
+  if (address) {
+    clientAddresses.set(target, address);
+  }
+};
+
+/**
+ * Address the outermost trusted proxy saw, counting hops from the right
+ * (hops further left were sent by the client and can be spoofed)
+ */
+const forwardedAddress = (request: Request): string | undefined => {
+  if (trustedProxies === 0) {
+    return;
+  }
+  const hops = request.headers.get("x-forwarded-for")?.split(",") ?? [];
+  return hops.at(-trustedProxies)?.trim() || undefined;
+};
+
+/**
+ * Client address of a request
+ * The socket address, or the trusted `X-Forwarded-For` hop behind proxies;
+ * undefined for requests that never hit the server
+ */
+export const getClientAddress = (request: Request): string | undefined =>
+  forwardedAddress(request) ?? clientAddresses.get(request);
@@ -0,0 +1,59 @@
+import { afterEach, expect, mock, spyOn, test } from "bun:test";
+import { type ApiRequest, createClientFetch } from "./client-fetch";
+
+const request = (method = "GET"): ApiRequest => ({
+  url: "/api/items",
+  method,
+  headers: new Headers(),
+});
+
+afterEach(() => {
+  mock.restore();
+});
+
+test("abort listeners are removed once a call settles", async () => {
+  const added = spyOn(EventTarget.prototype, "addEventListener");
+  const removed = spyOn(EventTarget.prototype, "removeEventListener");
+  const clientFetch = createClientFetch(() =>
+    Promise.resolve(new Response("ok"))
+  );
+  const controller = new AbortController();
+  for (let i = 0; i < 3; i++) {
+    await clientFetch(request(), { signal: controller.signal });
+  }
+  const abortListeners = (spy: typeof added) =>
+    spy.mock.calls.filter(([type]) => type === "abort").length;
+  expect(abortListeners(added)).toBeGreaterThan(0);
+  expect(abortListeners(removed)).toBe(abortListeners(added));
+});
+
+test("aborting rejects even when fetch ignores the signal", async () => {
+  const clientFetch = createClientFetch(
+    () =>
+      new Promise<Response>(() => {
+        // Never settles, like a batched call already sent with others
+      })
+  );
+  const controller = new AbortController();
+  const call = clientFetch(request(), { signal: controller.signal });
+  controller.abort(new Error("stop"));
+  await expect(call).rejects.toThrow("stop");
+});
+
+test("idempotent calls are retried on retryable statuses", async () => {
+  let calls = 0;
+  const clientFetch = createClientFetch(
+    () => {
+      calls += 1;
+      return Promise.resolve(
+        new Response(null, { status: calls < 2 ? 503 : 200 })
+      );
+    },
+    { retry: { attempts: 2, baseDelay: 1 } }
+  );
+  expect((await clientFetch(request())).status).toBe(200);
+  expect(calls).toBe(2);
+  calls = 0;
+  expect((await clientFetch(request("POST"))).status).toBe(503);
+  expect(calls).toBe(1);
+});
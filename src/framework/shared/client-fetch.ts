@@ -0,0 +1,287 @@
+/**
+ * HTTP call pipeline of the typed API client
+ * Each attempt runs the request interceptors, then fetch (with an optional timeout);
+ * idempotent calls are retried with exponential backoff, and the final response goes
+ * through the response interceptors
+ *
+ * Usage:
+ *   createApiClient({
+ *     interceptors: { request: [(req) => { req.headers.set("Authorization", token); return req; }] },
+ *     timeout: 10_000,
+ *     retry: { attempts: 2 },
+ *   });
+ *   await apiClient.products.list(undefined, { signal: controller.signal });
+ */
+
+import type { ApiFetch } from "./batch";
+import { IDEMPOTENCY_KEY_HEADER } from "./idempotency";
+
+/**
+ * Outgoing API request, as seen by interceptors
+ */
+export interface ApiRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body?: string | FormData;
+}
+
+/**
+ * Runs before each attempt (e.g. to add an auth token); returns the request to send
+ */
+export type RequestInterceptor = (
+  request: ApiRequest
+) => ApiRequest | Promise<ApiRequest>;
+
+/**
+ * Runs on the final response (e.g. to log or to refresh a session); returns the response to use
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: ApiRequest
+) => Response | Promise<Response>;
+
+/**
+ * Retry policy for idempotent methods (GET, HEAD, OPTIONS, PUT, DELETE) and calls
+ * carrying an Idempotency-Key
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  attempts: number;
+  /** Delay before the first retry in milliseconds, doubled each time (default: 200) */
+  baseDelay?: number;
+  /** Longest delay between attempts in milliseconds (default: 5000) */
+  maxDelay?: number;
+  /**
+   * Response statuses worth retrying (default: 408, 429, 500, 502, 503, 504,
+   * plus 409 for calls carrying an Idempotency-Key)
+   */
+  statuses?: number[];
+}
+
+/**
+ * Per-call options of the HTTP client, passed as the second argument of a call
+ * The in-process caller ignores them
+ */
+export interface ApiCallOptions {
+  /** Abort the call (rejects with the signal's reason) */
+  signal?: AbortSignal;
+  /** Abort each attempt after this many milliseconds (0 disables the client default) */
+  timeout?: number;
+  /** Retry policy (overrides the client default; `false` disables retries) */
+  retry?: RetryOptions | false;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /**
+   * Idempotency-Key of the call, for routes with `idempotency` (default: a new key per call)
+   * Reuse one key for repeated submits of the same form so they only write once
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Client-wide defaults of the call pipeline
+ */
+export interface ClientFetchOptions {
+  interceptors?: {
+    request?: RequestInterceptor[];
+    response?: ResponseInterceptor[];
+  };
+  /** Timeout of each attempt in milliseconds (default: none) */
+  timeout?: number;
+  /** Retry policy for idempotent methods (default: no retries) */
+  retry?: RetryOptions | false;
+}
+
+/**
+ * Send an API request through the pipeline
+ */
+export type ClientFetch = (
+  request: ApiRequest,
+  callOptions?: ApiCallOptions
+) => Promise<Response>;
+
+/**
+ * Methods safe to send more than once
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Statuses retried by default
+ */
+const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Statuses retried by default for calls carrying an Idempotency-Key
+ * (409: an earlier attempt with the same key is still running)
+ */
+const DEFAULT_KEYED_RETRY_STATUSES = [409, ...DEFAULT_RETRY_STATUSES];
+
+/**
+ * Delay before retry number `attempt` (0-based): the server's Retry-After when given,
+ * otherwise exponential backoff with jitter
+ */
+const retryDelay = (
+  retry: RetryOptions,
+  attempt: number,
+  response?: Response
+): number => {
+  const maxDelay = retry.maxDelay ?? 5000;
+  const retryAfter = Number(response?.headers.get("retry-after"));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, maxDelay);
+  }
+  const backoff = Math.min((retry.baseDelay ?? 200) * 2 ** attempt, maxDelay);
+  return backoff / 2 + (Math.random() * backoff) / 2;
+};
+
+/**
+ * Wait before the next attempt, stopping early when the call is aborted
+ */
+const wait = (ms: number, signal: AbortSignal | undefined): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Reject as soon as the signal aborts, even if the fetch implementation ignores it
+ * (e.g. a batched call already sent with others)
+ * The listener is removed once the call settles, so long-lived signals don't collect them
+ */
+const abortable = async (
+  pending: Promise<Response>,
+  signal: AbortSignal | undefined
+): Promise<Response> => {
+  if (!signal) {
+    return await pending;
+  }
+  const { promise: aborted, reject } = Promise.withResolvers<never>();
+  const onAbort = (): void => reject(signal.reason);
+  if (signal.aborted) {
+    onAbort();
+  } else {
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+  try {
+    return await Promise.race([pending, aborted]);
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+};
+
+/**
+ * Create the call pipeline over a fetch implementation (plain fetch or a batch link)
+ */
+export const createClientFetch = (
+  fetchFn: ApiFetch,
+  options: ClientFetchOptions = {}
+): ClientFetch => {
+  const requestInterceptors = options.interceptors?.request ?? [];
+  const responseInterceptors = options.interceptors?.response ?? [];
+
+  const prepare = async (
+    request: ApiRequest,
+    callOptions: ApiCallOptions
+  ): Promise<ApiRequest> => {
+    let prepared: ApiRequest = {
+      ...request,
+      headers: new Headers(request.headers),
+    };
+    for (const [name, value] of Object.entries(callOptions.headers ?? {})) {
+      prepared.headers.set(name, value);
+    }
+    for (const interceptor of requestInterceptors) {
+      prepared = await interceptor(prepared);
+    }
+    return prepared;
+  };
+
+  const attempt = (
+    request: ApiRequest,
+    callOptions: ApiCallOptions
+  ): Promise<Response> => {
+    const timeout = callOptions.timeout ?? options.timeout;
+    const signals = [
+      ...(callOptions.signal ? [callOptions.signal] : []),
+      ...(timeout ? [AbortSignal.timeout(timeout)] : []),
+    ];
+    const signal = signals.length > 0 ? AbortSignal.any(signals) : undefined;
+    const init: RequestInit = {
+      method: request.method,
+      headers: request.headers,
+    };
+    if (request.body !== undefined) {
+      init.body = request.body;
+    }
+    if (signal) {
+      init.signal = signal;
+    }
+    return abortable(fetchFn(request.url, init), signal);
+  };
+
+  const respond = async (
+    response: Response,
+    request: ApiRequest
+  ): Promise<Response> => {
+    let result = response;
+    for (const interceptor of responseInterceptors) {
+      result = await interceptor(result, request);
+    }
+    return result;
+  };
+
+  const retryPolicy = (
+    request: ApiRequest,
+    callOptions: ApiCallOptions
+  ): RetryOptions | undefined => {
+    const retry = callOptions.retry ?? options.retry;
+    if (!retry) {
+      return;
+    }
+    if (request.headers.has(IDEMPOTENCY_KEY_HEADER)) {
+      return { statuses: DEFAULT_KEYED_RETRY_STATUSES, ...retry };
+    }
+    return IDEMPOTENT_METHODS.has(request.method) ? retry : undefined;
+  };
+
+  return async (request, callOptions = {}) => {
+    const retry = retryPolicy(request, callOptions);
+
+    for (let count = 0; ; count++) {
+      const prepared = await prepare(request, callOptions);
+      // The caller aborting is never retried
+      const canRetry =
+        retry !== undefined &&
+        count < retry.attempts &&
+        !callOptions.signal?.aborted;
+      let response: Response;
+      try {
+        response = await attempt(prepared, callOptions);
+      } catch (error) {
+        // Network errors and timeouts
+        if (!canRetry) {
+          throw error;
+        }
+        await wait(retryDelay(retry, count), callOptions.signal);
+        continue;
+      }
+      const statuses = retry?.statuses ?? DEFAULT_RETRY_STATUSES;
+      if (!(canRetry && statuses.includes(response.status))) {
+        return respond(response, prepared);
+      }
+      await wait(retryDelay(retry, count, response), callOptions.signal);
+    }
+  };
+};
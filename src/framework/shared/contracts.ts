@@ -0,0 +1,396 @@
+/**
+ * Contract checks for API routes
+ * Generates inputs from each route's params/query/body schemas, calls the route through
+ * `api.testClient()`, and checks that successful responses match the `response` schema
+ * and failures are declared errors (or other client errors), never 5xx
+ *
+ * Routes run for real, so skip the ones with side effects you don't want:
+ *   test("API contracts", async () => {
+ *     await assertContracts(api, { skip: ["products.update"] });
+ *   });
+ *
+ * Streaming routes and multipart (form-data) routes are skipped
+ */
+
+import { z } from "zod";
+import type { AnyRoute, APIInstance, RouterShape } from "./api";
+import { ApiError } from "./api-errors";
+import type { TestClientOptions } from "./testing";
+
+/**
+ * JSON Schema object (as produced by z.toJSONSchema)
+ */
+type JSONSchema = Record<string, unknown>;
+
+/**
+ * Random number source in [0, 1)
+ */
+type Random = () => number;
+
+/**
+ * Contract check options
+ */
+export interface ContractOptions extends TestClientOptions {
+  /** Generated inputs per route (default: 25) */
+  runs?: number;
+  /** Seed for input generation, so failures are reproducible (default: 1) */
+  seed?: number;
+  /** Route names to skip, e.g. ["products.update", "hello.PUT"] */
+  skip?: string[];
+}
+
+/**
+ * A call that broke its route's contract
+ */
+export interface ContractFailure {
+  /** Route name, e.g. "products.byId" */
+  route: string;
+  input: unknown;
+  /** Response status (undefined when the call itself failed) */
+  status: number | undefined;
+  message: string;
+}
+
+/**
+ * Result of a contract run
+ */
+export interface ContractReport {
+  checked: string[];
+  skipped: string[];
+  failures: ContractFailure[];
+}
+
+/**
+ * Route found in the router, with its test client function
+ */
+interface ContractTarget {
+  name: string;
+  route: AnyRoute;
+  call: (input: unknown) => Promise<unknown>;
+}
+
+/**
+ * Deepest nesting generated for objects and arrays
+ */
+const MAX_DEPTH = 4;
+
+/**
+ * Characters used for generated strings (URL-unsafe ones included on purpose)
+ */
+const STRING_CHARS =
+  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 -_.~/%?&=é";
+
+/**
+ * Modulus of the Park-Miller generator (2^31 - 1)
+ */
+const RANDOM_MODULUS = 2_147_483_647;
+
+/**
+ * Seeded pseudo-random generator (Park-Miller minimal standard)
+ */
+const createRandom = (seed: number): Random => {
+  let state = (Math.abs(Math.floor(seed)) % (RANDOM_MODULUS - 1)) + 1;
+  return () => {
+    state = (state * 48_271) % RANDOM_MODULUS;
+    return (state - 1) / (RANDOM_MODULUS - 1);
+  };
+};
+
+/**
+ * Random integer in [min, max]
+ */
+const randomInt = (random: Random, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+/**
+ * Random item of a list
+ */
+const pick = <T>(random: Random, items: T[]): T | undefined =>
+  items[randomInt(random, 0, items.length - 1)];
+
+/**
+ * Generate a string honoring format and length constraints
+ */
+const sampleString = (schema: JSONSchema, random: Random): string => {
+  const id = randomInt(random, 0, 99_999);
+  switch (schema["format"]) {
+    case "email":
+      return `user${id}@example.com`;
+    case "uuid":
+      return crypto.randomUUID();
+    case "date-time":
+      return new Date(randomInt(random, 0, 4_102_444_800_000)).toISOString();
+    case "date":
+      return new Date(randomInt(random, 0, 4_102_444_800_000))
+        .toISOString()
+        .slice(0, 10);
+    case "uri":
+    case "url":
+      return `https://example.com/${id}`;
+    default:
+      break;
+  }
+  const minLength = (schema["minLength"] as number | undefined) ?? 0;
+  const maxLength = Math.min(
+    (schema["maxLength"] as number | undefined) ?? minLength + 12,
+    minLength + 12
+  );
+  const length = randomInt(random, minLength, maxLength);
+  return Array.from(
+    { length },
+    () => STRING_CHARS[randomInt(random, 0, STRING_CHARS.length - 1)]
+  ).join("");
+};
+
+/**
+ * Generate a number within the schema's bounds
+ */
+const sampleNumber = (schema: JSONSchema, random: Random): number => {
+  const min =
+    (schema["minimum"] as number | undefined) ??
+    ((schema["exclusiveMinimum"] as number | undefined) ?? -1001) + 1;
+  const max =
+    (schema["maximum"] as number | undefined) ??
+    ((schema["exclusiveMaximum"] as number | undefined) ?? 1001) - 1;
+  const value = min + random() * (max - min);
+  return schema["type"] === "integer" ? Math.ceil(value) : value;
+};
+
+/**
+ * Generate a value matching a JSON Schema (best effort: patterns and refinements
+ * aren't satisfied, which only yields extra 400 responses)
+ */
+const sample = (schema: JSONSchema, random: Random, depth = 0): unknown => {
+  if ("const" in schema) {
+    return schema["const"];
+  }
+  if (Array.isArray(schema["enum"])) {
+    return pick(random, schema["enum"]);
+  }
+  const variants = (schema["anyOf"] ?? schema["oneOf"] ?? schema["allOf"]) as
+    | JSONSchema[]
+    | undefined;
+  if (variants?.length) {
+    return sample(pick(random, variants) ?? {}, random, depth);
+  }
+  const type = Array.isArray(schema["type"])
+    ? pick(random, schema["type"] as string[])
+    : schema["type"];
+  const sampler = samplers[type as string] ?? sampleString;
+  return sampler(schema, random, depth);
+};
+
+/**
+ * Generate an array within the schema's item bounds
+ */
+const sampleArray = (
+  schema: JSONSchema,
+  random: Random,
+  depth: number
+): unknown[] => {
+  const tuple = schema["prefixItems"] as JSONSchema[] | undefined;
+  if (tuple) {
+    return tuple.map((item) => sample(item, random, depth + 1));
+  }
+  const minItems = (schema["minItems"] as number | undefined) ?? 0;
+  const maxItems = Math.min(
+    (schema["maxItems"] as number | undefined) ?? minItems + 3,
+    depth < MAX_DEPTH ? minItems + 3 : minItems
+  );
+  const items = (schema["items"] ?? {}) as JSONSchema;
+  return Array.from({ length: randomInt(random, minItems, maxItems) }, () =>
+    sample(items, random, depth + 1)
+  );
+};
+
+/**
+ * Generate an object: required properties always, optional ones half the time
+ */
+const sampleObject = (
+  schema: JSONSchema,
+  random: Random,
+  depth: number
+): Record<string, unknown> => {
+  const properties = (schema["properties"] ?? {}) as Record<string, JSONSchema>;
+  const required = new Set((schema["required"] ?? []) as string[]);
+  const value: Record<string, unknown> = {};
+  for (const [key, property] of Object.entries(properties)) {
+    if (required.has(key) || (depth < MAX_DEPTH && random() < 0.5)) {
+      value[key] = sample(property, random, depth + 1);
+    }
+  }
+  return value;
+};
+
+/**
+ * Generators by JSON Schema type
+ */
+const samplers: Record<
+  string,
+  (schema: JSONSchema, random: Random, depth: number) => unknown
+> = {
+  string: sampleString,
+  number: sampleNumber,
+  integer: sampleNumber,
+  boolean: (_schema, random) => random() < 0.5,
+  null: () => null,
+  array: sampleArray,
+  object: sampleObject,
+};
+
+/**
+ * Input JSON Schema of a route input
+ */
+const toInputSchema = (schema: z.ZodType): JSONSchema =>
+  z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as JSONSchema;
+
+/**
+ * Generate one call input for a route (`{ params, query, body }`)
+ */
+const sampleInput = (route: AnyRoute, random: Random): unknown => {
+  const { params, query, body, method } = route.config;
+  const input: Record<string, unknown> = {};
+  if (params) {
+    input["params"] = sample(toInputSchema(params), random);
+  }
+  if (query) {
+    input["query"] = sample(toInputSchema(query), random);
+  }
+  if (body && method !== "GET") {
+    input["body"] = sample(toInputSchema(body), random);
+  }
+  return Object.keys(input).length > 0 ? input : undefined;
+};
+
+/**
+ * Find every route in a router alongside the matching test client function
+ */
+const collectTargets = (
+  routes: object,
+  client: Record<string, unknown>,
+  prefix = ""
+): ContractTarget[] =>
+  Object.entries(routes).flatMap(([key, value]): ContractTarget[] => {
+    if (!value || typeof value !== "object") {
+      return [];
+    }
+    const name = prefix ? `${prefix}.${key}` : key;
+    const brand = "_brand" in value ? value._brand : undefined;
+    if (brand === "Route") {
+      return [
+        {
+          name,
+          route: value as AnyRoute,
+          call: client[key] as ContractTarget["call"],
+        },
+      ];
+    }
+    if (brand === "Channel") {
+      return [];
+    }
+    return collectTargets(value, client[key] as Record<string, unknown>, name);
+  });
+
+/**
+ * Check a rejected call: declared errors must carry their data, and nothing may be a 5xx
+ */
+const checkError = (error: unknown, route: AnyRoute): string | undefined => {
+  if (!(error instanceof ApiError)) {
+    return `Call failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  if (error.status >= 500) {
+    return `Server error ${error.status} (${error.code}): ${error.message}`;
+  }
+  const declared = route.config.errors?.[error.code];
+  if (declared?.data && !declared.data.safeParse(error.data).success) {
+    return `Error ${error.code} data doesn't match its declared schema`;
+  }
+  return;
+};
+
+/**
+ * Call a route with one input and describe any contract violation
+ */
+const checkCall = async (
+  target: ContractTarget,
+  input: unknown
+): Promise<ContractFailure | undefined> => {
+  try {
+    const result = await target.call(input);
+    const parsed = target.route.config.response.safeParse(result);
+    if (parsed.success) {
+      return;
+    }
+    return {
+      route: target.name,
+      input,
+      status: 200,
+      message: `Response doesn't match the response schema: ${z.prettifyError(parsed.error)}`,
+    };
+  } catch (error) {
+    const message = checkError(error, target.route);
+    return message
+      ? {
+          route: target.name,
+          input,
+          status: error instanceof ApiError ? error.status : undefined,
+          message,
+        }
+      : undefined;
+  }
+};
+
+/**
+ * Fuzz every route of an API and report contract violations
+ */
+export const checkContracts = async (
+  api: Pick<APIInstance<RouterShape>, "routes" | "testClient">,
+  options: ContractOptions = {}
+): Promise<ContractReport> => {
+  const { runs = 25, seed = 1, skip = [], ...clientOptions } = options;
+  const random = createRandom(seed);
+  const report: ContractReport = { checked: [], skipped: [], failures: [] };
+  const client = api.testClient(clientOptions) as Record<string, unknown>;
+
+  for (const target of collectTargets(api.routes, client)) {
+    const { route } = target;
+    if (
+      skip.includes(target.name) ||
+      route.kind === "stream" ||
+      route.config.bodyType === "form-data"
+    ) {
+      report.skipped.push(target.name);
+      continue;
+    }
+    report.checked.push(target.name);
+    for (let run = 0; run < runs; run++) {
+      const failure = await checkCall(target, sampleInput(route, random));
+      if (failure) {
+        report.failures.push(failure);
+      }
+    }
+  }
+  return report;
+};
+
+/**
+ * Fuzz every route and throw when any contract is violated (for `bun test`)
+ */
+export const assertContracts = async (
+  api: Pick<APIInstance<RouterShape>, "routes" | "testClient">,
+  options?: ContractOptions
+): Promise<ContractReport> => {
+  const report = await checkContracts(api, options);
+  if (report.failures.length > 0) {
+    const details = report.failures
+      .map(
+        ({ route, status, message, input }) =>
+          `- ${route} (${status ?? "no response"}): ${message}\n  input: ${JSON.stringify(input)}`
+      )
+      .join("\n");
+    throw new Error(
+      `${report.failures.length} API contract violation(s):\n${details}`
+    );
+  }
+  return report;
+};
@@ -0,0 +1,85 @@
+import { expect, test } from "bun:test";
+import {
+  applyCors,
+  type CorsPolicy,
+  FRAMEWORK_RESPONSE_HEADERS,
+  optionsResponse,
+} from "./cors";
+
+const crossOrigin = (origin: string, init?: RequestInit) =>
+  new Request("http://api.test/api/items", {
+    ...init,
+    headers: { origin, ...init?.headers },
+  });
+
+test("exposes the framework's headers to allowed origins", () => {
+  const policy: CorsPolicy = {
+    origin: "*",
+    exposedHeaders: [...FRAMEWORK_RESPONSE_HEADERS],
+  };
+  const response = applyCors(
+    new Response("ok"),
+    policy,
+    crossOrigin("https://app.test")
+  );
+  expect(response.headers.get("access-control-allow-origin")).toBe("*");
+  const exposed = response.headers.get("access-control-expose-headers");
+  for (const header of [
+    "RateLimit-Remaining",
+    "Deprecation",
+    "Sunset",
+    "Link",
+    "Idempotent-Replayed",
+  ]) {
+    expect(exposed).toContain(header);
+  }
+});
+
+test("echoes credentialed origins and ignores unlisted ones", () => {
+  const policy: CorsPolicy = {
+    origin: ["https://partner.test"],
+    credentials: true,
+  };
+  const allowed = applyCors(
+    new Response("ok", { headers: { vary: "Accept" } }),
+    policy,
+    crossOrigin("https://partner.test")
+  );
+  expect(allowed.headers.get("access-control-allow-origin")).toBe(
+    "https://partner.test"
+  );
+  expect(allowed.headers.get("access-control-allow-credentials")).toBe("true");
+  expect(allowed.headers.get("vary")).toBe("Accept, Origin");
+
+  const denied = applyCors(
+    new Response("ok"),
+    policy,
+    crossOrigin("https://evil.test")
+  );
+  expect(denied.headers.has("access-control-allow-origin")).toBe(false);
+});
+
+test("answers preflight only for allowed methods", () => {
+  const policy: CorsPolicy = { origin: "*", maxAge: 600 };
+  const preflight = (method: string) =>
+    optionsResponse(
+      crossOrigin("https://app.test", {
+        method: "OPTIONS",
+        headers: {
+          "access-control-request-method": method,
+          "access-control-request-headers": "content-type",
+        },
+      }),
+      ["GET", "POST"],
+      policy
+    );
+  const ok = preflight("POST");
+  expect(ok.status).toBe(204);
+  expect(ok.headers.get("access-control-allow-methods")).toBe("GET, POST");
+  expect(ok.headers.get("access-control-allow-headers")).toBe("content-type");
+  expect(ok.headers.get("access-control-max-age")).toBe("600");
+
+  const rejected = preflight("DELETE");
+  expect(rejected.headers.get("allow")).toBe("GET, POST");
+  expect(rejected.headers.has("access-control-allow-origin")).toBe(false);
+});
@@ -0,0 +1,142 @@
+/**
+ * CORS for API routes
+ * A typed policy set per API (`createAPI(routes, { cors })`) or per router subtree
+ * (`withCors(policy, routes)`); the most specific policy wins
+ *
+ * Preflight (OPTIONS + Access-Control-Request-Method) is answered by the API itself,
+ * so route handlers and middleware never see it
+ */
+
+/**
+ * CORS policy
+ */
+export interface CorsPolicy {
+  /** Allowed origins: "*" (any), a list of exact origins, or a predicate */
+  origin: "*" | string[] | ((origin: string) => boolean);
+  /** Allow cookies / Authorization (the request origin is echoed instead of "*") */
+  credentials?: boolean;
+  /** How long browsers may cache a preflight result, in seconds */
+  maxAge?: number;
+  /** Response headers readable by the page, e.g. ["ETag", "Retry-After"] */
+  exposedHeaders?: string[];
+  /** Request headers allowed in preflight (default: whatever the browser asks for) */
+  allowedHeaders?: string[];
+}
+
+/**
+ * Response headers the framework itself sets: caching, rate limiting, deprecation
+ * and idempotent replays
+ * Spread into `exposedHeaders` so cross-origin pages can read them
+ */
+export const FRAMEWORK_RESPONSE_HEADERS = [
+  "ETag",
+  "Retry-After",
+  "RateLimit-Limit",
+  "RateLimit-Remaining",
+  "RateLimit-Reset",
+  "Deprecation",
+  "Sunset",
+  "Link",
+  "Idempotent-Replayed",
+] as const;
+
+/**
+ * Check if a request origin is allowed by the policy
+ */
+const isOriginAllowed = (policy: CorsPolicy, origin: string): boolean => {
+  if (policy.origin === "*") {
+    return true;
+  }
+  if (typeof policy.origin === "function") {
+    return policy.origin(origin);
+  }
+  return policy.origin.includes(origin);
+};
+
+/**
+ * Origin headers shared by preflight and actual responses
+ * Undefined when the request isn't cross-origin or its origin isn't allowed
+ */
+const originHeaders = (
+  policy: CorsPolicy,
+  req: Request
+): Record<string, string> | undefined => {
+  const origin = req.headers.get("origin");
+  if (!(origin && isOriginAllowed(policy, origin))) {
+    return;
+  }
+  const wildcard = policy.origin === "*" && !policy.credentials;
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Origin": wildcard ? "*" : origin,
+  };
+  if (!wildcard) {
+    headers["Vary"] = "Origin";
+  }
+  if (policy.credentials) {
+    headers["Access-Control-Allow-Credentials"] = "true";
+  }
+  return headers;
+};
+
+/**
+ * Add CORS headers to an actual (non-preflight) response
+ */
+export const applyCors = (
+  response: Response,
+  policy: CorsPolicy,
+  req: Request
+): Response => {
+  const headers = originHeaders(policy, req);
+  if (!headers) {
+    return response;
+  }
+  if (policy.exposedHeaders?.length) {
+    headers["Access-Control-Expose-Headers"] = policy.exposedHeaders.join(", ");
+  }
+  const merged = new Headers(response.headers);
+  for (const [name, value] of Object.entries(headers)) {
+    if (name === "Vary" && merged.has("vary")) {
+      merged.set("Vary", `${merged.get("vary")}, ${value}`);
+    } else {
+      merged.set(name, value);
+    }
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: merged,
+  });
+};
+
+/**
+ * Answer an OPTIONS request: the `Allow` header, plus preflight headers when the
+ * request is a CORS preflight for an allowed origin and method
+ */
+export const optionsResponse = (
+  req: Request,
+  allowedMethods: string[],
+  policy: CorsPolicy | undefined
+): Response => {
+  const headers: Record<string, string> = { Allow: allowedMethods.join(", ") };
+  const requestedMethod = req.headers.get("access-control-request-method");
+  const preflight =
+    policy && requestedMethod && allowedMethods.includes(requestedMethod)
+      ? originHeaders(policy, req)
+      : undefined;
+
+  if (policy && preflight) {
+    Object.assign(headers, preflight);
+    headers["Access-Control-Allow-Methods"] = allowedMethods.join(", ");
+    const requestedHeaders = req.headers.get("access-control-request-headers");
+    const allowedHeaders =
+      policy.allowedHeaders?.join(", ") ?? requestedHeaders;
+    if (allowedHeaders) {
+      headers["Access-Control-Allow-Headers"] = allowedHeaders;
+    }
+    if (policy.maxAge !== undefined) {
+      headers["Access-Control-Max-Age"] = String(policy.maxAge);
+    }
+  }
+
+  return new Response(null, { status: 204, headers });
+};
@@ -0,0 +1,34 @@
+import { expect, test } from "bun:test";
+import { applyDeprecation, resolveDeprecation } from "./deprecation";
+
+test("routes inherit, override or opt out of a subtree deprecation", () => {
+  const subtree = { sunset: new Date("2027-01-01") };
+  expect(resolveDeprecation(undefined, subtree)).toBe(subtree);
+  expect(resolveDeprecation(true, subtree)).toEqual({});
+  expect(resolveDeprecation(false, subtree)).toBeUndefined();
+  expect(resolveDeprecation({ link: "/docs" }, subtree)).toEqual({
+    link: "/docs",
+  });
+});
+
+test("sets the Deprecation, Sunset and Link headers", () => {
+  const response = applyDeprecation(
+    new Response("ok", { headers: { link: '</items?page=2>; rel="next"' } }),
+    {
+      since: new Date("2026-01-01T00:00:00Z"),
+      sunset: new Date("2027-01-01T00:00:00Z"),
+      link: "/docs/v2",
+    }
+  );
+  expect(response.headers.get("deprecation")).toBe("@1767225600");
+  expect(response.headers.get("sunset")).toBe("Fri, 01 Jan 2027 00:00:00 GMT");
+  expect(response.headers.get("link")).toBe(
+    '</items?page=2>; rel="next", </docs/v2>; rel="deprecation"'
+  );
+});
+
+test("sends Deprecation: true without a date", () => {
+  const response = applyDeprecation(new Response("ok"), {});
+  expect(response.headers.get("deprecation")).toBe("true");
+  expect(response.headers.has("sunset")).toBe(false);
+});
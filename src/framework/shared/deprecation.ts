@@ -0,0 +1,63 @@
+/**
+ * Route deprecation
+ * Deprecated routes keep working but answer with a `Deprecation` header (RFC 9745),
+ * plus `Sunset` (RFC 8594) once a removal date is set, so clients can migrate
+ *
+ * Usage:
+ *   route({ ..., deprecated: { sunset: new Date("2027-01-01"), link: "/docs/v2" } })
+ *   deprecate({ sunset: new Date("2027-01-01") }, v1Routes) // whole subtree
+ */
+
+/**
+ * Deprecation details of a route or router subtree
+ */
+export interface RouteDeprecation {
+  /** When the route was deprecated (sent as "true" when unknown) */
+  since?: Date;
+  /** When the route will stop working */
+  sunset?: Date;
+  /** Migration guide, sent as `Link: <url>; rel="deprecation"` */
+  link?: string;
+}
+
+/**
+ * Route-level `deprecated` option: `true` for no details, `false` to opt out of a
+ * deprecated subtree
+ */
+export type DeprecatedOption = boolean | RouteDeprecation;
+
+/**
+ * Resolve a route's deprecation from its own option and its subtree's
+ */
+export const resolveDeprecation = (
+  own: DeprecatedOption | undefined,
+  inherited: RouteDeprecation | undefined
+): RouteDeprecation | undefined => {
+  if (own === undefined) {
+    return inherited;
+  }
+  if (typeof own === "boolean") {
+    return own ? {} : undefined;
+  }
+  return own;
+};
+
+/**
+ * Add deprecation headers to a route response
+ */
+export const applyDeprecation = (
+  response: Response,
+  { since, sunset, link }: RouteDeprecation
+): Response => {
+  response.headers.set(
+    "Deprecation",
+    since ? `@${Math.floor(since.getTime() / 1000)}` : "true"
+  );
+  if (sunset) {
+    response.headers.set("Sunset", sunset.toUTCString());
+  }
+  if (link) {
+    response.headers.append("Link", `<${link}>; rel="deprecation"`);
+  }
+  return response;
+};
@@ -0,0 +1,198 @@
+/**
+ * Segment error boundaries: `error.tsx` and `global-error.tsx`
+ * An `error.tsx` catches errors thrown by the layouts and pages below its directory
+ * and renders in their place, inside the layouts above it. When no `error.tsx` can
+ * render, `src/app/global-error.tsx` replaces the root layout.
+ *
+ * Usage (src/app/dashboard/error.tsx):
+ *   export default clientComponent(({ error, reset }: ErrorComponentProps) => (
+ *     <button onClick={reset} type="button">Retry ({error.message})</button>
+ *   ));
+ */
+
+import { Component, type ComponentType, type ReactNode } from "react";
+
+/**
+ * Error passed to error components
+ * `digest` identifies the server log entry of errors thrown while rendering on the server
+ */
+export type RouteError = Error & { digest?: string };
+
+/**
+ * Props of `error.tsx` and `global-error.tsx` components
+ */
+export interface ErrorComponentProps {
+  error: RouteError;
+  /** Render the segment again (reloads the page for errors thrown on the server) */
+  reset: () => void;
+}
+
+/**
+ * Server error embedded in the route data, so hydration starts with the boundary that rendered it
+ */
+export interface RouteErrorData {
+  message: string;
+  digest: string;
+  /** Index of the boundary in the route's error boundaries, or "global" for global-error.tsx */
+  boundary: number | "global";
+}
+
+/**
+ * Error boundary of one route segment
+ */
+export interface SegmentErrorBoundary {
+  component: ComponentType<ErrorComponentProps>;
+  /** Number of layouts wrapping the boundary (the root layout excluded) */
+  layoutDepth: number;
+  /** Server error the boundary renders from the start */
+  error?: RouteErrorData;
+  /** Clears the error when it changes (e.g. the path, on client-side navigation) */
+  resetKey?: string;
+}
+
+/**
+ * Message shown instead of server error messages in production
+ */
+const PRODUCTION_ERROR_MESSAGE =
+  "An error occurred while rendering this page on the server";
+
+/**
+ * Route data for a server error (the message is hidden in production, the digest is kept)
+ */
+export const toRouteErrorData = (
+  error: unknown,
+  digest: string,
+  boundary: number | "global"
+): RouteErrorData => ({
+  message:
+    process.env.NODE_ENV === "production"
+      ? PRODUCTION_ERROR_MESSAGE
+      : String(error instanceof Error ? error.message : error),
+  digest,
+  boundary,
+});
+
+/**
+ * Error passed to the error component for a server error
+ */
+const fromRouteErrorData = (data: RouteErrorData): RouteError =>
+  Object.assign(new Error(data.message), { digest: data.digest });
+
+interface ErrorBoundaryProps {
+  children?: ReactNode;
+  /** Component rendered in place of the children once they throw */
+  fallback: ComponentType<ErrorComponentProps>;
+  /** Server error to render from the start */
+  initialError?: RouteErrorData | undefined;
+  /** Clears the error when it changes */
+  resetKey?: string | undefined;
+}
+
+interface ErrorBoundaryState {
+  error: RouteError | null;
+}
+
+/**
+ * React error boundary rendering an error component with a reset action
+ */
+// biome-ignore lint/style/useReactFunctionComponents: error boundaries can only be class components
+export class ErrorBoundary extends Component<
+  ErrorBoundaryProps,
+  ErrorBoundaryState
+> {
+  constructor(props: ErrorBoundaryProps) {
+    super(props);
+    this.state = {
+      error: props.initialError ? fromRouteErrorData(props.initialError) : null,
+    };
+  }
+
+  static getDerivedStateFromError(error: unknown): ErrorBoundaryState {
+    return {
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+
+  override componentDidUpdate(previousProps: ErrorBoundaryProps): void {
+    if (
+      this.state.error &&
+      !this.props.initialError &&
+      previousProps.resetKey !== this.props.resetKey
+    ) {
+      this.setState({ error: null });
+    }
+  }
+
+  /**
+   * Errors rendered on the server have no children to render again, so they reload the page
+   */
+  reset = (): void => {
+    if (this.props.initialError) {
+      window.location.reload();
+      return;
+    }
+    this.setState({ error: null });
+  };
+
+  override render(): ReactNode {
+    const { error } = this.state;
+    if (!error) {
+      return this.props.children;
+    }
+    const Fallback = this.props.fallback;
+    return <Fallback error={error} reset={this.reset} />;
+  }
+}
+
+/**
+ * Nest content in its layouts and error boundaries, innermost first
+ * A boundary with `layoutDepth` n sits inside layout n - 1 and around layout n
+ */
+export const buildSegmentTree = (
+  content: ReactNode,
+  layoutCount: number,
+  wrapLayout: (children: ReactNode, index: number) => ReactNode,
+  boundaries: SegmentErrorBoundary[]
+): ReactNode => {
+  // Boundaries of the same depth (directories without a layout) nest in directory order
+  const wrapBoundaries = (children: ReactNode, depth: number): ReactNode => {
+    let wrapped = children;
+    for (let i = boundaries.length - 1; i >= 0; i--) {
+      const boundary = boundaries[i];
+      if (boundary?.layoutDepth === depth) {
+        wrapped = (
+          <ErrorBoundary
+            fallback={boundary.component}
+            initialError={boundary.error}
+            resetKey={boundary.resetKey}
+          >
+            {wrapped}
+          </ErrorBoundary>
+        );
+      }
+    }
+    return wrapped;
+  };
+
+  let tree = wrapBoundaries(content, layoutCount);
+  for (let i = layoutCount - 1; i >= 0; i--) {
+    tree = wrapBoundaries(wrapLayout(tree, i), i);
+  }
+  return tree;
+};
+
+/**
+ * Boundaries rendering a server error: the failed boundary, starting with the error,
+ * and the boundaries above it (the layouts below it are left out)
+ */
+export const withRouteError = (
+  boundaries: SegmentErrorBoundary[],
+  error: RouteErrorData
+): SegmentErrorBoundary[] =>
+  typeof error.boundary === "number"
+    ? boundaries
+        .slice(0, error.boundary + 1)
+        .map((boundary, index) =>
+          index === error.boundary ? { ...boundary, error } : boundary
+        )
+    : [];
@@ -0,0 +1,100 @@
+/**
+ * multipart/form-data support for API route bodies
+ * Server side: converts FormData into a plain object for Zod validation and saves uploads
+ * Client side: builds FormData from call input containing File/Blob values
+ *
+ * Declare file fields with Zod's file schema, e.g. `z.file().max(2 * MB).mime(["image/png"])`
+ */
+
+import type { ZodType } from "zod";
+
+/**
+ * Request body encoding of a route
+ */
+export type BodyType = "json" | "form-data";
+
+/**
+ * Bytes in a megabyte, for file size limits
+ */
+export const MB = 1024 * 1024;
+
+/**
+ * Check if a schema field expects multiple values (an array)
+ */
+const isArrayField = (schema: ZodType, key: string): boolean => {
+  const shape = (schema as { shape?: Record<string, ZodType> }).shape;
+  const field = shape?.[key] as { _zod?: { def?: { type?: string } } };
+  return field?._zod?.def?.type === "array";
+};
+
+/**
+ * Convert FormData to a plain object
+ * Repeated keys (and keys whose schema field is an array) become arrays;
+ * text values stay strings, so use `z.coerce` for numbers and booleans
+ */
+export const formDataToObject = (
+  formData: FormData,
+  schema: ZodType
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const key of new Set(formData.keys())) {
+    const values = formData.getAll(key);
+    result[key] =
+      values.length > 1 || isArrayField(schema, key) ? values : values[0];
+  }
+  return result;
+};
+
+/**
+ * Check if call input contains File/Blob values (and must be sent as form data)
+ */
+export const hasBlobValues = (value: unknown): boolean =>
+  value !== null &&
+  typeof value === "object" &&
+  Object.values(value).some(
+    (field) =>
+      field instanceof Blob ||
+      (Array.isArray(field) && field.some((item) => item instanceof Blob))
+  );
+
+/**
+ * Append a single value to FormData
+ * Objects are sent as JSON strings
+ */
+const appendValue = (formData: FormData, key: string, value: unknown): void => {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (value instanceof Blob) {
+    formData.append(key, value);
+  } else if (typeof value === "object") {
+    formData.append(key, JSON.stringify(value));
+  } else {
+    formData.append(key, String(value));
+  }
+};
+
+/**
+ * Build FormData from a body object
+ * Arrays are appended as repeated keys
+ */
+export const toFormData = (body: Record<string, unknown>): FormData => {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(body)) {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        appendValue(formData, key, item);
+      }
+    } else {
+      appendValue(formData, key, value);
+    }
+  }
+  return formData;
+};
+
+/**
+ * Write an uploaded file to disk (streamed by Bun, not buffered in JS)
+ * Returns the number of bytes written
+ */
+export const saveUpload = (file: Blob, destination: string): Promise<number> =>
+  Bun.write(Bun.file(destination), file);
@@ -0,0 +1,91 @@
+import { expect, test } from "bun:test";
+import { rememberClientAddress } from "./client-address";
+import {
+  createMemoryIdempotencyStore,
+  IDEMPOTENCY_KEY_HEADER,
+  type IdempotencyOptions,
+  runIdempotent,
+} from "./idempotency";
+
+const request = (
+  body: string,
+  { key = "key-1", address = "10.0.0.1" } = {}
+): Request => {
+  const req = new Request("http://localhost/api/users/create", {
+    method: "POST",
+    headers: { [IDEMPOTENCY_KEY_HEADER]: key },
+    body,
+  });
+  rememberClientAddress(req, {
+    requestIP: () => ({ address, family: "IPv4", port: 1 }),
+  } as never);
+  return req;
+};
+
+const counter = () => {
+  let calls = 0;
+  return {
+    run: () => {
+      calls += 1;
+      return Promise.resolve(Response.json({ calls }, { status: 201 }));
+    },
+    get calls() {
+      return calls;
+    },
+  };
+};
+
+const options = (): IdempotencyOptions => ({
+  store: createMemoryIdempotencyStore(),
+});
+
+test("replays the first response to retries", async () => {
+  const handler = counter();
+  const opts = options();
+  await runIdempotent(request("{}"), opts, "create", handler.run);
+  const replay = await runIdempotent(
+    request("{}"),
+    opts,
+    "create",
+    handler.run
+  );
+  expect(handler.calls).toBe(1);
+  expect(replay.status).toBe(201);
+  expect(replay.headers.get("idempotent-replayed")).toBe("true");
+});
+
+test("rejects a reused key with a different body", async () => {
+  const handler = counter();
+  const opts = options();
+  await runIdempotent(request('{"a":1}'), opts, "create", handler.run);
+  const reused = await runIdempotent(
+    request('{"a":2}'),
+    opts,
+    "create",
+    handler.run
+  );
+  expect(reused.status).toBe(422);
+});
+
+test("keys are scoped per client address by default", async () => {
+  const handler = counter();
+  const opts = options();
+  await runIdempotent(request("{}"), opts, "create", handler.run);
+  const other = await runIdempotent(
+    request("{}", { address: "10.0.0.2" }),
+    opts,
+    "create",
+    handler.run
+  );
+  expect(handler.calls).toBe(2);
+  expect(other.headers.get("idempotent-replayed")).toBeNull();
+});
+
+test("bodies over maxBodySize are rejected before they are buffered", async () => {
+  const handler = counter();
+  const opts = { ...options(), maxBodySize: 8 };
+  await expect(
+    runIdempotent(request("x".repeat(64)), opts, "create", handler.run)
+  ).rejects.toMatchObject({ status: 413, code: "PAYLOAD_TOO_LARGE" });
+  expect(handler.calls).toBe(0);
+});
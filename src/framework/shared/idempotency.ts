@@ -0,0 +1,330 @@
+/**
+ * Idempotency-Key handling for mutating API routes
+ * The first response per key is stored and replayed to retries, so a double-submitted
+ * form or a retried request only writes once
+ *
+ * Usage:
+ *   route({ method: "POST", ..., idempotency: true })
+ *   route({ method: "POST", ..., idempotency: { ttlMs: 60_000, required: true } })
+ * Requests carrying the same key while the first one runs get 409 IDEMPOTENCY_KEY_IN_USE;
+ * reusing a key with a different request gets 422 IDEMPOTENCY_KEY_REUSED.
+ * Replayed responses carry `Idempotent-Replayed: true`
+ */
+
+import { RouteError } from "./api-errors";
+import { getClientAddress } from "./client-address";
+
+/**
+ * Request header carrying the key
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * Methods that can opt into idempotency keys
+ */
+export const IDEMPOTENT_KEY_METHODS = new Set(["POST", "PUT", "PATCH"]);
+
+/**
+ * Response kept for replay
+ */
+export interface StoredResponse {
+  status: number;
+  headers: [string, string][];
+  body: string;
+}
+
+/**
+ * State of a key: claimed by a running request, or completed with its response
+ */
+export type IdempotencyRecord =
+  | { state: "pending"; fingerprint: string }
+  | { state: "completed"; fingerprint: string; response: StoredResponse };
+
+/**
+ * Storage for idempotency records
+ */
+export interface IdempotencyStore {
+  /** Claim `key` for a request; returns the existing record when the key is taken */
+  claim: (
+    key: string,
+    fingerprint: string,
+    ttlMs: number
+  ) => IdempotencyRecord | undefined | Promise<IdempotencyRecord | undefined>;
+  /** Store the response of a claimed key for replay */
+  complete: (
+    key: string,
+    response: StoredResponse,
+    ttlMs: number
+  ) => void | Promise<void>;
+  /** Free a claimed key without a response (e.g. after a server error) */
+  release: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Idempotency options of a route
+ */
+export interface IdempotencyOptions {
+  /** How long responses are replayed in milliseconds (default: 24 hours) */
+  ttlMs?: number;
+  /** Reject requests without an Idempotency-Key with 400 (default: false) */
+  required?: boolean;
+  /**
+   * Key namespace for a request, so clients can't replay each other's responses
+   * (e.g. the authenticated user id; default: the client address)
+   */
+  scope?: (request: Request) => string | Promise<string>;
+  /**
+   * Largest body fingerprinted in bytes; larger requests get 413 PAYLOAD_TOO_LARGE
+   * (default: the route's `maxBodySize`, or 1 MB)
+   */
+  maxBodySize?: number;
+  /** Record storage (default: shared store, see setDefaultIdempotencyStore) */
+  store?: IdempotencyStore;
+}
+
+/**
+ * Default replay window (24 hours)
+ */
+const DEFAULT_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Longest key accepted
+ */
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Default largest body fingerprinted (1 MB)
+ */
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * In-memory store (records are lost on restart)
+ * Expired records are swept once they outnumber the live ones
+ */
+export const createMemoryIdempotencyStore = (): IdempotencyStore => {
+  const records = new Map<
+    string,
+    { record: IdempotencyRecord; expiresAt: number }
+  >();
+  let sweepAt = 1000;
+
+  const sweep = (now: number): void => {
+    for (const [key, entry] of records) {
+      if (entry.expiresAt <= now) {
+        records.delete(key);
+      }
+    }
+    sweepAt = Math.max(1000, records.size * 2);
+  };
+
+  return {
+    claim: (key, fingerprint, ttlMs) => {
+      const now = Date.now();
+      if (records.size >= sweepAt) {
+        sweep(now);
+      }
+      const current = records.get(key);
+      if (current && current.expiresAt > now) {
+        return current.record;
+      }
+      records.set(key, {
+        record: { state: "pending", fingerprint },
+        expiresAt: now + ttlMs,
+      });
+      return;
+    },
+    complete: (key, response, ttlMs) => {
+      const current = records.get(key);
+      if (current) {
+        records.set(key, {
+          record: {
+            state: "completed",
+            fingerprint: current.record.fingerprint,
+            response,
+          },
+          expiresAt: Date.now() + ttlMs,
+        });
+      }
+    },
+    release: (key) => {
+      records.delete(key);
+    },
+  };
+};
+
+/**
+ * Store used when options don't specify one
+ */
+let defaultStore: IdempotencyStore = createMemoryIdempotencyStore();
+
+/**
+ * Replace the default store (e.g. with a shared store at server startup)
+ * Applies to every route without its own `store`
+ */
+export const setDefaultIdempotencyStore = (store: IdempotencyStore): void => {
+  defaultStore = store;
+};
+
+/**
+ * Error for a body larger than the fingerprint limit
+ */
+const payloadTooLarge = (maxBodySize: number): RouteError =>
+  new RouteError(413, "PAYLOAD_TOO_LARGE", {
+    message: `Request body exceeds ${maxBodySize} bytes`,
+  });
+
+/**
+ * Read a request body, giving up once it grows past `maxBodySize`
+ * Content-Length is checked first; the stream is still counted, since it may be missing or wrong
+ */
+const readBoundedBody = async (
+  request: Request,
+  maxBodySize: number
+): Promise<Uint8Array[]> => {
+  const contentLength = Number(request.headers.get("content-length") ?? 0);
+  if (contentLength > maxBodySize) {
+    throw payloadTooLarge(maxBodySize);
+  }
+  const chunks: Uint8Array[] = [];
+  const body = request.clone().body;
+  if (!body) {
+    return chunks;
+  }
+  const reader = body.getReader();
+  let size = 0;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return chunks;
+    }
+    size += value.byteLength;
+    if (size > maxBodySize) {
+      await reader.cancel();
+      throw payloadTooLarge(maxBodySize);
+    }
+    chunks.push(value);
+  }
+};
+
+/**
+ * Hash of what makes a request "the same": method, URL and body
+ */
+const fingerprintRequest = async (
+  request: Request,
+  maxBodySize: number
+): Promise<string> => {
+  const chunks = await readBoundedBody(request, maxBodySize);
+  const target = new TextEncoder().encode(`${request.method} ${request.url}\n`);
+  const data = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.byteLength, target.length)
+  );
+  data.set(target);
+  let offset = target.length;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+};
+
+/**
+ * Rebuild a stored response, marked as a replay
+ */
+const replayResponse = ({
+  status,
+  headers,
+  body,
+}: StoredResponse): Response => {
+  const response = new Response(body, { status, headers });
+  response.headers.set("Idempotent-Replayed", "true");
+  return response;
+};
+
+/**
+ * Answer a request whose key is already taken
+ */
+const takenKeyResponse = (
+  record: IdempotencyRecord,
+  fingerprint: string
+): Response => {
+  if (record.fingerprint !== fingerprint) {
+    return new RouteError(422, "IDEMPOTENCY_KEY_REUSED", {
+      message: "Idempotency-Key was already used for a different request",
+    }).toResponse();
+  }
+  if (record.state === "completed") {
+    return replayResponse(record.response);
+  }
+  const response = new RouteError(409, "IDEMPOTENCY_KEY_IN_USE", {
+    message: "A request with this Idempotency-Key is still in progress",
+  }).toResponse();
+  response.headers.set("Retry-After", "1");
+  return response;
+};
+
+/**
+ * Run a route at most once per Idempotency-Key
+ * `name` namespaces keys per route ("POST /api/users/create"), the scope per client
+ * Responses below 500 are stored for replay; server errors free the key so it can be retried
+ */
+export const runIdempotent = async (
+  request: Request,
+  options: IdempotencyOptions,
+  name: string,
+  run: () => Promise<Response>
+): Promise<Response> => {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (!key) {
+    return options.required
+      ? new RouteError(400, "BAD_REQUEST", {
+          message: "Idempotency-Key header is required",
+        }).toResponse()
+      : run();
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    return new RouteError(400, "BAD_REQUEST", {
+      message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    }).toResponse();
+  }
+
+  const store = options.store ?? defaultStore;
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL;
+  const scope = options.scope
+    ? await options.scope(request)
+    : (getClientAddress(request) ?? "");
+  const storeKey = `${name}:${scope}:${key}`;
+  const fingerprint = await fingerprintRequest(
+    request,
+    options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE
+  );
+
+  const existing = await store.claim(storeKey, fingerprint, ttlMs);
+  if (existing) {
+    return takenKeyResponse(existing, fingerprint);
+  }
+
+  let response: Response;
+  try {
+    response = await run();
+  } catch (error) {
+    await store.release(storeKey);
+    throw error;
+  }
+  if (response.status >= 500) {
+    await store.release(storeKey);
+    return response;
+  }
+  const headers: [string, string][] = [];
+  response.headers.forEach((value, header) => {
+    headers.push([header, value]);
+  });
+  await store.complete(
+    storeKey,
+    { status: response.status, headers, body: await response.clone().text() },
+    ttlMs
+  );
+  return response;
+};
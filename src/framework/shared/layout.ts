@@ -5,6 +5,7 @@
 
 import { readFileSync } from "node:fs";
 import type { ComponentType as ReactComponentType, ReactNode } from "react";
+import type { GenerateMetadataFn, Metadata } from "./metadata";
 
 /**
  * Get transpiler instance lazily (only in Bun environment)
@@ -28,6 +29,10 @@ getTranspiler.transpiler = null as Bun.Transpiler | null;
  */
 export interface LayoutConfig {
   clientNavigation?: boolean;
+  /** Document metadata shared by the pages below (e.g. a title template) */
+  metadata?: Metadata;
+  /** Document metadata computed from the route params and the page's loader data */
+  generateMetadata?: GenerateMetadataFn;
 }
 
 /**
@@ -66,16 +71,33 @@ export type ConfiguredLayout<
  *   ),
  * });
  * ```
+ *
+ * @example Layout with a title template
+ * ```tsx
+ * export default defineLayout({
+ *   metadata: { title: { default: "Docs", template: "%s | Docs" } },
+ *   component: ({ children }) => <div>{children}</div>
+ * });
+ * ```
  */
 export const defineLayout = <P extends { children: ReactNode }>(layoutConfig: {
   component: ReactComponentType<P>;
   clientNavigation?: boolean;
+  metadata?: Metadata;
+  generateMetadata?: GenerateMetadataFn;
 }): ConfiguredLayout<P> => {
-  const { component, clientNavigation = false } = layoutConfig;
+  const {
+    component,
+    clientNavigation = false,
+    metadata,
+    generateMetadata,
+  } = layoutConfig;
 
   // Attach config to component
   const attachedConfig: LayoutConfig = {
     ...(clientNavigation && { clientNavigation: true }),
+    ...(metadata && { metadata }),
+    ...(generateMetadata && { generateMetadata }),
   };
   (component as ConfiguredLayout<P>)[LAYOUT_CONFIG_MARKER] = attachedConfig;
 
@@ -116,7 +138,7 @@ export const hasDefineLayoutUsage = (filePath: string): boolean => {
             (imp.kind === "import-statement" &&
               imp.path.includes("framework/shared/layout"))
         );
-        
+
         // Also check for direct usage in content
         if (hasDefineLayoutImport && DEFINE_LAYOUT_USAGE_REGEX.test(content)) {
           return true;
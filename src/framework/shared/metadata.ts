@@ -0,0 +1,246 @@
+/**
+ * Document metadata (title, description, canonical URL, Open Graph, Twitter, robots)
+ * Layouts and pages declare static `metadata` or an async `generateMetadata(params, data)`;
+ * entries are merged from the root layout down to the page, later ones overriding earlier ones
+ *
+ * Usage:
+ *   defineLayout({ metadata: { title: { default: "Docs", template: "%s | Docs" } }, ... });
+ *   definePage({
+ *     generateMetadata: (params, data) => ({ title: data.post.title }),
+ *     ...
+ *   });
+ */
+
+/**
+ * Page title: a plain string, or a default plus a template for the pages below
+ * - `template`: applied to titles of nested layouts and pages ("%s" is replaced with their title)
+ * - `absolute`: used as is, ignoring templates from parent layouts
+ */
+export type MetadataTitle =
+  | string
+  | {
+      default?: string;
+      template?: string;
+      absolute?: string;
+    };
+
+/**
+ * Image of an Open Graph or Twitter card
+ */
+export type MetadataImage =
+  | string
+  | {
+      url: string;
+      width?: number;
+      height?: number;
+      alt?: string;
+    };
+
+/**
+ * Open Graph tags (`og:*`)
+ * `title`, `description` and `url` default to the page's title, description and canonical URL
+ */
+export interface OpenGraphMetadata {
+  title?: string;
+  description?: string;
+  url?: string;
+  siteName?: string;
+  /** og:type (default: "website") */
+  type?: string;
+  locale?: string;
+  images?: MetadataImage[];
+}
+
+/**
+ * Twitter card tags (`twitter:*`)
+ * `title`, `description` and `images` default to the Open Graph ones
+ */
+export interface TwitterMetadata {
+  card?: "summary" | "summary_large_image" | "app" | "player";
+  title?: string;
+  description?: string;
+  /** @username of the site */
+  site?: string;
+  /** @username of the author */
+  creator?: string;
+  images?: MetadataImage[];
+}
+
+/**
+ * Robots directives, as a raw string ("noindex, nofollow") or flags
+ */
+export type RobotsMetadata =
+  | string
+  | {
+      index?: boolean;
+      follow?: boolean;
+    };
+
+/**
+ * Metadata declared by a layout or page
+ */
+export interface Metadata {
+  title?: MetadataTitle;
+  description?: string;
+  /** Canonical URL of the page (`<link rel="canonical">`) */
+  canonical?: string;
+  openGraph?: OpenGraphMetadata;
+  twitter?: TwitterMetadata;
+  robots?: RobotsMetadata;
+  viewport?: string;
+}
+
+/**
+ * Metadata computed from route params and the page's loader data
+ */
+export type GenerateMetadataFn<
+  TParams extends Record<string, string> = Record<string, string>,
+  TData = unknown,
+> = (params: TParams, data: TData) => Metadata | Promise<Metadata>;
+
+/**
+ * Metadata source of one layout or page
+ */
+export interface MetadataSource {
+  metadata?: Metadata;
+  generateMetadata?: GenerateMetadataFn;
+}
+
+/**
+ * Metadata after merging, ready to render
+ */
+export interface ResolvedMetadata {
+  title?: string;
+  description?: string;
+  canonical?: string;
+  openGraph?: OpenGraphMetadata;
+  twitter?: TwitterMetadata;
+  robots?: string;
+  viewport?: string;
+}
+
+/**
+ * Placeholder replaced with the page title in title templates
+ */
+const TITLE_PLACEHOLDER = "%s";
+
+/**
+ * Title of one entry, with the template inherited from the layouts above it
+ */
+const resolveTitle = (
+  title: MetadataTitle,
+  template: string | undefined
+): string | undefined => {
+  if (typeof title !== "string" && title.absolute !== undefined) {
+    return title.absolute;
+  }
+  const value = typeof title === "string" ? title : title.default;
+  if (value === undefined || template === undefined) {
+    return value;
+  }
+  return template.replaceAll(TITLE_PLACEHOLDER, value);
+};
+
+/**
+ * Robots flags as a meta content string
+ */
+const resolveRobots = (robots: RobotsMetadata): string =>
+  typeof robots === "string"
+    ? robots
+    : [
+        robots.index === false ? "noindex" : "index",
+        robots.follow === false ? "nofollow" : "follow",
+      ].join(", ");
+
+/**
+ * Fill Open Graph and Twitter fields the entries left out from the page's own fields
+ */
+const withSocialDefaults = (metadata: ResolvedMetadata): ResolvedMetadata => {
+  const { openGraph, twitter } = metadata;
+  const resolved: ResolvedMetadata = { ...metadata };
+  if (openGraph) {
+    resolved.openGraph = {
+      type: "website",
+      ...(metadata.title !== undefined && { title: metadata.title }),
+      ...(metadata.description !== undefined && {
+        description: metadata.description,
+      }),
+      ...(metadata.canonical !== undefined && { url: metadata.canonical }),
+      ...openGraph,
+    };
+  }
+  if (twitter) {
+    const fallback = resolved.openGraph ?? metadata;
+    resolved.twitter = {
+      ...(fallback.title !== undefined && { title: fallback.title }),
+      ...(fallback.description !== undefined && {
+        description: fallback.description,
+      }),
+      ...(resolved.openGraph?.images && { images: resolved.openGraph.images }),
+      ...twitter,
+    };
+  }
+  return resolved;
+};
+
+/**
+ * Title template an entry declares for the entries below it
+ */
+const titleTemplate = (title: MetadataTitle | undefined): string | undefined =>
+  typeof title === "object" ? title.template : undefined;
+
+/**
+ * Merge one entry over the metadata of the entries above it
+ */
+const mergeEntry = (
+  merged: ResolvedMetadata,
+  entry: Metadata,
+  template: string | undefined
+): ResolvedMetadata => {
+  const { title, robots, openGraph, twitter, ...fields } = entry;
+  const resolvedTitle =
+    title === undefined ? undefined : resolveTitle(title, template);
+  return {
+    ...merged,
+    ...fields,
+    ...(resolvedTitle !== undefined && { title: resolvedTitle }),
+    ...(robots !== undefined && { robots: resolveRobots(robots) }),
+    ...(openGraph && { openGraph: { ...merged.openGraph, ...openGraph } }),
+    ...(twitter && { twitter: { ...merged.twitter, ...twitter } }),
+  };
+};
+
+/**
+ * Merge metadata entries ordered from the root layout to the page
+ * Fields of later entries override earlier ones (`openGraph` / `twitter` field by field),
+ * and titles go through the closest title template declared above them
+ * (a template applies to the entries below, not to its own title)
+ */
+export const mergeMetadata = (entries: Metadata[]): ResolvedMetadata => {
+  let merged: ResolvedMetadata = {};
+  let template: string | undefined;
+  for (const entry of entries) {
+    merged = mergeEntry(merged, entry, template);
+    template = titleTemplate(entry.title) ?? template;
+  }
+  return withSocialDefaults(merged);
+};
+
+/**
+ * Resolve the metadata of a route from its layouts and page (root layout first)
+ * `generateMetadata` runs with the route params and the page's loader data
+ */
+export const resolveMetadata = async (
+  sources: MetadataSource[],
+  params: Record<string, string>,
+  data: unknown
+): Promise<ResolvedMetadata> => {
+  const entries = await Promise.all(
+    sources.map(async (source) => ({
+      ...source.metadata,
+      ...(source.generateMetadata &&
+        (await source.generateMetadata(params, data))),
+    }))
+  );
+  return mergeMetadata(entries);
+};
@@ -3,6 +3,8 @@
  * Supports include/exclude patterns for selective middleware application
  */
 
+import type { Server } from "bun";
+
 /**
  * Middleware handler function
  */
@@ -104,31 +106,41 @@ export const defineMiddleware = (
   return result;
 };
 
+/**
+ * Route handler function
+ * The server is forwarded so handlers can upgrade WebSocket requests
+ * (`TData` is the socket data type of the server's upgrades)
+ */
+type RouteHandlerFn<TData> = (
+  req: Request,
+  server: Server<TData>
+) => Promise<Response>;
+
 /**
  * Bun route handler type (can be function or method-specific object)
  */
-type BunRouteHandler =
-  | ((req: Request) => Promise<Response>)
-  | Partial<Record<string, (req: Request) => Promise<Response>>>;
+type BunRouteHandler<TData> =
+  | RouteHandlerFn<TData>
+  | Partial<Record<string, RouteHandlerFn<TData>>>;
 
 /**
  * Wrap a single handler with middleware
  */
-const wrapSingleHandler = (
+const wrapSingleHandler = <TData>(
   middleware: MiddlewareDefinition,
-  handler: (req: Request) => Promise<Response>
-): ((req: Request) => Promise<Response>) => {
-  return async (req: Request) => {
+  handler: RouteHandlerFn<TData>
+): RouteHandlerFn<TData> => {
+  return async (req, server) => {
     const url = new URL(req.url);
     const pathname = url.pathname;
 
     // Check if middleware should run
     if (!shouldRunMiddleware(pathname, middleware)) {
-      return handler(req);
+      return handler(req, server);
     }
 
     // Wrap handler with middleware
-    return await middleware.handler(req, async () => handler(req));
+    return await middleware.handler(req, async () => handler(req, server));
   };
 };
 
@@ -136,15 +148,15 @@ const wrapSingleHandler = (
  * Apply middleware to route handlers
  * Handles both simple handlers and Bun's method-specific handlers
  */
-export const applyMiddleware = (
+export const applyMiddleware = <TData>(
   middleware: MiddlewareDefinition | undefined,
-  handlers: Record<string, BunRouteHandler>
-): Record<string, BunRouteHandler> => {
+  handlers: Record<string, BunRouteHandler<TData>>
+): Record<string, BunRouteHandler<TData>> => {
   if (!middleware) {
     return handlers;
   }
 
-  const wrappedHandlers: Record<string, BunRouteHandler> = {};
+  const wrappedHandlers: Record<string, BunRouteHandler<TData>> = {};
 
   for (const [routePath, handler] of Object.entries(handlers)) {
     // Check if it's a method-specific object (not a function)
@@ -155,11 +167,9 @@ export const applyMiddleware = (
 
     if (isMethodObject) {
       // It's a method-specific object - wrap each method handler
-      const methodHandlers: Partial<
-        Record<string, (req: Request) => Promise<Response>>
-      > = {};
+      const methodHandlers: Partial<Record<string, RouteHandlerFn<TData>>> = {};
       const handlerObj = handler as Partial<
-        Record<string, (req: Request) => Promise<Response>>
+        Record<string, RouteHandlerFn<TData>>
       >;
       for (const [method, methodHandler] of Object.entries(handlerObj)) {
         if (typeof methodHandler === "function") {
@@ -169,7 +179,7 @@ export const applyMiddleware = (
       wrappedHandlers[routePath] = methodHandlers;
     } else if (typeof handler === "function") {
       // It's a simple function handler
-      const handlerFn = handler as (req: Request) => Promise<Response>;
+      const handlerFn = handler as RouteHandlerFn<TData>;
       wrappedHandlers[routePath] = wrapSingleHandler(middleware, handlerFn);
     } else {
       // Fallback - pass through as-is
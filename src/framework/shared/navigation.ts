@@ -0,0 +1,73 @@
+/**
+ * Control flow for pages: `redirect()` and `notFound()`
+ * Both throw, so they stop the loader or server component that calls them; the renderer
+ * answers with a redirect, or with `src/app/not-found.tsx` and a 404 status
+ *
+ * Usage:
+ *   loader: async (params) => {
+ *     const product = await getProduct(params.id);
+ *     if (!product) notFound();
+ *     if (product.slug !== params.id) redirect(`/products/${product.slug}`, 308);
+ *     return { product };
+ *   }
+ * Call them from loaders or from server components outside Suspense boundaries: once
+ * streaming has started, the status can't change anymore
+ */
+
+/**
+ * Redirect status codes: 307/308 keep the method and body, 302/303 switch to GET,
+ * 301/308 are permanent
+ */
+export type RedirectStatus = 301 | 302 | 303 | 307 | 308;
+
+/**
+ * Thrown by redirect()
+ */
+export class RedirectError extends Error {
+  readonly url: string;
+  readonly status: RedirectStatus;
+
+  constructor(url: string, status: RedirectStatus) {
+    super(`Redirect to ${url}`);
+    this.name = "RedirectError";
+    this.url = url;
+    this.status = status;
+  }
+}
+
+/**
+ * Thrown by notFound()
+ */
+export class NotFoundError extends Error {
+  constructor() {
+    super("Page not found");
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * Stop rendering and redirect to `url` (default: 307 Temporary Redirect)
+ * Typed explicitly so code after a call is narrowed like after `throw`
+ */
+export const redirect: (url: string, status?: RedirectStatus) => never = (
+  url,
+  status = 307
+) => {
+  throw new RedirectError(url, status);
+};
+
+/**
+ * Stop rendering and answer with the not-found page (404)
+ * Typed explicitly so code after a call is narrowed like after `throw`
+ */
+export const notFound: () => never = () => {
+  throw new NotFoundError();
+};
+
+/**
+ * Check if an error is redirect() or notFound() control flow rather than a failure
+ */
+export const isNavigationError = (
+  error: unknown
+): error is RedirectError | NotFoundError =>
+  error instanceof RedirectError || error instanceof NotFoundError;
@@ -0,0 +1,356 @@
+/**
+ * OpenAPI 3.1 document generation
+ * Converts typed API route definitions (method, path, Zod schemas) into an OpenAPI document
+ */
+
+import { type ZodType, z } from "zod";
+import type { HttpMethod } from "./api";
+import type { RouteErrors } from "./api-errors";
+import type { BodyType } from "./form-data";
+
+/**
+ * OpenAPI info object
+ */
+export interface OpenAPIInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/**
+ * OpenAPI options accepted by createAPI
+ */
+export interface OpenAPIOptions {
+  /** Endpoint path relative to the API base path (default: "/openapi.json") */
+  path?: string;
+  info?: OpenAPIInfo;
+  servers?: Array<{ url: string; description?: string }>;
+}
+
+/**
+ * JSON Schema object as produced by z.toJSONSchema
+ */
+type JSONSchema = Record<string, unknown>;
+
+/**
+ * OpenAPI parameter object
+ */
+interface OpenAPIParameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  schema: JSONSchema;
+  description?: string;
+  /** Nested query objects are sent as `key[field]=value` */
+  style?: "deepObject";
+  explode?: boolean;
+}
+
+/**
+ * OpenAPI operation object
+ */
+interface OpenAPIOperation {
+  operationId: string;
+  tags: string[];
+  deprecated?: boolean;
+  parameters?: OpenAPIParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JSONSchema }>;
+  };
+  responses: Record<
+    string,
+    {
+      description: string;
+      content?: Record<string, { schema: JSONSchema }>;
+    }
+  >;
+}
+
+/**
+ * OpenAPI 3.1 document
+ */
+export interface OpenAPIDocument {
+  openapi: "3.1.0";
+  info: OpenAPIInfo;
+  servers?: Array<{ url: string; description?: string }>;
+  paths: Record<
+    string,
+    Partial<Record<Lowercase<HttpMethod>, OpenAPIOperation>>
+  >;
+}
+
+/**
+ * Route entry used to build an operation
+ */
+export interface OpenAPIRouteEntry {
+  /** Router key path, e.g. "products.byId" or "hello.GET" */
+  operationId: string;
+  path: string;
+  method: HttpMethod;
+  params?: ZodType | undefined;
+  query?: ZodType | undefined;
+  body?: ZodType | undefined;
+  bodyType?: BodyType | undefined;
+  response: ZodType;
+  errors?: RouteErrors | undefined;
+  /** Server-Sent Events route: `response` is the schema of each event */
+  stream?: boolean;
+  /** Route has a rate limit (documents the 429 response) */
+  rateLimited?: boolean;
+  /** Route is deprecated (see RouteConfig.deprecated) */
+  deprecated?: boolean;
+  /** Route handles Idempotency-Key (documents the header and the 409/422 responses) */
+  idempotency?: { required: boolean } | undefined;
+}
+
+/**
+ * Matches `:param` segments in a path template
+ */
+const PATH_PARAM_REGEX = /:([A-Za-z0-9_]+)/g;
+
+/**
+ * Convert ":param" path syntax to OpenAPI "{param}" syntax
+ */
+const toOpenAPIPath = (path: string): string =>
+  path.replace(PATH_PARAM_REGEX, "{$1}");
+
+/**
+ * Convert a Zod schema to JSON Schema (draft 2020-12, which OpenAPI 3.1 uses)
+ * Inputs use the schema's input type (e.g. before coercion), responses its output type
+ */
+const toJSONSchema = (schema: ZodType, io: "input" | "output"): JSONSchema => {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: "any",
+  }) as JSONSchema;
+  return jsonSchema;
+};
+
+/**
+ * Expand an object schema into one OpenAPI parameter per property
+ */
+const toParameters = (
+  schema: ZodType,
+  location: "path" | "query"
+): OpenAPIParameter[] => {
+  const jsonSchema = toJSONSchema(schema, "input");
+  const properties = (jsonSchema["properties"] ?? {}) as Record<
+    string,
+    JSONSchema
+  >;
+  const required = new Set((jsonSchema["required"] ?? []) as string[]);
+
+  return Object.entries(properties).map(([name, propertySchema]) => {
+    const parameter: OpenAPIParameter = {
+      name,
+      in: location,
+      // Path params are always required by the OpenAPI spec
+      required: location === "path" || required.has(name),
+      schema: propertySchema,
+    };
+    if (typeof propertySchema["description"] === "string") {
+      parameter.description = propertySchema["description"];
+    }
+    if (location === "query" && propertySchema["type"] === "object") {
+      parameter.style = "deepObject";
+      parameter.explode = true;
+    }
+    return parameter;
+  });
+};
+
+/**
+ * Shared error response schema (matches ApiErrorBody)
+ */
+const errorResponseSchema: JSONSchema = {
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    code: { type: "string" },
+    data: {},
+    source: { type: "string", enum: ["params", "query", "body"] },
+    issues: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          code: { type: "string" },
+          path: { type: "array", items: { type: ["string", "number"] } },
+          message: { type: "string" },
+        },
+        required: ["code", "path", "message"],
+      },
+    },
+  },
+  required: ["error", "code"],
+};
+
+/**
+ * Error body schema for a declared error variant (code fixed, data typed)
+ */
+const declaredErrorSchema = (code: string, data?: ZodType): JSONSchema => ({
+  type: "object",
+  properties: {
+    error: { type: "string" },
+    code: { const: code },
+    ...(data ? { data: toJSONSchema(data, "output") } : {}),
+  },
+  required: data ? ["error", "code", "data"] : ["error", "code"],
+});
+
+/**
+ * Add declared error variants to the responses map
+ * Variants sharing a status code are combined with oneOf
+ */
+const addDeclaredErrors = (
+  responses: OpenAPIOperation["responses"],
+  errors: RouteErrors
+): void => {
+  const byStatus = new Map<string, JSONSchema[]>();
+  for (const [code, definition] of Object.entries(errors)) {
+    const status = String(definition.status);
+    byStatus.set(status, [
+      ...(byStatus.get(status) ?? []),
+      declaredErrorSchema(code, definition.data),
+    ]);
+  }
+  for (const [status, schemas] of byStatus) {
+    responses[status] = {
+      description: `Error: ${schemas.map((schema) => (schema["properties"] as { code: { const: string } }).code.const).join(", ")}`,
+      content: {
+        "application/json": {
+          schema:
+            schemas.length === 1
+              ? (schemas[0] as JSONSchema)
+              : { oneOf: schemas },
+        },
+      },
+    };
+  }
+};
+
+/**
+ * Document Idempotency-Key: the request header and the responses for taken keys
+ */
+const addIdempotency = (
+  operation: OpenAPIOperation,
+  parameters: OpenAPIParameter[],
+  { required }: { required: boolean }
+): void => {
+  parameters.push({
+    name: "Idempotency-Key",
+    in: "header",
+    required,
+    schema: { type: "string", maxLength: 255 },
+    description:
+      "Unique key per operation; retries with the same key replay the first response",
+  });
+  operation.responses["409"] = {
+    description: "A request with the same Idempotency-Key is still in progress",
+    content: { "application/json": { schema: errorResponseSchema } },
+  };
+  operation.responses["422"] = {
+    description: "Idempotency-Key was already used for a different request",
+    content: { "application/json": { schema: errorResponseSchema } },
+  };
+};
+
+/**
+ * Build a single OpenAPI operation from a route entry
+ */
+const buildOperation = (entry: OpenAPIRouteEntry): OpenAPIOperation => {
+  const parameters = [
+    ...(entry.params ? toParameters(entry.params, "path") : []),
+    ...(entry.query ? toParameters(entry.query, "query") : []),
+  ];
+
+  const operation: OpenAPIOperation = {
+    operationId: entry.operationId,
+    tags: [entry.operationId.split(".")[0] ?? entry.operationId],
+    responses: {
+      "200": {
+        description: entry.stream
+          ? "Server-Sent Events stream; each event's data matches this schema"
+          : "Successful response",
+        content: {
+          [entry.stream ? "text/event-stream" : "application/json"]: {
+            schema: toJSONSchema(entry.response, "output"),
+          },
+        },
+      },
+      "400": {
+        description: "Validation failed",
+        content: { "application/json": { schema: errorResponseSchema } },
+      },
+      "500": {
+        description: "Internal server error",
+        content: { "application/json": { schema: errorResponseSchema } },
+      },
+    },
+  };
+
+  if (entry.rateLimited) {
+    operation.responses["429"] = {
+      description: "Too many requests (see Retry-After)",
+      content: { "application/json": { schema: errorResponseSchema } },
+    };
+  }
+
+  if (entry.deprecated) {
+    operation.deprecated = true;
+  }
+
+  if (entry.idempotency) {
+    addIdempotency(operation, parameters, entry.idempotency);
+  }
+
+  if (entry.errors) {
+    addDeclaredErrors(operation.responses, entry.errors);
+  }
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (entry.body && entry.method !== "GET") {
+    operation.requestBody = {
+      required: true,
+      content: {
+        [entry.bodyType === "form-data"
+          ? "multipart/form-data"
+          : "application/json"]: { schema: toJSONSchema(entry.body, "input") },
+      },
+    };
+  }
+
+  return operation;
+};
+
+/**
+ * Generate an OpenAPI 3.1 document from route entries
+ */
+export const generateOpenAPIDocument = (
+  entries: OpenAPIRouteEntry[],
+  options: OpenAPIOptions = {}
+): OpenAPIDocument => {
+  const document: OpenAPIDocument = {
+    openapi: "3.1.0",
+    info: options.info ?? { title: "API", version: "0.0.0" },
+    paths: {},
+  };
+
+  if (options.servers) {
+    document.servers = options.servers;
+  }
+
+  for (const entry of entries) {
+    const path = toOpenAPIPath(entry.path);
+    const pathItem = document.paths[path] ?? {};
+    pathItem[entry.method.toLowerCase() as Lowercase<HttpMethod>] =
+      buildOperation(entry);
+    document.paths[path] = pathItem;
+  }
+
+  return document;
+};
@@ -5,6 +5,7 @@
 
 import { readFileSync } from "node:fs";
 import type { ComponentType as ReactComponentType } from "react";
+import type { GenerateMetadataFn, Metadata } from "./metadata";
 
 /**
  * Get transpiler instance lazily (only in Bun environment)
@@ -37,14 +38,57 @@ export type GenerateParamsFn<
 > = () => TParams[] | Promise<TParams[]>;
 
 /**
- * Data loader for build-time data fetching
+ * Loader context of static pages
+ * Static pages are rendered once (at build time or by ISR) and shared by every visitor,
+ * so only what is the same for every request is available
+ */
+export interface StaticLoaderContext<
+  TParams extends Record<string, string> = Record<string, string>,
+> {
+  params: TParams;
+  /** Path of the page being rendered (e.g. "/blog/post-1") */
+  pathname: string;
+}
+
+/**
+ * Loader context of dynamic pages: the incoming request and its parts
+ */
+export interface LoaderContext<
+  TParams extends Record<string, string> = Record<string, string>,
+> extends StaticLoaderContext<TParams> {
+  request: Request;
+  url: URL;
+  /** Query string of the request (`?page=2`) */
+  searchParams: URLSearchParams;
+  headers: Headers;
+  /** Cookies sent with the request, by name */
+  cookies: ReadonlyMap<string, string>;
+}
+
+/**
+ * Loader context for a page type
+ */
+export type LoaderContextFor<
+  TType extends PageType,
+  TParams extends Record<string, string> = Record<string, string>,
+> = TType extends "static"
+  ? StaticLoaderContext<TParams>
+  : LoaderContext<TParams>;
+
+/**
+ * Data loader
  * Returns data that will be passed to component as props.data
- * For dynamic routes, params are passed to the loader
+ * Receives the route params and a context: the request for dynamic pages,
+ * only the params and pathname for static pages
  */
 export type LoaderFn<
   TData = unknown,
   TParams extends Record<string, string> = Record<string, string>,
-> = (params?: TParams) => TData | Promise<TData>;
+  TType extends PageType = PageType,
+> = (
+  params: TParams,
+  context: LoaderContextFor<TType, TParams>
+) => TData | Promise<TData>;
 
 /**
  * Page configuration attached to components
@@ -58,6 +102,10 @@ export interface PageConfig<
   loader?: LoaderFn<TData, TParams>;
   /** ISR revalidation interval in seconds. Undefined = no ISR (pure static or dynamic) */
   revalidate?: number;
+  /** Document metadata of the page (merged over its layouts' metadata) */
+  metadata?: Metadata;
+  /** Document metadata computed from the route params and loader data */
+  generateMetadata?: GenerateMetadataFn<TParams, TData>;
 }
 
 /**
@@ -85,6 +133,16 @@ export type ConfiguredPage<
  * });
  * ```
  *
+ * @example Dynamic page reading the request
+ * ```tsx
+ * export default definePage({
+ *   loader: async (params, { searchParams, cookies }) => ({
+ *     orders: await fetchOrders(cookies.get("session"), searchParams.get("page")),
+ *   }),
+ *   component: ({ data }) => <Orders orders={data.orders} />
+ * });
+ * ```
+ *
  * @example Static page with loader
  * ```tsx
  * export default definePage({
@@ -103,6 +161,18 @@ export type ConfiguredPage<
  * });
  * ```
  *
+ * @example Page metadata
+ * ```tsx
+ * export default definePage({
+ *   loader: async (params) => ({ post: await fetchPost(params.slug) }),
+ *   generateMetadata: (params, data) => ({
+ *     title: data.post.title,
+ *     openGraph: { images: [data.post.cover] },
+ *   }),
+ *   component: ({ data }) => <BlogPost post={data.post} />
+ * });
+ * ```
+ *
  * @example Dynamic (explicit)
  * ```tsx
  * export default definePage({
@@ -115,12 +185,15 @@ export const definePage = <
   P extends Record<string, unknown> = Record<string, unknown>,
   TParams extends Record<string, string> = Record<string, string>,
   TData = unknown,
+  TType extends PageType = "dynamic",
 >(pageConfig: {
   component: ReactComponentType<P>;
-  type?: PageType;
+  type?: TType;
   generateParams?: GenerateParamsFn<TParams>;
-  loader?: LoaderFn<TData, TParams>;
+  loader?: LoaderFn<TData, TParams, TType>;
   revalidate?: number;
+  metadata?: Metadata;
+  generateMetadata?: GenerateMetadataFn<TParams, TData>;
 }): ConfiguredPage<P> => {
   const {
     component,
@@ -128,6 +201,8 @@ export const definePage = <
     generateParams,
     loader,
     revalidate,
+    metadata,
+    generateMetadata,
   } = pageConfig;
 
   // Attach config to component
@@ -136,6 +211,8 @@ export const definePage = <
     ...(generateParams && { generateParams }),
     ...(loader && { loader }),
     ...(revalidate !== undefined && { revalidate }),
+    ...(metadata && { metadata }),
+    ...(generateMetadata && { generateMetadata }),
   } as PageConfig<TParams, TData>;
   (component as ConfiguredPage<P>)[PAGE_CONFIG_MARKER] =
     attachedConfig as unknown as PageConfig;
@@ -0,0 +1,287 @@
+/**
+ * Cursor pagination for list routes
+ * `paginatedRoute()` adds `cursor` / `limit` to the route's query and wraps results in
+ * `{ items, nextCursor }`; clients walk the pages with `.pages(input)`
+ *
+ * Usage:
+ *   export const list = paginatedRoute({
+ *     item: userSchema,
+ *     handler: async ({ page }) => paginateArray(await getUsers(), page),
+ *   });
+ *   for await (const { items } of apiClient.users.list.pages()) { ... }
+ */
+
+import { type ZodObject, type ZodType, z } from "zod";
+import {
+  type Route,
+  type RouteConfig,
+  type RouteHandlerContext,
+  route,
+} from "./api";
+import { type NoRouteErrors, RouteError, type RouteErrors } from "./api-errors";
+import type { ApiCallOptions } from "./client-fetch";
+
+/**
+ * Page size limits of a paginated route
+ */
+export interface RoutePagination {
+  /** Page size when the client doesn't pass `limit` */
+  defaultLimit: number;
+  /** Largest `limit` accepted */
+  maxLimit: number;
+}
+
+/**
+ * Page requested by the client, as passed to the handler
+ */
+export interface PageRequest {
+  /** Opaque cursor from the previous page's `nextCursor` (undefined for the first page) */
+  cursor: string | undefined;
+  limit: number;
+}
+
+/**
+ * One page of results
+ */
+export interface Page<TItem> {
+  items: TItem[];
+  /** Cursor of the next page (null on the last page) */
+  nextCursor: string | null;
+}
+
+/**
+ * Query fields added by paginatedRoute
+ */
+export interface PageQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Client-side query of a paginated route: the route's own fields plus cursor/limit
+ */
+type PaginatedQuery<TQuery extends ZodObject | undefined> =
+  (TQuery extends ZodObject ? z.infer<TQuery> : unknown) & PageQuery;
+
+/**
+ * Paginated route configuration
+ * Same as a GET route, with `item` instead of `response` and the requested page in `page`
+ */
+export interface PaginatedRouteConfig<
+  TParams extends ZodType | undefined = undefined,
+  TQuery extends ZodObject | undefined = undefined,
+  TItem extends ZodType = ZodType,
+  TErrors extends RouteErrors = RouteErrors,
+> extends Omit<
+    RouteConfig<TParams, TQuery, undefined, ZodType, object, TErrors>,
+    "method" | "body" | "bodyType" | "response" | "idempotency" | "handler"
+  > {
+  /** Schema of each item */
+  item: TItem;
+  /** Page size when the client doesn't pass `limit` (default: 20) */
+  defaultLimit?: number;
+  /** Largest `limit` accepted (default: 100) */
+  maxLimit?: number;
+  handler: (
+    ctx: RouteHandlerContext<TParams, TQuery, undefined, object, TErrors> & {
+      page: PageRequest;
+    }
+  ) => Promise<Page<z.infer<TItem>>> | Page<z.infer<TItem>>;
+}
+
+/**
+ * Route built by paginatedRoute
+ */
+export type PaginatedRoute<
+  TParams extends ZodType | undefined = undefined,
+  TQuery extends ZodObject | undefined = undefined,
+  TItem extends ZodType = ZodType,
+  TErrors extends RouteErrors = NoRouteErrors,
+> = Route<
+  "GET",
+  TParams,
+  ZodType<PaginatedQuery<TQuery>>,
+  undefined,
+  ZodType<Page<z.infer<TItem>>>,
+  TErrors
+> & { pagination: RoutePagination };
+
+/**
+ * Page schema for an item schema: `{ items, nextCursor }`
+ */
+export const pageSchema = <TItem extends ZodType>(item: TItem) =>
+  z.object({ items: z.array(item), nextCursor: z.string().nullable() });
+
+/**
+ * Matches base64 padding, which base64url drops
+ */
+const BASE64_PADDING_REGEX = /=+$/;
+
+/**
+ * Encode a cursor value (e.g. `{ offset: 20 }` or the last item's sort key) as an opaque string
+ */
+export const encodeCursor = (value: unknown): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(BASE64_PADDING_REGEX, "");
+};
+
+/**
+ * Decode a cursor made by encodeCursor
+ * Malformed or tampered cursors are answered with 400 BAD_REQUEST
+ */
+export const decodeCursor = <T>(cursor: string, schema: ZodType<T>): T => {
+  try {
+    const binary = atob(cursor.replaceAll("-", "+").replaceAll("_", "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return schema.parse(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    throw new RouteError(400, "BAD_REQUEST", { message: "Invalid cursor" });
+  }
+};
+
+/**
+ * Offset cursors used by paginateArray
+ */
+const offsetCursorSchema = z.object({ offset: z.number().int().min(0) });
+
+/**
+ * Paginate an in-memory list with offset cursors
+ * Prefer keyset cursors (the last item's sort key) for database queries
+ */
+export const paginateArray = <TItem>(
+  items: TItem[],
+  { cursor, limit }: PageRequest
+): Page<TItem> => {
+  const offset = cursor ? decodeCursor(cursor, offsetCursorSchema).offset : 0;
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor({ offset: end }) : null,
+  };
+};
+
+/**
+ * Define a cursor-paginated GET route
+ * The query gains `cursor` and `limit` (validated against `maxLimit`), and the
+ * response is `{ items, nextCursor }`
+ */
+export const paginatedRoute = <
+  TParams extends ZodType | undefined = undefined,
+  TQuery extends ZodObject | undefined = undefined,
+  TItem extends ZodType = ZodType,
+  TErrors extends RouteErrors = NoRouteErrors,
+>(
+  config: PaginatedRouteConfig<TParams, TQuery, TItem, TErrors>
+): PaginatedRoute<TParams, TQuery, TItem, TErrors> => {
+  const {
+    item,
+    defaultLimit = 20,
+    maxLimit = 100,
+    query,
+    handler,
+    ...rest
+  } = config;
+  const pageQuery = ((query ?? z.object({})) as ZodObject).extend({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(maxLimit).default(defaultLimit),
+  });
+
+  const paginated = route<
+    "GET",
+    ZodType | undefined,
+    typeof pageQuery,
+    undefined,
+    ZodType
+  >({
+    ...(rest as unknown as Omit<
+      RouteConfig<ZodType | undefined, typeof pageQuery>,
+      "method" | "query" | "response" | "handler"
+    >),
+    method: "GET",
+    query: pageQuery,
+    response: pageSchema(item),
+    handler: ({ query: pageInput, ...ctx }) => {
+      const { cursor, limit, ...filters } = pageInput as Record<
+        string,
+        unknown
+      > &
+        PageQuery;
+      return handler({
+        ...(ctx as Omit<Parameters<typeof handler>[0], "query" | "page">),
+        query: (query ? filters : undefined) as Parameters<
+          typeof handler
+        >[0]["query"],
+        page: { cursor, limit: limit ?? defaultLimit },
+      });
+    },
+  });
+  return Object.assign(paginated, {
+    pagination: { defaultLimit, maxLimit },
+  }) as unknown as PaginatedRoute<TParams, TQuery, TItem, TErrors>;
+};
+
+/**
+ * Check if a route is paginated (see paginatedRoute)
+ */
+export const isPaginated = (value: object): boolean =>
+  "pagination" in value && value.pagination !== undefined;
+
+/**
+ * Call input for the page at `cursor` (the input as is for the first page)
+ */
+export const withPageCursor = (
+  input: unknown,
+  cursor: string | undefined
+): unknown => {
+  if (cursor === undefined) {
+    return input;
+  }
+  const fields = (input ?? {}) as Record<string, unknown>;
+  return {
+    ...fields,
+    query: { ...(fields["query"] as object | undefined), cursor },
+  };
+};
+
+/**
+ * Client call of a route
+ */
+type PageCall = (input?: unknown, options?: ApiCallOptions) => unknown;
+
+/**
+ * Iterate a paginated route page by page, following `nextCursor`
+ */
+const iteratePages = async function* (
+  call: PageCall,
+  input: unknown,
+  options: ApiCallOptions | undefined
+): AsyncGenerator<Page<unknown>> {
+  let cursor: string | undefined;
+  do {
+    const page = (await call(
+      withPageCursor(input, cursor),
+      options
+    )) as Page<unknown>;
+    yield page;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+};
+
+/**
+ * Add `.pages(input, options)` to the client call of a paginated route
+ */
+export const withPages = <TCall extends PageCall>(
+  call: TCall
+): TCall & {
+  pages: (
+    input?: unknown,
+    options?: ApiCallOptions
+  ) => AsyncGenerator<Page<unknown>>;
+} =>
+  Object.assign(call, {
+    pages: (input?: unknown, options?: ApiCallOptions) =>
+      iteratePages(call, input, options),
+  });
@@ -0,0 +1,42 @@
+import { expect, test } from "bun:test";
+import { z } from "zod";
+import { decodeQuery, encodeQuery } from "./query-string";
+
+test("decodes arrays and nested objects like the schema", () => {
+  const schema = z.object({
+    status: z.array(z.string()),
+    price: z.object({ min: z.string(), max: z.string() }),
+  });
+  const query = decodeQuery(
+    new URLSearchParams("status=draft&price[min]=10&price[max]=50"),
+    schema
+  );
+  expect(query).toEqual({
+    status: ["draft"],
+    price: { min: "10", max: "50" },
+  });
+});
+
+test("round-trips encoded queries", () => {
+  const value = { tags: ["a", "b"], items: [{ name: "x" }, { name: "y" }] };
+  expect(decodeQuery(new URLSearchParams(encodeQuery(value)))).toEqual({
+    tags: ["a", "b"],
+    items: { "0": { name: "x" }, "1": { name: "y" } },
+  });
+});
+
+test("prototype keys are dropped", () => {
+  const query = decodeQuery(
+    new URLSearchParams(
+      "__proto__[polluted]=yes&a[constructor][prototype][polluted]=yes&ok=1"
+    )
+  );
+  expect(({} as Record<string, unknown>)["polluted"]).toBeUndefined();
+  expect(query).toEqual({ ok: "1" });
+});
+
+test("inherited members don't collect into arrays", () => {
+  expect(decodeQuery(new URLSearchParams("toString=1"))).toEqual({
+    toString: "1",
+  });
+});
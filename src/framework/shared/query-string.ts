@@ -0,0 +1,222 @@
+/**
+ * Query string encoding for API routes
+ * Arrays are sent as repeated keys (`?status=draft&status=live`) and nested objects with
+ * brackets (`?price[min]=10&price[max]=50`); the server decodes them back into the shape
+ * the route's query schema expects
+ *
+ * Values stay strings, so use `z.coerce` for numbers, booleans and dates
+ */
+
+import type { ZodType } from "zod";
+
+/**
+ * Zod schema internals used to find array and object fields
+ */
+interface SchemaDef {
+  type?: string;
+  innerType?: ZodType;
+  in?: ZodType;
+  element?: ZodType;
+  shape?: Record<string, ZodType>;
+}
+
+/**
+ * Wrapper schema types whose inner schema decides the field shape
+ */
+const WRAPPER_TYPES = new Set([
+  "optional",
+  "nullable",
+  "default",
+  "prefault",
+  "catch",
+  "readonly",
+  "nonoptional",
+]);
+
+/**
+ * Definition of a schema, looking through optional/default/pipe wrappers
+ */
+const unwrapDef = (schema: ZodType | undefined): SchemaDef | undefined => {
+  let def = (schema as { _zod?: { def?: SchemaDef } } | undefined)?._zod?.def;
+  while (def?.type && (WRAPPER_TYPES.has(def.type) || def.type === "pipe")) {
+    const inner = def.type === "pipe" ? def.in : def.innerType;
+    def = (inner as { _zod?: { def?: SchemaDef } } | undefined)?._zod?.def;
+  }
+  return def;
+};
+
+/**
+ * Matches `key[a][b]` style keys: the root key and its bracketed segments
+ */
+const BRACKET_KEY_REGEX = /^([^[\]]+)((?:\[[^[\]]*\])*)$/;
+
+/**
+ * Matches one `[segment]` of a bracketed key
+ */
+const BRACKET_SEGMENT_REGEX = /\[([^[\]]*)\]/g;
+
+/**
+ * Matches array indexes in bracketed keys (`items[0][name]`)
+ */
+const INDEX_REGEX = /^\d+$/;
+
+/**
+ * Split a query key into its path: "price[min]" → ["price", "min"], "tags[]" → ["tags", ""]
+ */
+const parseKey = (key: string): string[] => {
+  const match = BRACKET_KEY_REGEX.exec(key);
+  if (!match?.[1]) {
+    return [key];
+  }
+  const segments = [match[1]];
+  for (const [, segment] of (match[2] ?? "").matchAll(BRACKET_SEGMENT_REGEX)) {
+    segments.push(segment ?? "");
+  }
+  return segments;
+};
+
+/**
+ * Nested decoded values (objects and arrays, strings at the leaves)
+ */
+type QueryTree = Record<string, unknown>;
+
+/**
+ * Keys that would reach object prototypes (`?__proto__[polluted]=yes`)
+ */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Own value of a tree key (inherited members like `toString` don't count)
+ */
+const ownValue = (tree: QueryTree, key: string): unknown =>
+  Object.hasOwn(tree, key) ? tree[key] : undefined;
+
+/**
+ * Store a value at a key path; repeated keys collect into arrays
+ */
+const assignPath = (tree: QueryTree, path: string[], value: string): void => {
+  const [head = "", ...rest] = path;
+  if (rest.length === 0 || (rest.length === 1 && rest[0] === "")) {
+    const existing = ownValue(tree, head);
+    if (existing === undefined) {
+      tree[head] = rest.length === 1 ? [value] : value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      tree[head] = [existing, value];
+    }
+    return;
+  }
+  const child = ownValue(tree, head);
+  const branch: QueryTree =
+    child && typeof child === "object" && !Array.isArray(child)
+      ? (child as QueryTree)
+      : {};
+  tree[head] = branch;
+  assignPath(branch, rest, value);
+};
+
+/**
+ * Items of an array field, whichever way they were sent
+ */
+const toArray = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (entries.every(([key]) => INDEX_REGEX.test(key))) {
+      return entries
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([, item]) => item);
+    }
+  }
+  return [value];
+};
+
+/**
+ * Shape a decoded value like its schema: single values of array fields become
+ * one-item arrays, indexed objects (`items[0]`, `items[1]`) become arrays, and
+ * object fields are shaped recursively
+ */
+const shapeValue = (value: unknown, schema: ZodType | undefined): unknown => {
+  const def = unwrapDef(schema);
+  if (def?.type === "array") {
+    const items = toArray(value);
+    return items.map((item) => shapeValue(item, def.element));
+  }
+  if (
+    def?.type === "object" &&
+    value &&
+    typeof value === "object" &&
+    !Array.isArray(value)
+  ) {
+    const shaped: QueryTree = {};
+    for (const [key, entry] of Object.entries(value)) {
+      shaped[key] = shapeValue(entry, def.shape?.[key]);
+    }
+    return shaped;
+  }
+  return value;
+};
+
+/**
+ * Decode URL search params into the shape of a route's query schema
+ * Repeated keys become arrays, bracketed keys nested objects; without a schema
+ * the decoded tree is returned as is. Keys reaching object prototypes are dropped
+ */
+export const decodeQuery = (
+  searchParams: URLSearchParams,
+  schema?: ZodType
+): Record<string, unknown> => {
+  const tree: QueryTree = {};
+  for (const [key, value] of searchParams) {
+    const path = parseKey(key);
+    if (!path.some((segment) => UNSAFE_KEYS.has(segment))) {
+      assignPath(tree, path, value);
+    }
+  }
+  return shapeValue(tree, schema) as Record<string, unknown>;
+};
+
+/**
+ * Append a value to search params under `key`, expanding arrays and objects
+ */
+const appendValue = (
+  searchParams: URLSearchParams,
+  key: string,
+  value: unknown
+): void => {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (value instanceof Date) {
+    searchParams.append(key, value.toISOString());
+  } else if (Array.isArray(value)) {
+    const primitives = value.every(
+      (item) => typeof item !== "object" || item instanceof Date
+    );
+    value.forEach((item, index) => {
+      // Objects need an index to keep their fields together
+      appendValue(searchParams, primitives ? key : `${key}[${index}]`, item);
+    });
+  } else if (typeof value === "object") {
+    for (const [field, entry] of Object.entries(value)) {
+      appendValue(searchParams, `${key}[${field}]`, entry);
+    }
+  } else {
+    searchParams.append(key, String(value));
+  }
+};
+
+/**
+ * Encode a query object as a query string (without the leading "?")
+ * Undefined and null values are omitted
+ */
+export const encodeQuery = (query: Record<string, unknown>): string => {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    appendValue(searchParams, key, value);
+  }
+  return searchParams.toString();
+};
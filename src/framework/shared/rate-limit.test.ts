@@ -0,0 +1,54 @@
+import { expect, test } from "bun:test";
+import { createMemoryStore, rateLimit, rateLimitKeys } from "./rate-limit";
+
+const request = (headers?: HeadersInit) =>
+  new Request("http://localhost/api/items", { headers: headers ?? {} });
+
+test("answers 429 with rate limit headers once the window is used up", async () => {
+  const limiter = rateLimit({
+    windowMs: 60_000,
+    max: 2,
+    store: createMemoryStore(),
+  });
+  expect(await limiter({ request: request(), ctx: {} })).toBeUndefined();
+  expect(await limiter({ request: request(), ctx: {} })).toBeUndefined();
+
+  const throttled = await limiter({ request: request(), ctx: {} });
+  expect(throttled).toBeInstanceOf(Response);
+  const response = throttled as Response;
+  expect(response.status).toBe(429);
+  expect(response.headers.get("ratelimit-limit")).toBe("2");
+  expect(response.headers.get("ratelimit-remaining")).toBe("0");
+  expect(Number(response.headers.get("retry-after"))).toBeGreaterThan(0);
+  expect(await response.json()).toMatchObject({ code: "TOO_MANY_REQUESTS" });
+});
+
+test("counts keys separately", async () => {
+  const limiter = rateLimit({
+    windowMs: 60_000,
+    max: 1,
+    store: createMemoryStore(),
+    key: rateLimitKeys.header("x-api-key"),
+  });
+  const call = (apiKey: string) =>
+    limiter({ request: request({ "x-api-key": apiKey }), ctx: {} });
+  expect(await call("a")).toBeUndefined();
+  expect(await call("b")).toBeUndefined();
+  expect((await call("a")) as Response).toHaveProperty("status", 429);
+});
+
+test("named limiters sharing a store don't share counts", async () => {
+  const store = createMemoryStore();
+  const first = rateLimit({ name: "first", windowMs: 60_000, max: 1, store });
+  const second = rateLimit({ name: "second", windowMs: 60_000, max: 1, store });
+  expect(await first({ request: request(), ctx: {} })).toBeUndefined();
+  expect(await second({ request: request(), ctx: {} })).toBeUndefined();
+});
+
+test("a new window starts after the old one expires", async () => {
+  const store = createMemoryStore();
+  expect(store.hit("key", 20)).toMatchObject({ count: 1 });
+  expect(store.hit("key", 20)).toMatchObject({ count: 2 });
+  await Bun.sleep(30);
+  expect(store.hit("key", 20)).toMatchObject({ count: 1 });
+});
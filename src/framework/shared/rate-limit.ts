@@ -0,0 +1,153 @@
+/**
+ * Rate limiting for API routes
+ * Fixed-window counters per key (client IP by default), kept in a pluggable store
+ *
+ * Usage:
+ *   route({ ..., rateLimit: { windowMs: 60_000, max: 10 } })
+ *   withMiddleware(rateLimit({ name: "admin", windowMs: 60_000, max: 100 })).router({ ... })
+ * Throttled requests get 429 TOO_MANY_REQUESTS with Retry-After and RateLimit-* headers
+ *
+ * Persistent storage (`createSqliteStore`) lives in ~/framework/server/rate-limit-store,
+ * since bun:sqlite can't be bundled for the browser
+ */
+
+import type { ApiMiddleware } from "./api";
+import { RouteError } from "./api-errors";
+import { getClientAddress } from "./client-address";
+
+/**
+ * Counter state after a hit
+ */
+export interface RateLimitHit {
+  /** Requests counted in the current window, including this one */
+  count: number;
+  /** When the current window ends (ms since epoch) */
+  resetAt: number;
+}
+
+/**
+ * Storage for rate limit counters
+ */
+export interface RateLimitStore {
+  /** Count a request against `key`, starting a new window when the last one ended */
+  hit: (key: string, windowMs: number) => RateLimitHit | Promise<RateLimitHit>;
+}
+
+/**
+ * Rate limit options
+ */
+export interface RateLimitOptions {
+  /** Window length in milliseconds */
+  windowMs: number;
+  /** Requests allowed per key in each window */
+  max: number;
+  /** Bucket key for a request (default: client IP, see `rateLimitKeys`) */
+  key?: (request: Request) => string | Promise<string>;
+  /** Counter storage (default: shared store, see setDefaultRateLimitStore) */
+  store?: RateLimitStore;
+  /**
+   * Counter namespace, so limiters sharing a store don't share counts
+   * Routes default to "METHOD /path"; set it for subtree limits on a persistent store
+   */
+  name?: string;
+}
+
+/**
+ * In-memory store (counters reset on restart)
+ * Expired windows are swept once they outnumber the live ones
+ */
+export const createMemoryStore = (): RateLimitStore => {
+  const windows = new Map<string, RateLimitHit>();
+  let sweepAt = 1000;
+
+  const sweep = (now: number): void => {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+    sweepAt = Math.max(1000, windows.size * 2);
+  };
+
+  return {
+    hit: (key, windowMs) => {
+      const now = Date.now();
+      if (windows.size >= sweepAt) {
+        sweep(now);
+      }
+      const current = windows.get(key);
+      if (current && current.resetAt > now) {
+        current.count += 1;
+        return { ...current };
+      }
+      const started = { count: 1, resetAt: now + windowMs };
+      windows.set(key, started);
+      return { ...started };
+    },
+  };
+};
+
+/**
+ * Common bucket keys
+ */
+export const rateLimitKeys = {
+  /** Client IP (requests that never hit the server share the "unknown" bucket) */
+  ip: (request: Request): string => getClientAddress(request) ?? "unknown",
+  /** Header value (e.g. an API key), falling back to the client IP */
+  header:
+    (name: string) =>
+    (request: Request): string =>
+      request.headers.get(name) ?? `ip:${rateLimitKeys.ip(request)}`,
+};
+
+/**
+ * Store used when options don't specify one
+ */
+let defaultStore: RateLimitStore = createMemoryStore();
+
+/**
+ * Replace the default store (e.g. with a SQLite store at server startup)
+ * Applies to every limiter without its own `store`, including ones already created
+ */
+export const setDefaultRateLimitStore = (store: RateLimitStore): void => {
+  defaultStore = store;
+};
+
+/**
+ * Namespace for limiters created without a name
+ */
+let unnamedLimiters = 0;
+
+/**
+ * Build the 429 response for a throttled request
+ */
+const tooManyRequests = (max: number, { resetAt }: RateLimitHit): Response => {
+  const resetSeconds = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+  const response = new RouteError(429, "TOO_MANY_REQUESTS", {
+    message: "Too many requests",
+  }).toResponse();
+  response.headers.set("Retry-After", String(resetSeconds));
+  response.headers.set("RateLimit-Limit", String(max));
+  response.headers.set("RateLimit-Remaining", "0");
+  response.headers.set("RateLimit-Reset", String(resetSeconds));
+  return response;
+};
+
+/**
+ * Create rate limiting middleware
+ * Use it with `withMiddleware(...)` to share one limit across a router subtree
+ */
+export const rateLimit = (options: RateLimitOptions): ApiMiddleware => {
+  unnamedLimiters += 1;
+  const name = options.name ?? `limiter-${unnamedLimiters}`;
+  const getKey = options.key ?? rateLimitKeys.ip;
+
+  return async ({ request }) => {
+    const key = await getKey(request);
+    const store = options.store ?? defaultStore;
+    const hit = await store.hit(`${name}:${key}`, options.windowMs);
+    return hit.count > options.max
+      ? tooManyRequests(options.max, hit)
+      : undefined;
+  };
+};
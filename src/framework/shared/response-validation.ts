@@ -0,0 +1,95 @@
+/**
+ * Response validation for API routes
+ * Handler results are checked against the route's `response` schema before they are sent,
+ * so internal fields (e.g. DB columns) can't leak to clients
+ *
+ * Modes (createAPI option `responseValidation`):
+ * - "strip" (default): send the parsed output, without keys the schema doesn't declare
+ * - "strict": keys the schema doesn't declare are a failure too
+ * - "off": send handler results as they are
+ * Failures are logged with the route and answered with 500 INTERNAL_SERVER_ERROR
+ */
+
+import { type ZodType, z } from "zod";
+import { RouteError } from "./api-errors";
+
+/**
+ * How handler results are checked against the response schema
+ */
+export type ResponseValidationMode = "strict" | "strip" | "off";
+
+/**
+ * Check if a value is a plain object (not a Date, Map, class instance...)
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Paths of keys present in the handler result but dropped by parsing
+ */
+const findUnknownKeys = (
+  raw: unknown,
+  parsed: unknown,
+  path = ""
+): string[] => {
+  if (Array.isArray(raw) && Array.isArray(parsed)) {
+    return raw.flatMap((item, index) =>
+      findUnknownKeys(item, parsed[index], `${path}[${index}]`)
+    );
+  }
+  if (!(isPlainObject(raw) && isPlainObject(parsed))) {
+    return [];
+  }
+  return Object.entries(raw).flatMap(([key, value]) => {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (!(key in parsed)) {
+      return value === undefined ? [] : [keyPath];
+    }
+    return findUnknownKeys(value, parsed[key], keyPath);
+  });
+};
+
+/**
+ * Error sent to clients when a response fails validation (details are only logged)
+ */
+const responseValidationError = (): RouteError =>
+  new RouteError(500, "INTERNAL_SERVER_ERROR", {
+    message: "Response validation failed",
+  });
+
+/**
+ * Validate a handler result, returning the value to send
+ * `route` names the route in logs, e.g. "GET /api/products/:id"
+ */
+export const validateResponse = (
+  schema: ZodType,
+  value: unknown,
+  mode: ResponseValidationMode,
+  route: string
+): unknown => {
+  if (mode === "off") {
+    return value;
+  }
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    console.error(
+      `[api] Response validation failed for ${route}:\n${z.prettifyError(result.error)}`
+    );
+    throw responseValidationError();
+  }
+  if (mode === "strict") {
+    const unknownKeys = findUnknownKeys(value, result.data);
+    if (unknownKeys.length > 0) {
+      console.error(
+        `[api] Response validation failed for ${route}: undeclared fields ${unknownKeys.join(", ")}`
+      );
+      throw responseValidationError();
+    }
+  }
+  return result.data;
+};
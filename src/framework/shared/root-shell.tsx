@@ -2,11 +2,13 @@
  * Root HTML shell component that wraps all pages
  * Handles metadata injection, default styles, and hydration script
  */
-export interface Metadata {
-  title?: string;
-  description?: string;
-  viewport?: string;
-}
+import type { RouteErrorData } from "./error-boundary";
+import {
+  type MetadataImage,
+  type Metadata,
+  mergeMetadata,
+  type ResolvedMetadata,
+} from "./metadata";
 
 /**
  * Route data passed to the client for hydration
@@ -17,6 +19,8 @@ export interface RouteData {
   hasClientComponents: boolean;
   /** Page data from loader (for server component pages that need hydration) */
   pageData?: unknown;
+  /** Server error rendered by an error boundary (hydration starts with that boundary) */
+  routeError?: RouteErrorData;
 }
 
 /**
@@ -54,14 +58,109 @@ export const clearRouteDataCache = (): void => {
   routeDataCache.clear();
 };
 
+/**
+ * Default document title and description (when no layout or page sets them)
+ */
+const DEFAULT_TITLE = "Bun + React";
+const DEFAULT_DESCRIPTION = "A full-stack application built with Bun and React";
+
+/**
+ * Meta tag entries: [name or property, content], skipping missing contents
+ */
+type MetaEntry = [string, string | number | undefined];
+
+/**
+ * Entries of card images (og:image / twitter:image, with their alt text and size)
+ */
+const imageEntries = (
+  prefix: "og:image" | "twitter:image",
+  images: MetadataImage[] | undefined
+): MetaEntry[] =>
+  (images ?? []).flatMap((image): MetaEntry[] =>
+    typeof image === "string"
+      ? [[prefix, image]]
+      : [
+          [prefix, image.url],
+          [`${prefix}:alt`, image.alt],
+          [`${prefix}:width`, image.width],
+          [`${prefix}:height`, image.height],
+        ]
+  );
+
+/**
+ * Meta tags of entries: Open Graph uses `property`, everything else `name`
+ */
+const metaTags = (entries: MetaEntry[]): React.ReactNode[] =>
+  entries.flatMap(([key, content]) => {
+    if (content === undefined) {
+      return [];
+    }
+    const value = String(content);
+    return key.startsWith("og:")
+      ? [<meta content={value} key={`${key}=${value}`} property={key} />]
+      : [<meta content={value} key={`${key}=${value}`} name={key} />];
+  });
+
+/**
+ * Document head tags of resolved metadata (title, description, canonical, robots,
+ * Open Graph and Twitter cards)
+ * Also used for the fallback document of pages rendered without RootShell
+ */
+export const MetadataTags = ({ metadata }: { metadata: ResolvedMetadata }) => {
+  const { openGraph, twitter } = metadata;
+  return (
+    <>
+      <meta
+        content={metadata.viewport || "width=device-width, initial-scale=1.0"}
+        name="viewport"
+      />
+      <meta
+        content={metadata.description || DEFAULT_DESCRIPTION}
+        name="description"
+      />
+      <title>{metadata.title || DEFAULT_TITLE}</title>
+      {metadata.canonical ? (
+        <link href={metadata.canonical} rel="canonical" />
+      ) : null}
+      {metadata.robots ? (
+        <meta content={metadata.robots} name="robots" />
+      ) : null}
+      {openGraph
+        ? metaTags([
+            ["og:title", openGraph.title],
+            ["og:description", openGraph.description],
+            ["og:url", openGraph.url],
+            ["og:site_name", openGraph.siteName],
+            ["og:type", openGraph.type],
+            ["og:locale", openGraph.locale],
+            ...imageEntries("og:image", openGraph.images),
+          ])
+        : null}
+      {twitter
+        ? metaTags([
+            ["twitter:card", twitter.card ?? "summary"],
+            ["twitter:title", twitter.title],
+            ["twitter:description", twitter.description],
+            ["twitter:site", twitter.site],
+            ["twitter:creator", twitter.creator],
+            ...imageEntries("twitter:image", twitter.images),
+          ])
+        : null}
+    </>
+  );
+};
+
 interface RootShellProps {
   children: React.ReactNode;
+  /** Document metadata (resolved from the route's layouts and page by the renderer) */
   metadata?: Metadata;
   routePath?: string;
   /** Whether this route has client components needing hydration */
   hasClientComponents?: boolean;
   /** Page data from loader (for hydration) */
   pageData?: unknown;
+  /** Server error rendered by an error boundary (for hydration) */
+  routeError?: RouteErrorData;
   /** Whether this route is static (for caching serialized route data) */
   isStatic?: boolean;
   /** Whether to preload hydration script (for faster TTI) */
@@ -76,21 +175,18 @@ export const RootShell = ({
   routePath,
   hasClientComponents = true,
   pageData,
+  routeError,
   isStatic = false,
   preloadHydration = true,
   routeChunks,
 }: RootShellProps) => {
-  const title = metadata?.title || "Bun + React";
-  const description =
-    metadata?.description ||
-    "A full-stack application built with Bun and React";
-  const viewport =
-    metadata?.viewport || "width=device-width, initial-scale=1.0";
+  const resolvedMetadata = mergeMetadata(metadata ? [metadata] : []);
 
   const routeData: RouteData = {
     routePath: routePath || "/",
     hasClientComponents,
     ...(pageData !== undefined && { pageData }),
+    ...(routeError !== undefined && { routeError }),
   };
 
   // Cache serialized route data for static routes
@@ -115,9 +211,7 @@ export const RootShell = ({
     <html lang="en">
       <head>
         <meta charSet="UTF-8" />
-        <meta content={viewport} name="viewport" />
-        <meta content={description} name="description" />
-        <title>{title}</title>
+        <MetadataTags metadata={resolvedMetadata} />
         <link href="/logo.svg" rel="icon" type="image/svg+xml" />
         <link href="/index.css" rel="stylesheet" />
         {/* Process polyfill - must be first to ensure chunks can access it */}
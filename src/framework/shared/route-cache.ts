@@ -0,0 +1,182 @@
+/**
+ * HTTP caching for GET API routes
+ * Responses get a weak ETag computed from the serialized body and the route's
+ * Cache-Control; a matching If-None-Match is answered with 304 Not Modified.
+ * Routes with a `ttl` also keep the serialized response in memory until it expires
+ * or one of its tags is invalidated. Memoized responses are served after middleware
+ * without running the handler, so a `ttl` requires a `scope` naming whose response it is
+ *
+ * Usage:
+ *   route({ method: "GET", cache: { ttl: 60, scope: () => "public", tags: ["products"] }, ... })
+ *   invalidateCacheTags("products"); // after a write
+ */
+
+/**
+ * Caching options shared by validated-only and memoized routes
+ */
+interface RouteCacheBaseOptions<TInput> {
+  /** Cache-Control header (default: "no-cache" - clients revalidate with the ETag every time) */
+  cacheControl?: string;
+  /** Tags invalidating the memoized response, static or computed from the validated inputs */
+  tags?: string[] | ((input: TInput) => string[]);
+}
+
+/**
+ * Server memoization: the response is shared by every request with the same URL and scope
+ */
+interface RouteMemoizeOptions {
+  /** Keep the serialized response on the server for this many seconds */
+  ttl: number;
+  /**
+   * Who the memoized response belongs to, e.g. the user id for responses that depend on
+   * the caller (headers, cookies, ctx), or a constant for public data
+   */
+  scope: (request: Request) => string | Promise<string>;
+}
+
+/**
+ * Per-route caching options
+ */
+export type RouteCacheOptions<TInput = unknown> =
+  RouteCacheBaseOptions<TInput> &
+    (RouteMemoizeOptions | { ttl?: undefined; scope?: undefined });
+
+/**
+ * Serialized response body with its validator
+ */
+export interface CachedBody {
+  body: string;
+  contentType: string;
+  etag: string;
+}
+
+/**
+ * Memoized response
+ */
+interface CacheEntry extends CachedBody {
+  expiresAt: number;
+  tags: string[];
+}
+
+/**
+ * Memoized responses keyed by method, URL, negotiated content type and scope
+ */
+const responseCache = new Map<string, CacheEntry>();
+
+/**
+ * Maximum memoized responses (oldest are evicted first)
+ */
+const MAX_ENTRIES = 500;
+
+/**
+ * Build a weak ETag from a serialized body
+ * Weak, because equal JSON may be produced with different byte-level encodings
+ */
+export const createCachedBody = (
+  body: string,
+  contentType: string
+): CachedBody => ({
+  body,
+  contentType,
+  etag: `W/"${Bun.hash(body).toString(36)}"`,
+});
+
+/**
+ * Weak validator prefix of an ETag
+ */
+const WEAK_PREFIX_REGEX = /^W\//;
+
+/**
+ * Check an If-None-Match header against an ETag (weak comparison)
+ */
+const matchesETag = (ifNoneMatch: string | null, etag: string): boolean => {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  const opaque = etag.replace(WEAK_PREFIX_REGEX, "");
+  return ifNoneMatch
+    .split(",")
+    .map((candidate) => candidate.trim())
+    .some(
+      (candidate) =>
+        candidate === "*" || candidate.replace(WEAK_PREFIX_REGEX, "") === opaque
+    );
+};
+
+/**
+ * Build the response for a cacheable route, or 304 when the client's copy is current
+ */
+export const toCachedResponse = (
+  req: Request,
+  cached: CachedBody,
+  options: RouteCacheOptions
+): Response => {
+  const headers = {
+    ETag: cached.etag,
+    "Cache-Control": options.cacheControl ?? "no-cache",
+    Vary: "Accept",
+  };
+  if (matchesETag(req.headers.get("if-none-match"), cached.etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(cached.body, {
+    headers: { ...headers, "Content-Type": cached.contentType },
+  });
+};
+
+/**
+ * Cache key of a request for a given response format and scope
+ */
+export const responseCacheKey = (
+  req: Request,
+  contentType: string,
+  scope: string
+): string => JSON.stringify([req.method, req.url, contentType, scope]);
+
+/**
+ * Read a memoized response (expired entries are dropped)
+ */
+export const getCachedBody = (key: string): CachedBody | undefined => {
+  const entry = responseCache.get(key);
+  if (!entry) {
+    return;
+  }
+  if (entry.expiresAt <= Date.now()) {
+    responseCache.delete(key);
+    return;
+  }
+  return entry;
+};
+
+/**
+ * Memoize a serialized response for `ttl` seconds
+ */
+export const setCachedBody = (
+  key: string,
+  cached: CachedBody,
+  ttl: number,
+  tags: string[]
+): void => {
+  if (responseCache.size >= MAX_ENTRIES && !responseCache.has(key)) {
+    const oldest = responseCache.keys().next().value;
+    if (oldest !== undefined) {
+      responseCache.delete(oldest);
+    }
+  }
+  responseCache.set(key, {
+    ...cached,
+    expiresAt: Date.now() + ttl * 1000,
+    tags,
+  });
+};
+
+/**
+ * Drop memoized responses carrying any of the given tags
+ */
+export const invalidateCacheTags = (...tags: string[]): void => {
+  for (const [key, entry] of responseCache) {
+    if (entry.tags.some((tag) => tags.includes(tag))) {
+      responseCache.delete(key);
+    }
+  }
+};
@@ -31,6 +31,16 @@ const ROUTE_HANDLER_FILES = ["route.ts", "route.tsx", "route.js", "route.jsx"];
  */
 const LAYOUT_FILE = "layout.tsx";
 
+/**
+ * Error boundary file name (one per directory)
+ */
+const ERROR_FILE = "error.tsx";
+
+/**
+ * Root-level fallback rendered in place of the root layout
+ */
+const GLOBAL_ERROR_FILE = "global-error.tsx";
+
 /**
  * Regex patterns for dynamic route segments
  */
@@ -39,6 +49,15 @@ const DYNAMIC_PATTERN = /^\[(\w+)\]$/;
 const FILE_EXTENSION_PATTERN = /\.(tsx|ts|jsx|js)$/;
 const TRAILING_SLASH_PATTERN = /\/$/;
 
+/**
+ * `error.tsx` of a directory on a route's path
+ */
+export interface ErrorBoundaryInfo {
+  path: string;
+  /** Number of layouts wrapping the boundary (the root layout excluded) */
+  layoutDepth: number;
+}
+
 export interface RouteInfo {
   path: string;
   filePath: string;
@@ -60,6 +79,8 @@ export interface RouteInfo {
   hasLoader: boolean;
   /** Whether this route is in a client-navigable group (SPA-style navigation) */
   clientNavigable: boolean;
+  /** Error boundaries from the app directory down to the page's directory */
+  errorBoundaries: ErrorBoundaryInfo[];
   /** ISR revalidation interval in seconds. Undefined = no ISR */
   revalidate?: number;
 }
@@ -75,6 +96,8 @@ export interface RouteTree {
   routes: Map<string, RouteInfo>;
   routeHandlers: Map<string, RouteHandlerInfo>;
   layouts: Map<string, string>;
+  /** `src/app/global-error.tsx`, if present */
+  globalErrorPath?: string;
 }
 
 /**
@@ -192,6 +215,7 @@ const findLayouts = (
   clientNavigable: boolean;
 } => {
   const allLayouts: LayoutInfo[] = [];
+  const nestedLayouts: LayoutInfo[] = [];
   let currentDir = dirname(filePath);
 
   // Check root layout first
@@ -205,6 +229,7 @@ const findLayouts = (
   }
 
   // Walk up the directory tree from route's directory to app directory
+  // (prepending, so nested layouts stay ordered from outermost to innermost)
   const appDirParent = dirname(appDir);
 
   while (currentDir !== appDirParent && currentDir !== ".") {
@@ -219,7 +244,7 @@ const findLayouts = (
       existsSync(layoutFile) &&
       !allLayouts.some((l) => l.path === layoutFile)
     ) {
-      allLayouts.push({
+      nestedLayouts.unshift({
         path: layoutFile,
         isClient: hasUseClientDirective(layoutFile),
         hasClientNavigation: hasClientNavigation(layoutFile),
@@ -227,6 +252,7 @@ const findLayouts = (
     }
     currentDir = dirname(currentDir);
   }
+  allLayouts.push(...nestedLayouts);
 
   // Build layout types array (maps to parentLayouts + layoutPath order)
   const layoutTypes: ComponentType[] = allLayouts.map((l) =>
@@ -264,6 +290,36 @@ const findLayouts = (
   return { parentLayouts, layoutTypes, clientNavigable };
 };
 
+/**
+ * Find the error boundaries of a route, from the app directory down to the file's directory
+ * Each boundary sits inside the layout of its own directory and the layouts above it
+ */
+export const findErrorBoundaries = (
+  filePath: string,
+  appDir: string
+): ErrorBoundaryInfo[] => {
+  const segments = relative(appDir, dirname(filePath))
+    .split("/")
+    .filter(Boolean);
+  const boundaries: ErrorBoundaryInfo[] = [];
+  let currentDir = appDir;
+  let layoutDepth = 0;
+
+  for (const segment of ["", ...segments]) {
+    currentDir = join(currentDir, segment);
+    // The root layout renders the document and isn't counted
+    if (currentDir !== appDir && existsSync(join(currentDir, LAYOUT_FILE))) {
+      layoutDepth += 1;
+    }
+    const errorFile = join(currentDir, ERROR_FILE);
+    if (existsSync(errorFile)) {
+      boundaries.push({ path: errorFile, layoutDepth });
+    }
+  }
+
+  return boundaries;
+};
+
 /**
  * Process a route file and add it to the routes map
  */
@@ -313,6 +369,7 @@ const processRouteFile = (
     hasStaticParams,
     hasLoader: hasLoaderFn,
     clientNavigable,
+    errorBoundaries: findErrorBoundaries(fullPath, appDir),
     ...(revalidateValue !== undefined && { revalidate: revalidateValue }),
     ...(dynamicSegments.length > 0 && { dynamicSegments }),
   };
@@ -514,6 +571,10 @@ export const discoverRoutes = async (
       hasStaticParams: routeInfo.hasStaticParams,
       hasLoader: routeInfo.hasLoader,
       clientNavigable: routeInfo.clientNavigable,
+      errorBoundaries: routeInfo.errorBoundaries.map((boundary) => ({
+        path: toImportPath(boundary.path, srcDir),
+        layoutDepth: boundary.layoutDepth,
+      })),
       ...(routeInfo.revalidate !== undefined && {
         revalidate: routeInfo.revalidate,
       }),
@@ -545,6 +606,16 @@ export const discoverRoutes = async (
     routeHandlers.set(path, updatedHandlerInfo);
   }
 
+  const globalErrorFile = join(resolvedAppDir, GLOBAL_ERROR_FILE);
+  if (existsSync(globalErrorFile)) {
+    return {
+      routes,
+      routeHandlers,
+      layouts,
+      globalErrorPath: toImportPath(globalErrorFile, srcDir),
+    };
+  }
+
   return { routes, routeHandlers, layouts };
 };
 
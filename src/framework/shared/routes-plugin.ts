@@ -14,12 +14,21 @@ const APP_PREFIX_REGEX = /^\.\/app\//;
 const FILE_EXTENSION_REGEX = /\.(tsx|ts|jsx|js)$/;
 const KEBAB_SNAKE_CASE_REGEX = /[-_]/;
 
+/**
+ * Suffix of generated component names, per module kind
+ */
+const COMPONENT_NAME_SUFFIXES = {
+  page: "Page",
+  layout: "Layout",
+  error: "ErrorBoundary",
+} as const;
+
 /**
  * Generate a unique component name from path
  */
 const generateComponentName = (
   path: string,
-  type: "page" | "layout"
+  type: keyof typeof COMPONENT_NAME_SUFFIXES
 ): string => {
   const parts = path
     .replace(ALIAS_PREFIX_REGEX, "") // Remove ~/ alias
@@ -48,7 +57,7 @@ const generateComponentName = (
     })
     .join("");
 
-  return `${name}${type === "layout" ? "Layout" : "Page"}`;
+  return `${name}${COMPONENT_NAME_SUFFIXES[type]}`;
 };
 
 /**
@@ -149,6 +158,28 @@ const collectLayouts = (
   return layoutMap;
 };
 
+/**
+ * Collect all error boundaries (error.tsx), mapped to their component names
+ */
+const collectErrorBoundaries = (
+  routes: Map<string, import("./router").RouteInfo>
+): Map<string, string> => {
+  const errorMap = new Map<string, string>();
+
+  for (const [, routeInfo] of routes.entries()) {
+    for (const boundary of routeInfo.errorBoundaries) {
+      if (!errorMap.has(boundary.path)) {
+        errorMap.set(
+          boundary.path,
+          generateComponentName(boundary.path, "error")
+        );
+      }
+    }
+  }
+
+  return errorMap;
+};
+
 /**
  * Generate import statements for pages and layouts
  * Note: We import ALL layouts (server and client) so they can be used
@@ -157,7 +188,8 @@ const collectLayouts = (
  */
 const generateImports = (
   routes: Map<string, import("./router").RouteInfo>,
-  layoutMap: Map<string, LayoutInfo>
+  layoutMap: Map<string, LayoutInfo>,
+  errorMap: Map<string, string>
 ): string[] => {
   const imports: string[] = [];
 
@@ -179,6 +211,13 @@ const generateImports = (
     );
   }
 
+  // Import error boundaries (error.tsx and global-error.tsx)
+  for (const [errorPath, errorName] of errorMap.entries()) {
+    imports.push(
+      `const ${errorName} = lazy(() => import("${toImportPath(errorPath)}"));`
+    );
+  }
+
   return imports;
 };
 
@@ -188,7 +227,8 @@ const generateImports = (
 const generateRouteConfig = (
   routePath: string,
   routeInfo: import("./router").RouteInfo,
-  layoutMap: Map<string, LayoutInfo>
+  layoutMap: Map<string, LayoutInfo>,
+  errorMap: Map<string, string>
 ): string => {
   const pageComponentName = generateComponentName(routeInfo.filePath, "page");
 
@@ -241,6 +281,15 @@ const generateRouteConfig = (
     routeConfig.push(`parentLayoutTypes: [${parentLayoutTypes.join(", ")}]`);
   }
 
+  // Error boundaries (outermost first), placed between layouts like on the server
+  if (routeInfo.errorBoundaries.length > 0) {
+    const errorBoundaries = routeInfo.errorBoundaries.map(
+      (boundary) =>
+        `{ component: ${errorMap.get(boundary.path)}, layoutDepth: ${boundary.layoutDepth} }`
+    );
+    routeConfig.push(`errorBoundaries: [${errorBoundaries.join(", ")}]`);
+  }
+
   if (routeInfo.isDynamic) {
     routeConfig.push("isDynamic: true");
   }
@@ -267,8 +316,10 @@ const generateRouteConfig = (
  */
 const generateRoutesCode = (
   imports: string[],
-  routeEntries: string[]
+  routeEntries: string[],
+  globalErrorName: string | undefined
 ): string => `import { lazy } from "react";
+import type { ErrorComponentProps } from "~/framework/shared/error-boundary";
 
 ${imports.join("\n")}
 
@@ -288,6 +339,8 @@ export interface RouteConfig {
   parentLayouts?: React.LazyExoticComponent<React.ComponentType<{ children: React.ReactNode }>>[];
   /** Types of parent layouts */
   parentLayoutTypes?: ComponentType[];
+  /** Error boundaries (lazy loaded), outermost first */
+  errorBoundaries?: { component: React.LazyExoticComponent<React.ComponentType<ErrorComponentProps>>; layoutDepth: number }[];
   isDynamic?: boolean;
   dynamicSegments?: string[];
   /** Page rendering type: static (build-time) or dynamic (request-time) */
@@ -299,6 +352,9 @@ export interface RouteConfig {
 export const routes: Record<string, RouteConfig> = {
 ${routeEntries.join(",\n")}
 };
+
+/** Lazy global-error.tsx component, rendered in place of the root layout */
+export const globalError: React.LazyExoticComponent<React.ComponentType<ErrorComponentProps>> | undefined = ${globalErrorName ?? "undefined"};
 `;
 
 /**
@@ -365,17 +421,30 @@ export const routesPlugin: BunPlugin = {
         // First pass: collect all layouts and determine types
         const layoutMap = collectLayouts(routes);
 
+        // Error boundaries, global-error.tsx included
+        const errorMap = collectErrorBoundaries(routes);
+        if (routeTree.globalErrorPath) {
+          errorMap.set(
+            routeTree.globalErrorPath,
+            generateComponentName(routeTree.globalErrorPath, "error")
+          );
+        }
+
         // Second pass: generate imports
-        const imports = generateImports(routes, layoutMap);
+        const imports = generateImports(routes, layoutMap, errorMap);
 
         // Third pass: generate route entries
         const routeEntries = Array.from(routes.entries()).map(
           ([routePath, routeInfo]) =>
-            generateRouteConfig(routePath, routeInfo, layoutMap)
+            generateRouteConfig(routePath, routeInfo, layoutMap, errorMap)
         );
 
         // Generate the complete code
-        const generatedCode = generateRoutesCode(imports, routeEntries);
+        const generatedCode = generateRoutesCode(
+          imports,
+          routeEntries,
+          routeTree.globalErrorPath && errorMap.get(routeTree.globalErrorPath)
+        );
 
         return {
           contents: generatedCode,
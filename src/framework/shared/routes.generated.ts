@@ -1,5 +1,5 @@
 // This file is auto-generated. Do not edit manually.
-// Generated at: 2025-12-03T17:32:48.722Z
+// Generated at: 2026-10-18T17:08:32.082Z
 
 /**
  * Union type of all valid route paths in the application.
@@ -20,6 +20,7 @@ export type ValidRoutes =
   | "/demos/client-nav/analytics"
   | "/demos/client-nav/profile"
   | "/demos/client-nav/settings"
+  | "/demos/errors"
   | "/demos/isr"
   | "/demos/isr/admin"
   | "/demos/ssr"
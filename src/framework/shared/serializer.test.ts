@@ -0,0 +1,41 @@
+import { expect, test } from "bun:test";
+import { richSerializer } from "./serializer";
+
+test("rich values survive the round trip", () => {
+  const value = {
+    at: new Date(0),
+    big: 10n,
+    missing: undefined,
+    tags: new Set(["a"]),
+    byId: new Map([["1", { at: new Date(1000) }]]),
+  };
+  expect(richSerializer.parse(richSerializer.stringify(value))).toEqual(value);
+});
+
+test("meta paths can't reach object prototypes", () => {
+  for (const segment of ["__proto__", "constructor", "prototype"]) {
+    expect(() =>
+      richSerializer.parse(
+        JSON.stringify({ json: {}, meta: [[[segment, "polluted"], "Date"]] })
+      )
+    ).toThrow();
+  }
+  expect(({} as Record<string, unknown>)["polluted"]).toBeUndefined();
+});
+
+test("meta paths only walk own properties", () => {
+  expect(() =>
+    richSerializer.parse(
+      JSON.stringify({ json: { a: {} }, meta: [[["a", "toString"], "Date"]] })
+    )
+  ).toThrow();
+});
+
+test("malformed meta is rejected", () => {
+  expect(() =>
+    richSerializer.parse(
+      JSON.stringify({ json: 1, meta: [[["a"], "Function"]] })
+    )
+  ).toThrow();
+  expect(() => richSerializer.parse(JSON.stringify({ json: 1 }))).toThrow();
+});
@@ -0,0 +1,205 @@
+/**
+ * Wire serialization for API routes
+ * Plain JSON loses types (Date → string, BigInt throws, Map/Set → {}), so the client
+ * negotiates a richer format via Accept/Content-Type and both sides decode it back
+ *
+ * Rich format (superjson-style): { json: <JSON-safe value>, meta: [[path, type], ...] }
+ * where each meta entry records the original type of the value at `path`
+ * Payloads come from untrusted clients: meta is validated and paths may only
+ * walk own properties, never `__proto__`, `constructor` or `prototype`
+ */
+
+import { z } from "zod";
+
+/**
+ * Pluggable wire format
+ */
+export interface Serializer {
+  /** Media type used to negotiate the format */
+  contentType: string;
+  stringify: (value: unknown) => string;
+  parse: (text: string) => unknown;
+}
+
+/**
+ * Encoded rich payload, as validated on decode
+ */
+const richPayloadSchema = z.object({
+  json: z.unknown(),
+  meta: z.array(
+    z.tuple([
+      z.array(z.union([z.string(), z.number().int().nonnegative()])),
+      z.enum(["Date", "bigint", "undefined", "Map", "Set"]),
+    ])
+  ),
+});
+
+/**
+ * Encoded rich payload
+ */
+type RichPayload = z.infer<typeof richPayloadSchema>;
+
+/**
+ * Types restored by the rich serializer
+ */
+type RichType = RichPayload["meta"][number][1];
+
+/**
+ * Path segment inside the encoded value
+ */
+type PathSegment = string | number;
+
+/**
+ * Keys that would reach object prototypes
+ */
+const UNSAFE_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Plain JSON (the default when no rich format is negotiated)
+ */
+export const jsonSerializer: Serializer = {
+  contentType: "application/json",
+  stringify: (value) => JSON.stringify(value),
+  parse: (text) => JSON.parse(text),
+};
+
+/**
+ * Encode a value into JSON-safe data, recording type annotations
+ * Children are annotated before their parent, so decoding in order rebuilds inside-out
+ */
+const encodeValue = (
+  value: unknown,
+  path: PathSegment[],
+  meta: RichPayload["meta"]
+): unknown => {
+  if (value instanceof Date) {
+    meta.push([path, "Date"]);
+    return value.toISOString();
+  }
+  if (typeof value === "bigint") {
+    meta.push([path, "bigint"]);
+    return value.toString();
+  }
+  if (value === undefined) {
+    meta.push([path, "undefined"]);
+    return null;
+  }
+  if (value instanceof Map) {
+    const entries = [...value].map(([key, entry], index) => [
+      encodeValue(key, [...path, index, 0], meta),
+      encodeValue(entry, [...path, index, 1], meta),
+    ]);
+    meta.push([path, "Map"]);
+    return entries;
+  }
+  if (value instanceof Set) {
+    const items = [...value].map((item, index) =>
+      encodeValue(item, [...path, index], meta)
+    );
+    meta.push([path, "Set"]);
+    return items;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      encodeValue(item, [...path, index], meta)
+    );
+  }
+  if (value !== null && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = encodeValue(entry, [...path, key], meta);
+    }
+    return result;
+  }
+  return value;
+};
+
+/**
+ * Restore a single annotated value
+ */
+const restoreValue = (value: unknown, type: RichType): unknown => {
+  switch (type) {
+    case "Date":
+      return new Date(value as string);
+    case "bigint":
+      return BigInt(value as string);
+    case "undefined":
+      return;
+    case "Map":
+      return new Map(value as [unknown, unknown][]);
+    case "Set":
+      return new Set(value as unknown[]);
+    default:
+      return value;
+  }
+};
+
+/**
+ * Own property of an object or array at a path segment (throws for anything else)
+ */
+const ownEntry = (
+  container: unknown,
+  segment: PathSegment
+): Record<PathSegment, unknown> => {
+  if (
+    container === null ||
+    typeof container !== "object" ||
+    UNSAFE_SEGMENTS.has(String(segment)) ||
+    !Object.hasOwn(container, segment)
+  ) {
+    throw new TypeError(`Invalid rich payload path segment: ${segment}`);
+  }
+  return container as Record<PathSegment, unknown>;
+};
+
+/**
+ * Replace the value at a path (the root is replaced via the returned value)
+ */
+const replaceAtPath = (
+  root: unknown,
+  path: PathSegment[],
+  type: RichType
+): unknown => {
+  if (path.length === 0) {
+    return restoreValue(root, type);
+  }
+  let parent: unknown = root;
+  for (const segment of path.slice(0, -1)) {
+    parent = ownEntry(parent, segment)[segment];
+  }
+  const key = path.at(-1) as PathSegment;
+  const container = ownEntry(parent, key);
+  container[key] = restoreValue(container[key], type);
+  return root;
+};
+
+/**
+ * Rich serializer: Date, BigInt, Map, Set and undefined survive the round trip
+ */
+export const richSerializer: Serializer = {
+  contentType: "application/vnd.api+rich-json",
+  stringify: (value) => {
+    const meta: RichPayload["meta"] = [];
+    const json = encodeValue(value, [], meta);
+    return JSON.stringify({ json, meta } satisfies RichPayload);
+  },
+  parse: (text) => {
+    const { json, meta } = richPayloadSchema.parse(JSON.parse(text));
+    let result = json;
+    for (const [path, type] of meta) {
+      result = replaceAtPath(result, path, type);
+    }
+    return result;
+  },
+};
+
+/**
+ * Find the serializer matching a Content-Type or Accept header
+ */
+export const findSerializer = (
+  serializers: Serializer[],
+  header: string | null
+): Serializer | undefined =>
+  header
+    ? serializers.find((serializer) => header.includes(serializer.contentType))
+    : undefined;
@@ -0,0 +1,28 @@
+import { expect, test } from "bun:test";
+import { readEventValues } from "./sse";
+
+const eventStream = (body: string): Response =>
+  new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+
+test("returns on the end event", async () => {
+  const values: unknown[] = [];
+  for await (const value of readEventValues(
+    eventStream('data: {"n":1}\n\nevent: end\ndata: null\n\n')
+  )) {
+    values.push(value);
+  }
+  expect(values).toEqual([{ n: 1 }]);
+});
+
+test("throws CONNECTION_LOST when the stream closes without an end event", async () => {
+  const values: unknown[] = [];
+  const read = async () => {
+    for await (const value of readEventValues(
+      eventStream('data: {"n":1}\n\n')
+    )) {
+      values.push(value);
+    }
+  };
+  await expect(read()).rejects.toMatchObject({ code: "CONNECTION_LOST" });
+  expect(values).toEqual([{ n: 1 }]);
+});
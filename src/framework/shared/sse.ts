@@ -0,0 +1,202 @@
+/**
+ * Server-Sent Events wire format for streaming API routes
+ * Server encodes handler output into `text/event-stream`, client decodes it back
+ *
+ * Events:
+ * - (default) message: `data: <serialized event>`
+ * - error: `data: <serialized ApiErrorBody & { status }>`, stream ends
+ * - end: generator finished normally
+ * A stream closing without `end` or `error` lost its connection (CONNECTION_LOST)
+ *
+ * Event data uses the serializer negotiated via Accept, like other responses
+ * (e.g. `Accept: text/event-stream, application/vnd.api+rich-json`); the
+ * Event-Content-Type header names it
+ */
+
+import type { ZodType } from "zod";
+import { ApiError, type ApiErrorBody, toRouteError } from "./api-errors";
+import { jsonSerializer, type Serializer } from "./serializer";
+
+/**
+ * Response header naming the serializer used for event data
+ */
+export const EVENT_CONTENT_TYPE_HEADER = "Event-Content-Type";
+
+/**
+ * Decoded Server-Sent Event
+ */
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Error event payload (error body plus the status it would have had as a response)
+ */
+export interface StreamErrorPayload extends ApiErrorBody {
+  status: number;
+}
+
+/**
+ * Encode a single event
+ * Serialized data never contains raw newlines (JSON escapes them), so it fits one data line
+ */
+const formatEvent = (
+  event: string | null,
+  data: unknown,
+  serializer: Serializer
+): string => {
+  const eventLine = event ? `event: ${event}\n` : "";
+  return `${eventLine}data: ${serializer.stringify(data)}\n\n`;
+};
+
+/**
+ * Stream an async iterable as a `text/event-stream` response
+ * Each value is validated against the event schema before it is sent;
+ * the iterator is closed when the client disconnects
+ */
+export const createEventStreamResponse = (
+  events: AsyncIterable<unknown>,
+  eventSchema: ZodType,
+  serializer: Serializer = jsonSerializer
+): Response => {
+  const iterator = events[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.enqueue(
+            encoder.encode(formatEvent("end", null, serializer))
+          );
+          controller.close();
+          return;
+        }
+        const event = eventSchema.parse(value);
+        controller.enqueue(
+          encoder.encode(formatEvent(null, event, serializer))
+        );
+      } catch (error) {
+        const routeError = toRouteError(error);
+        const payload: StreamErrorPayload = {
+          status: routeError.status,
+          ...routeError.toJSON(),
+        };
+        controller.enqueue(
+          encoder.encode(formatEvent("error", payload, serializer))
+        );
+        controller.close();
+        await iterator.return?.();
+      }
+    },
+    async cancel() {
+      // Client disconnected - let the generator run its finally blocks
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      [EVENT_CONTENT_TYPE_HEADER]: serializer.contentType,
+      Vary: "Accept",
+    },
+  });
+};
+
+/**
+ * Parse one raw event block ("event: x\ndata: y")
+ */
+const parseEventBlock = (block: string): ServerSentEvent | null => {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+  if (dataLines.length === 0) {
+    return null;
+  }
+  return { event, data: dataLines.join("\n") };
+};
+
+/**
+ * Error for a stream that closed before its `end` or `error` event
+ * Status 0, like a network failure: the server never reported an outcome
+ */
+const connectionLost = (): ApiError =>
+  new ApiError(0, {
+    error: "Connection lost before the event stream ended",
+    code: "CONNECTION_LOST",
+  });
+
+/**
+ * Decode a `text/event-stream` response body into events
+ * Throws CONNECTION_LOST when the body ends before an `end` or `error` event
+ */
+export async function* readEventStream(
+  res: Response
+): AsyncGenerator<ServerSentEvent> {
+  if (!res.body) {
+    throw connectionLost();
+  }
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let finished = false;
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        if (!finished) {
+          throw connectionLost();
+        }
+        return;
+      }
+      buffer += value.replaceAll("\r\n", "\n");
+      let separatorIndex = buffer.indexOf("\n\n");
+      while (separatorIndex !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, separatorIndex));
+        buffer = buffer.slice(separatorIndex + 2);
+        if (parsed) {
+          finished ||= parsed.event === "end" || parsed.event === "error";
+          yield parsed;
+        }
+        separatorIndex = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Decode a streaming route response into its event values
+ * Returns on the `end` event and throws an ApiError on the `error` event;
+ * `serializer` decodes event data when the server used it (plain JSON otherwise)
+ */
+export async function* readEventValues(
+  res: Response,
+  serializer: Serializer = jsonSerializer
+): AsyncGenerator<unknown> {
+  const wire =
+    res.headers.get(EVENT_CONTENT_TYPE_HEADER) === serializer.contentType
+      ? serializer
+      : jsonSerializer;
+  for await (const { event, data } of readEventStream(res)) {
+    if (event === "end") {
+      return;
+    }
+    if (event === "error") {
+      const { status, ...body } = wire.parse(data) as StreamErrorPayload;
+      throw new ApiError(status, body);
+    }
+    yield wire.parse(data);
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * In-memory test harness for the typed API
+ * Requests are dispatched straight to the handlers `createAPI` builds for Bun.serve()
+ * (routing, middleware, validation, serialization, error handling), without a server
+ *
+ * Usage (bun test):
+ *   const client = api.testClient({ headers: { authorization: "Bearer test" } });
+ *   expect(await client.products.byId({ params: { id: "1" } })).toMatchObject({ id: "1" });
+ *   const res = await api.testFetch(new Request("http://localhost/api/hello", { method: "HEAD" }));
+ */
+
+import type { ApiEventStream, HttpMethod } from "./api";
+import { toApiError } from "./api-errors";
+import {
+  buildCallRequest,
+  createRouterCaller,
+  type RouteCaller,
+  splitCallInput,
+} from "./caller";
+import { hasBlobValues, toFormData } from "./form-data";
+import { IDEMPOTENCY_KEY_HEADER } from "./idempotency";
+import { richSerializer, type Serializer } from "./serializer";
+import { readEventValues } from "./sse";
+
+/**
+ * Dispatch a request to the API handlers in-memory
+ */
+export type TestFetch = (request: Request) => Promise<Response>;
+
+/**
+ * Handler of one path, as served by Bun.serve()
+ */
+type PathHandler = (req: Request) => Promise<Response>;
+
+/**
+ * Route endpoint called by the test client
+ */
+export interface TestRouteEndpoint {
+  path: string;
+  method: HttpMethod;
+  stream: boolean;
+  /** Calls carry a new Idempotency-Key, like the browser client's */
+  idempotent: boolean;
+}
+
+/**
+ * Test client options
+ */
+export interface TestClientOptions {
+  /** Headers sent with every call (auth, cookies, X-Forwarded-For) */
+  headers?: HeadersInit;
+  /** Wire format (default: richSerializer, like the browser client) */
+  serializer?: Serializer;
+}
+
+/**
+ * Compiled path pattern
+ */
+interface PathMatcher {
+  segments: string[];
+  paramCount: number;
+  handler: PathHandler;
+}
+
+/**
+ * Match a pathname against a pattern, returning its decoded params
+ */
+const matchPath = (
+  segments: string[],
+  pathSegments: string[]
+): Record<string, string> | undefined => {
+  if (segments.length !== pathSegments.length) {
+    return;
+  }
+  const params: Record<string, string> = {};
+  for (const [index, segment] of segments.entries()) {
+    const value = pathSegments[index] ?? "";
+    if (segment.startsWith(":")) {
+      params[segment.slice(1)] = decodeURIComponent(value);
+    } else if (segment !== value) {
+      return;
+    }
+  }
+  return params;
+};
+
+/**
+ * Build an in-memory dispatcher over path handlers
+ * Static paths win over parameterized ones, like Bun's router; unknown paths get 404
+ */
+export const createTestFetch = (
+  handlers: Record<string, PathHandler>
+): TestFetch => {
+  const matchers: PathMatcher[] = Object.entries(handlers)
+    .map(([path, handler]) => {
+      const segments = path.split("/");
+      return {
+        segments,
+        paramCount: segments.filter((segment) => segment.startsWith(":"))
+          .length,
+        handler,
+      };
+    })
+    .sort((a, b) => a.paramCount - b.paramCount);
+
+  return (request) => {
+    const pathSegments = new URL(request.url).pathname.split("/");
+    for (const { segments, handler } of matchers) {
+      const params = matchPath(segments, pathSegments);
+      if (params) {
+        return handler(Object.assign(request, { params }));
+      }
+    }
+    return Promise.resolve(new Response("Not Found", { status: 404 }));
+  };
+};
+
+/**
+ * Build the HTTP request for a test call, encoded like the browser client
+ */
+const buildTestRequest = (
+  endpoint: TestRouteEndpoint,
+  input: unknown,
+  options: TestClientOptions,
+  signal?: AbortSignal
+): Request => {
+  const serializer = options.serializer ?? richSerializer;
+  const inputs = splitCallInput(input);
+  const template = new Request("http://localhost/", {
+    ...(options.headers ? { headers: options.headers } : {}),
+    ...(signal ? { signal } : {}),
+  });
+  const request = buildCallRequest(
+    template,
+    endpoint.method,
+    endpoint.path,
+    inputs
+  );
+  request.headers.set(
+    "Accept",
+    endpoint.stream
+      ? `text/event-stream, ${serializer.contentType}`
+      : serializer.contentType
+  );
+  if (endpoint.idempotent && !request.headers.has(IDEMPOTENCY_KEY_HEADER)) {
+    request.headers.set(IDEMPOTENCY_KEY_HEADER, crypto.randomUUID());
+  }
+  if (inputs.body === undefined || endpoint.method === "GET") {
+    return request;
+  }
+  if (hasBlobValues(inputs.body)) {
+    return new Request(request, {
+      body: toFormData(inputs.body as Record<string, unknown>),
+    });
+  }
+  request.headers.set("Content-Type", serializer.contentType);
+  return new Request(request, { body: serializer.stringify(inputs.body) });
+};
+
+/**
+ * Decode a test call response like the browser client (ApiError on failure)
+ */
+const readTestResponse = async (
+  res: Response,
+  serializer: Serializer
+): Promise<unknown> => {
+  if (!res.ok) {
+    throw await toApiError(res);
+  }
+  if (res.headers.get("content-type")?.includes(serializer.contentType)) {
+    return serializer.parse(await res.text());
+  }
+  return res.json();
+};
+
+/**
+ * Build the test caller of one route
+ */
+const createTestRouteCaller = (
+  endpoint: TestRouteEndpoint,
+  fetchResponse: TestFetch,
+  options: TestClientOptions
+): RouteCaller => {
+  const serializer = options.serializer ?? richSerializer;
+  if (!endpoint.stream) {
+    return async (input) =>
+      readTestResponse(
+        await fetchResponse(buildTestRequest(endpoint, input, options)),
+        serializer
+      );
+  }
+  return (input): ApiEventStream<unknown> => {
+    const controller = new AbortController();
+    const iterate = async function* (): AsyncGenerator<unknown> {
+      const res = await fetchResponse(
+        buildTestRequest(endpoint, input, options, controller.signal)
+      );
+      if (!res.ok) {
+        throw await toApiError(res);
+      }
+      try {
+        yield* readEventValues(res, serializer);
+      } finally {
+        controller.abort();
+      }
+    };
+    return {
+      [Symbol.asyncIterator]: iterate,
+      abort: () => controller.abort(),
+    };
+  };
+};
+
+/**
+ * Build a router-shaped client whose calls go through an in-memory dispatcher
+ * `endpoints` maps route key paths ("/products/byId", "/hello:GET") to their endpoints
+ */
+export const createTestClient = (
+  routes: object,
+  endpoints: Map<string, TestRouteEndpoint>,
+  fetchResponse: TestFetch,
+  options: TestClientOptions = {}
+): Record<string, unknown> =>
+  createRouterCaller(routes, (keyPath) => {
+    const endpoint = endpoints.get(keyPath);
+    return endpoint && createTestRouteCaller(endpoint, fetchResponse, options);
+  });
@@ -3,6 +3,7 @@ import type {
   ComponentType as ReactComponentType,
   ReactNode,
 } from "react";
+import type { ErrorComponentProps } from "./error-boundary";
 
 /**
  * Component type for RSC support
@@ -29,6 +30,12 @@ export interface RouteConfig {
   >[];
   /** Types of parent layouts */
   parentLayoutTypes?: ComponentType[];
+  /** Error boundaries (lazy loaded), outermost first */
+  errorBoundaries?: {
+    component: LazyExoticComponent<ReactComponentType<ErrorComponentProps>>;
+    /** Number of layouts wrapping the boundary (the root layout excluded) */
+    layoutDepth: number;
+  }[];
   isDynamic?: boolean;
   dynamicSegments?: string[];
   /** Whether this route is in a client-navigable group (SPA-style navigation) */
@@ -40,3 +47,10 @@ export interface RouteConfig {
  * The actual routes are generated by the bundler plugin at build time
  */
 export const routes: Record<string, RouteConfig> = {};
+
+/**
+ * Lazy global-error.tsx component (undefined without one)
+ */
+export const globalError:
+  | LazyExoticComponent<ReactComponentType<ErrorComponentProps>>
+  | undefined = undefined;
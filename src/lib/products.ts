@@ -8,7 +8,7 @@ export interface Product {
   description: string;
   price: number;
   status: "draft" | "live";
-  updatedAt: number;
+  updatedAt: Date;
 }
 
 /**
@@ -21,7 +21,7 @@ const products: Product[] = [
     description: "High-quality wireless headphones with noise cancellation",
     price: 199.99,
     status: "live",
-    updatedAt: Date.now(),
+    updatedAt: new Date(),
   },
   {
     id: "2",
@@ -29,7 +29,7 @@ const products: Product[] = [
     description: "Feature-rich smartwatch with health tracking",
     price: 299.99,
     status: "live",
-    updatedAt: Date.now(),
+    updatedAt: new Date(),
   },
   {
     id: "3",
@@ -37,7 +37,7 @@ const products: Product[] = [
     description: "Durable USB-C charging cable, 6ft length",
     price: 19.99,
     status: "live",
-    updatedAt: Date.now(),
+    updatedAt: new Date(),
   },
 ];
 
@@ -80,7 +80,7 @@ export const updateProduct = async (
     return null;
   }
 
-  Object.assign(product, updates, { updatedAt: Date.now() });
+  Object.assign(product, updates, { updatedAt: new Date() });
   return product;
 };
 
@@ -29,28 +29,7 @@ export default defineMiddleware({
     // Log request
     console.log(`${request.method} ${request.url}`);
 
-    // Example: Add CORS headers
-    const response = await next();
-
-    // Add CORS headers (example)
-    const corsHeaders = {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
-    };
-
-    // Create new response with headers
-    const newHeaders = new Headers(response.headers);
-    for (const [key, value] of Object.entries(corsHeaders)) {
-      newHeaders.set(key, value);
-    }
-
-    const newResponse = new Response(response.body, {
-      status: response.status,
-      statusText: response.statusText,
-      headers: newHeaders,
-    });
-
-    return newResponse;
+    // CORS for API routes is configured in createAPI (see src/api/index.ts)
+    return await next();
   },
 });